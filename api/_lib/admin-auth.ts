@@ -0,0 +1,120 @@
+// api/_lib/admin-auth.ts - Verifies Firebase ID tokens sent by the admin panel
+import { base64UrlDecode } from './crypto';
+
+const FIREBASE_PROJECT_ID = process.env.FIREBASE_PROJECT_ID || '';
+
+// Optional comma-separated list; when unset any signed-in Firebase user is an admin,
+// matching the admin panel, which only requires a login
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || '')
+  .split(',')
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean);
+
+const JWKS_URL = 'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+
+export interface AdminUser {
+  uid: string;
+  email: string;
+}
+
+interface JwtHeader {
+  alg: string;
+  kid: string;
+}
+
+interface FirebaseClaims {
+  aud: string;
+  iss: string;
+  sub: string;
+  exp: number;
+  iat: number;
+  email?: string;
+}
+
+let cachedKeys: { keys: Map<string, CryptoKey>; expires: number } | null = null;
+
+async function getSigningKeys(): Promise<Map<string, CryptoKey>> {
+  if (cachedKeys && cachedKeys.expires > Date.now()) return cachedKeys.keys;
+
+  const response = await fetch(JWKS_URL, { signal: AbortSignal.timeout(5000) });
+  if (!response.ok) {
+    throw new Error(`Failed to load Firebase signing keys: ${response.status}`);
+  }
+
+  const { keys: jwks } = await response.json() as { keys: (JsonWebKey & { kid: string })[] };
+  const keys = new Map<string, CryptoKey>();
+  for (const jwk of jwks) {
+    keys.set(jwk.kid, await crypto.subtle.importKey(
+      'jwk',
+      jwk,
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify']
+    ));
+  }
+
+  // Google rotates these keys; honour its max-age
+  const maxAge = Number(response.headers.get('cache-control')?.match(/max-age=(\d+)/)?.[1] || 3600);
+  cachedKeys = { keys, expires: Date.now() + maxAge * 1000 };
+  return keys;
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment))) as T;
+}
+
+/**
+ * Verify a Firebase ID token. Returns the admin user, or null when the token
+ * is missing, invalid, expired or belongs to a non-admin account.
+ */
+export async function verifyAdminToken(idToken: string | null): Promise<AdminUser | null> {
+  if (!idToken || !FIREBASE_PROJECT_ID) return null;
+
+  try {
+    const [headerSegment, payloadSegment, signatureSegment] = idToken.split('.');
+    if (!headerSegment || !payloadSegment || !signatureSegment) return null;
+
+    const header = decodeSegment<JwtHeader>(headerSegment);
+    if (header.alg !== 'RS256') return null;
+
+    const key = (await getSigningKeys()).get(header.kid);
+    if (!key) return null;
+
+    const valid = await crypto.subtle.verify(
+      'RSASSA-PKCS1-v1_5',
+      key,
+      base64UrlDecode(signatureSegment),
+      new TextEncoder().encode(`${headerSegment}.${payloadSegment}`)
+    );
+    if (!valid) return null;
+
+    const claims = decodeSegment<FirebaseClaims>(payloadSegment);
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      claims.aud !== FIREBASE_PROJECT_ID ||
+      claims.iss !== `https://securetoken.google.com/${FIREBASE_PROJECT_ID}` ||
+      !claims.sub ||
+      claims.exp <= now ||
+      claims.iat > now + 60
+    ) {
+      return null;
+    }
+
+    const email = (claims.email || '').toLowerCase();
+    if (ADMIN_EMAILS.length > 0 && !ADMIN_EMAILS.includes(email)) return null;
+
+    return { uid: claims.sub, email };
+  } catch (error) {
+    console.error('Admin token verification failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Read "Authorization: Bearer <token>" and verify it
+ */
+export function verifyAdminRequest(request: Request): Promise<AdminUser | null> {
+  const authorization = request.headers.get('authorization') || '';
+  const match = authorization.match(/^Bearer\s+(.+)$/i);
+  return verifyAdminToken(match ? match[1] : null);
+}
@@ -0,0 +1,179 @@
+// api/_lib/catchup.ts - Catch-up (timeshift) URLs of playlist channels
+//
+// Follows the conventions of the Kodi IPTV Simple client, which most playlists
+// are written for: catchup="default|append|shift|flussonic|xc", an optional
+// catchup-source template and catchup-days. Catch-up URLs are built from the
+// upstream stream URL, so this runs on the server: playlists are parsed here
+// and the page only ever holds proxy URLs. Channels are listed with the
+// resolved mode and days, so the page never interprets playlist settings.
+
+export type CatchupMode = 'default' | 'append' | 'shift' | 'flussonic' | 'xc';
+
+// Sealed into a channel's proxy token
+export interface CatchupSettings {
+  mode: CatchupMode;
+  source?: string; // catchup-source template
+  days: number;    // how far back programmes can be played
+}
+
+export interface CatchupWindow {
+  start: number; // ms
+  duration: number; // ms
+}
+
+// Without catchup-days, assume what the programme guide keeps
+export const DEFAULT_CATCHUP_DAYS = 7;
+
+const MODE_ALIASES: Record<string, CatchupMode> = {
+  default: 'default',
+  append: 'append',
+  shift: 'shift',
+  timeshift: 'shift',
+  flussonic: 'flussonic',
+  'flussonic-hls': 'flussonic',
+  'flussonic-ts': 'flussonic',
+  fs: 'flussonic',
+  xc: 'xc',
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Format a time with strftime-like letters: Y m d H M S (UTC)
+ */
+const formatTime = (time: number, format: string): string => {
+  const date = new Date(time);
+  const parts: Record<string, string> = {
+    Y: String(date.getUTCFullYear()),
+    m: pad(date.getUTCMonth() + 1),
+    d: pad(date.getUTCDate()),
+    H: pad(date.getUTCHours()),
+    M: pad(date.getUTCMinutes()),
+    S: pad(date.getUTCSeconds()),
+  };
+  return format.replace(/[YmdHMS]/g, letter => parts[letter]);
+};
+
+/**
+ * Fill the placeholders of a catch-up template. Both {name} and ${name} are
+ * accepted:
+ * - {utc} / {start}, {utcend} / {end}, {lutc} / {now} / {timestamp}: unix seconds,
+ *   or formatted with {utc:Y-m-d H:M:S}
+ * - {duration}, {offset}: seconds, or divided with {duration:60}
+ * - {Y} {m} {d} {H} {M} {S}: parts of the start time (UTC)
+ * Unknown placeholders are left as they are.
+ */
+const fillCatchupTemplate = (template: string, window: CatchupWindow, now = Date.now()): string => {
+  const end = window.start + window.duration;
+  const times: Record<string, number> = {
+    utc: window.start,
+    start: window.start,
+    utcend: end,
+    end,
+    lutc: now,
+    now,
+    timestamp: now,
+  };
+  const spans: Record<string, number> = {
+    duration: window.duration,
+    offset: now - window.start,
+  };
+
+  return template.replace(/\$?\{([A-Za-z-]+)(?::([^}]*))?\}/g, (placeholder, name: string, argument?: string) => {
+    if (name in times) {
+      return argument ? formatTime(times[name], argument) : String(Math.floor(times[name] / 1000));
+    }
+    if (name in spans) {
+      const divisor = argument ? parseInt(argument, 10) || 1 : 1;
+      return String(Math.floor(spans[name] / 1000 / divisor));
+    }
+    if (/^[YmdHMS]$/.test(name)) {
+      return formatTime(window.start, name);
+    }
+    return placeholder;
+  });
+};
+
+const hasPlaceholders = (url: string) => /\$?\{[A-Za-z-]+(?::[^}]*)?\}/.test(url);
+
+/**
+ * Work out the URL template for a stream, before placeholders are filled in.
+ * Returns null when the catch-up settings cannot produce a URL.
+ */
+const getCatchupTemplate = (url: string, { mode, source }: Pick<CatchupSettings, 'mode' | 'source'>): string | null => {
+  switch (mode) {
+    case 'default':
+      // The source replaces the stream URL; some playlists template the stream URL itself
+      if (source) return source;
+      return hasPlaceholders(url) ? url : null;
+
+    case 'append':
+      if (!source) return null;
+      return url.includes('?') && source.startsWith('?') ? `${url}&${source.slice(1)}` : `${url}${source}`;
+
+    case 'shift':
+      return `${url}${url.includes('?') ? '&' : '?'}utc={utc}&lutc={lutc}`;
+
+    case 'flussonic': {
+      if (source) return source;
+      // http://host/channel/index.m3u8?token=... or http://host/channel/mpegts?token=...
+      const match = url.match(/^(https?:\/\/[^/]+)\/(.*)\/([^/?]*?)(mpegts|\.m3u8)(\?.*)?$/);
+      if (!match) return null;
+      const [, host, channelPath, listType, format, query = ''] = match;
+      return format === 'mpegts'
+        ? `${host}/${channelPath}/timeshift_abs-{utc}.ts${query}`
+        : `${host}/${channelPath}/${listType || 'index'}-{utc}-{duration}.m3u8${query}`;
+    }
+
+    case 'xc': {
+      if (source) return source;
+      // http://host/live/user/pass/1234.m3u8 -> http://host/timeshift/user/pass/<minutes>/<Y-m-d:H-M>/1234.m3u8
+      const match = url.match(/^(https?:\/\/[^/]+)\/(?:live\/)?([^/]+)\/([^/]+)\/([^/.?]+)(\.m3u8?|\.ts)?(\?.*)?$/);
+      if (!match) return null;
+      const [, host, username, password, streamId, extension = '.ts', query = ''] = match;
+      return `${host}/timeshift/${username}/${password}/{duration:60}/{Y}-{m}-{d}:{H}-{M}/${streamId}${extension}${query}`;
+    }
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * A playlist channel's catch-up settings, or null when they cannot produce a
+ * URL for its stream (the channel is then listed without catch-up)
+ */
+export const resolveCatchup = (url: string, catchup?: string, source?: string, days?: number): CatchupSettings | null => {
+  const mode = catchup ? MODE_ALIASES[catchup.toLowerCase()] : undefined;
+  if (!mode) return null;
+
+  const settings: CatchupSettings = {
+    mode,
+    ...(source && { source }),
+    days: days && days > 0 ? days : DEFAULT_CATCHUP_DAYS,
+  };
+  return getCatchupTemplate(url, settings) !== null ? settings : null;
+};
+
+/**
+ * Whether a window starts within how far back a channel keeps programmes
+ */
+export const isWithinCatchup = (settings: CatchupSettings, window: CatchupWindow, now = Date.now()): boolean =>
+  window.start <= now && window.start >= now - (settings.days || DEFAULT_CATCHUP_DAYS) * 24 * 60 * 60 * 1000;
+
+/**
+ * The upstream URL that plays a stream from `window.start` for `window.duration`,
+ * or null when the settings cannot produce one
+ */
+export const buildCatchupUrl = (url: string, settings: CatchupSettings, window: CatchupWindow, now = Date.now()): string | null => {
+  const template = getCatchupTemplate(url, settings);
+  if (!template) return null;
+
+  const filled = fillCatchupTemplate(template, window, now);
+  // Relative sources (e.g. "?utc={utc}" with catchup="default") resolve against the stream URL
+  try {
+    return new URL(filled, url).toString();
+  } catch {
+    return filled;
+  }
+};
@@ -0,0 +1,111 @@
+// api/_lib/crypto.ts - AES-GCM sealing and HMAC signing for values that travel inside client-visible URLs
+const PROXY_SECRET = process.env.PROXY_SECRET || '';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let keyPromise: Promise<CryptoKey> | null = null;
+let hmacKeyPromise: Promise<CryptoKey> | null = null;
+
+function assertSecret() {
+  if (!PROXY_SECRET) {
+    throw new Error('PROXY_SECRET is not configured');
+  }
+}
+
+function getKey(): Promise<CryptoKey> {
+  assertSecret();
+  if (!keyPromise) {
+    keyPromise = crypto.subtle
+      .digest('SHA-256', encoder.encode(PROXY_SECRET))
+      .then(hash => crypto.subtle.importKey('raw', hash, 'AES-GCM', false, ['encrypt', 'decrypt']));
+  }
+  return keyPromise;
+}
+
+function getHmacKey(): Promise<CryptoKey> {
+  assertSecret();
+  if (!hmacKeyPromise) {
+    // Separate key material from the AES key so the two never share a key
+    hmacKeyPromise = crypto.subtle.importKey(
+      'raw',
+      encoder.encode(`hmac:${PROXY_SECRET}`),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+  }
+  return hmacKeyPromise;
+}
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Encrypt a JSON value into an opaque URL-safe string (random IV + ciphertext)
+ */
+export async function sealJson(value: unknown): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getKey(), encoder.encode(JSON.stringify(value)))
+  );
+  const sealed = new Uint8Array(iv.length + ciphertext.length);
+  sealed.set(iv);
+  sealed.set(ciphertext, iv.length);
+  return base64UrlEncode(sealed);
+}
+
+/**
+ * Decrypt a value produced by sealJson. Returns null for tampered or foreign tokens.
+ */
+export async function openJson<T>(token: string): Promise<T | null> {
+  try {
+    const sealed = base64UrlDecode(token);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: sealed.slice(0, 12) },
+      await getKey(),
+      sealed.slice(12)
+    );
+    return JSON.parse(decoder.decode(plaintext)) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * HMAC-SHA256 signature of a string, base64url encoded
+ */
+export async function signValue(value: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await getHmacKey(), encoder.encode(value));
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+/**
+ * Constant-time check of a signature produced by signValue
+ */
+export async function verifySignature(value: string, signature: string): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify('HMAC', await getHmacKey(), base64UrlDecode(signature), encoder.encode(value));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Short SHA-256 fingerprint, used to bind tokens to a client without storing its address
+ */
+export async function fingerprint(value: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', encoder.encode(`${PROXY_SECRET}:${value}`));
+  return base64UrlEncode(new Uint8Array(hash).slice(0, 12));
+}
@@ -0,0 +1,147 @@
+// api/_lib/dash-rewriter.ts - Rewrites URLs in a DASH (MPD) manifest to go through the proxy
+//
+// Segment URLs in DASH are usually built by the player from templates such as
+// "$RepresentationID$/$Number$.m4s", so they cannot be signed one by one. Instead
+// each upstream directory becomes a path-style proxy prefix
+// (/api/m3u8-proxy/p/<token>/) and the player resolves templates under it.
+// Relative BaseURLs and templates are left alone and resolve against that prefix.
+
+export interface DashUrlBuilders {
+  // Proxy URL for a single resource (used for the manifest's own Location)
+  toProxyUrl: (absoluteUrl: string) => Promise<string>;
+  // Path-style proxy prefix, ending in '/', for an upstream directory URL
+  toProxyPrefix: (directoryUrl: string) => Promise<string>;
+}
+
+// Attributes that hold URLs or URL templates, per element
+const URL_ATTRIBUTES: Record<string, string[]> = {
+  SegmentTemplate: ['media', 'initialization', 'index', 'bitstreamSwitching'],
+  SegmentURL: ['media', 'index'],
+  Initialization: ['sourceURL'],
+  RepresentationIndex: ['sourceURL'],
+  BitstreamSwitching: ['sourceURL'],
+};
+
+export function decodeXml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function encodeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function isAbsoluteHttpUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+/**
+ * Split an absolute URL or URL template into the upstream directory that gets
+ * a proxy prefix and the remainder the player keeps resolving. The directory
+ * stops before the first template variable so "$RepresentationID$/..." paths
+ * are still filled in by the player.
+ */
+function splitDirectory(absoluteUrl: string): { directory: string; rest: string } {
+  const templateStart = absoluteUrl.indexOf('$');
+  const queryStart = absoluteUrl.indexOf('?');
+  const limits = [templateStart, queryStart].filter(index => index !== -1);
+  const end = limits.length > 0 ? Math.min(...limits) : absoluteUrl.length;
+  const slash = absoluteUrl.lastIndexOf('/', end - 1);
+  return { directory: absoluteUrl.slice(0, slash + 1), rest: absoluteUrl.slice(slash + 1) };
+}
+
+async function proxyAbsolute(absoluteUrl: string, builders: DashUrlBuilders): Promise<string> {
+  // Normalise first so "https://cdn.example.com" gets its trailing slash
+  const { directory, rest } = splitDirectory(new URL(absoluteUrl).toString());
+  return `${await builders.toProxyPrefix(directory)}${rest}`;
+}
+
+async function replaceAsync(
+  input: string,
+  pattern: RegExp,
+  replacer: (...groups: string[]) => Promise<string>
+): Promise<string> {
+  const matches = Array.from(input.matchAll(pattern));
+  const replacements = await Promise.all(matches.map(match => replacer(...match)));
+  let index = 0;
+  return input.replace(pattern, () => replacements[index++]);
+}
+
+const BASE_URL_PATTERN = /(<BaseURL(?:\s[^>]*)?>)([^<]*)(<\/BaseURL>)/g;
+
+/**
+ * Rewrite an MPD so BaseURL, SegmentTemplate/SegmentList URLs and Location
+ * all point back at the proxy. manifestUrl is the final (post-redirect) URL.
+ */
+export async function rewriteDashManifest(
+  manifest: string,
+  manifestUrl: string,
+  builders: DashUrlBuilders
+): Promise<string> {
+  const mpdOpen = manifest.match(/<MPD[\s>][^>]*>/);
+  if (!mpdOpen || mpdOpen.index === undefined) return manifest;
+
+  // MPD-level children (BaseURL, Location) come before the first Period
+  const headStart = mpdOpen.index + mpdOpen[0].length;
+  const periodStart = manifest.indexOf('<Period', headStart);
+  const headEnd = periodStart === -1 ? manifest.length : periodStart;
+
+  let head = manifest.slice(headStart, headEnd);
+  let periods = manifest.slice(headEnd);
+
+  // <Location> is where the player re-fetches a dynamic manifest from
+  head = await replaceAsync(head, /(<Location(?:\s[^>]*)?>)([^<]*)(<\/Location>)/g, async (match, open, value, close) => {
+    const absoluteUrl = new URL(decodeXml(value.trim()), manifestUrl).toString();
+    return `${open}${encodeXml(await builders.toProxyUrl(absoluteUrl))}${close}`;
+  });
+
+  // MPD-level BaseURLs anchor all relative resolution, so resolve them against
+  // the manifest and proxy them. Without one the player would resolve against
+  // the proxy endpoint itself, so the manifest's own directory is injected.
+  if (/<BaseURL[\s>]/.test(head)) {
+    head = await replaceAsync(head, BASE_URL_PATTERN, async (match, open, value, close) => {
+      const absoluteUrl = new URL(decodeXml(value.trim()), manifestUrl).toString();
+      return `${open}${encodeXml(await proxyAbsolute(absoluteUrl, builders))}${close}`;
+    });
+  } else {
+    const manifestDirectory = new URL('./', manifestUrl).toString();
+    head = `<BaseURL>${encodeXml(await builders.toProxyPrefix(manifestDirectory))}</BaseURL>${head}`;
+  }
+
+  // Nested absolute BaseURLs get their own prefix; relative ones resolve against their proxied parent
+  periods = await replaceAsync(periods, BASE_URL_PATTERN, async (match, open, value, close) => {
+    const url = decodeXml(value.trim());
+    if (!isAbsoluteHttpUrl(url)) return match;
+    return `${open}${encodeXml(await proxyAbsolute(url, builders))}${close}`;
+  });
+
+  // Absolute segment URLs and templates
+  for (const [element, attributes] of Object.entries(URL_ATTRIBUTES)) {
+    const elementPattern = new RegExp(`<${element}\\s[^>]*>`, 'g');
+    periods = await replaceAsync(periods, elementPattern, async (tag) => {
+      let rewrittenTag = tag;
+      for (const attribute of attributes) {
+        rewrittenTag = await replaceAsync(
+          rewrittenTag,
+          new RegExp(`(\\s${attribute}=")([^"]*)(")`, 'g'),
+          async (match, before, value, after) => {
+            const url = decodeXml(value);
+            if (!isAbsoluteHttpUrl(url)) return match;
+            return `${before}${encodeXml(await proxyAbsolute(url, builders))}${after}`;
+          }
+        );
+      }
+      return rewrittenTag;
+    });
+  }
+
+  return manifest.slice(0, headStart) + head + periods;
+}
@@ -0,0 +1,96 @@
+// api/_lib/drm.ts - DRM settings of playlist and manual channels
+
+// Same shape as DrmConfig in src/types
+export interface DrmConfig {
+  keySystem: string;
+  licenseUrl?: string;
+  licenseHeaders?: Record<string, string>;
+  serverCertificateUrl?: string;
+  clearKeys?: Record<string, string>;
+}
+
+// Names used by playlists, Kodi and older saved settings
+const KEY_SYSTEMS: Record<string, string> = {
+  'clearkey': 'org.w3.clearkey',
+  'org.w3.clearkey': 'org.w3.clearkey',
+  'widevine': 'com.widevine.alpha',
+  'com.widevine.alpha': 'com.widevine.alpha',
+  'playready': 'com.microsoft.playready',
+  'com.microsoft.playready': 'com.microsoft.playready',
+};
+
+export const toKeySystem = (name: string): string | undefined => KEY_SYSTEMS[name.trim().toLowerCase()];
+
+// Key IDs are sometimes written as UUIDs; Shaka wants plain hex
+export const toHex = (value: string) => value.trim().replace(/-/g, '').toLowerCase();
+
+const isUrl = (value: string) => /^https?:\/\//i.test(value);
+
+// "kid:key" entries separated by commas, spaces or new lines, or a {"kid": "key"} object
+const parseClearKeys = (text: string): Record<string, string> | undefined => {
+  const keys: Record<string, string> = {};
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{')) {
+    try {
+      Object.entries(JSON.parse(trimmed)).forEach(([kid, key]) => {
+        if (typeof key === 'string' && kid && key) keys[toHex(kid)] = toHex(key);
+      });
+    } catch {
+      return undefined;
+    }
+  } else {
+    trimmed.split(/[\s,]+/).forEach(pair => {
+      const [kid, key] = pair.split(':');
+      if (kid && key) keys[toHex(kid)] = toHex(key);
+    });
+  }
+
+  return Object.keys(keys).length > 0 ? keys : undefined;
+};
+
+/**
+ * A stored DRM setting in the current shape. Also accepts the older
+ * { licenseType, licenseKey } pair, like the admin panel does.
+ */
+const normalizeDrm = (value: unknown): DrmConfig | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const data = value as Record<string, unknown>;
+
+  if (typeof data.keySystem === 'string') {
+    const keySystem = toKeySystem(data.keySystem);
+    return keySystem ? { ...(data as unknown as DrmConfig), keySystem } : undefined;
+  }
+
+  if (typeof data.licenseType !== 'string' || typeof data.licenseKey !== 'string') return undefined;
+  const keySystem = toKeySystem(data.licenseType);
+  const licenseKey = data.licenseKey.trim();
+  if (!keySystem || !licenseKey) return undefined;
+
+  if (keySystem === 'org.w3.clearkey' && !isUrl(licenseKey)) {
+    const clearKeys = parseClearKeys(licenseKey);
+    return clearKeys ? { keySystem, clearKeys } : undefined;
+  }
+  return { keySystem, licenseUrl: licenseKey.split('|')[0] };
+};
+
+/**
+ * A stored stream URL and DRM setting, upgrading settings saved in the older
+ * shapes: a "url?|drmScheme=...&drmLicense=...&token=..." suffix on the URL is
+ * stripped and becomes the DRM setting, unless one is stored. Mirrors
+ * resolveStreamDrm in src/lib/drm.ts.
+ */
+export const resolveStreamDrm = (url: string, drm?: unknown): { url: string; drm?: DrmConfig } => {
+  const separator = url.indexOf('?|');
+  const streamUrl = separator === -1 ? url : url.slice(0, separator);
+  const stored = normalizeDrm(drm);
+  if (stored || separator === -1) return { url: streamUrl, ...(stored && { drm: stored }) };
+
+  const params = new URLSearchParams(url.slice(separator + 2));
+  const scheme = params.get('drmScheme');
+  const license = params.get('drmLicense');
+  const token = params.get('token') || params.get('authToken');
+  const legacy = scheme && license ? normalizeDrm({ licenseType: scheme, licenseKey: license }) : undefined;
+  if (legacy && token) legacy.licenseHeaders = { Authorization: `Bearer ${token}` };
+  return { url: streamUrl, ...(legacy && { drm: legacy }) };
+};
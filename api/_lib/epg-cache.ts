@@ -0,0 +1,184 @@
+// api/_lib/epg-cache.ts - Loads XMLTV guides and keeps them parsed in memory
+//
+// Guides are far too large for the shared KV store, so each isolate keeps a few
+// parsed guides, trimmed to a window around now, and refreshes them hourly.
+// The browser names guides by sealed references, so only guides a playlist or
+// source listed can be loaded.
+import { safeFetch } from './url-safety';
+import { sealJson, openJson } from './crypto';
+import { openXtreamSource, xtreamGuideUrl, XTREAM_GUIDE_PREFIX } from './xtream';
+import { parseXmltv } from './xmltv';
+import type { XmltvProgramme } from './xmltv';
+
+// Seconds a parsed guide is used before it is downloaded again
+const GUIDE_TTL = parseInt(process.env.EPG_CACHE_TTL || '', 10) || 60 * 60;
+
+// Programmes kept around now: the past is needed for catch-up, the future for the guide
+const KEEP_PAST_MS = 7 * 24 * 60 * 60 * 1000;
+const KEEP_FUTURE_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Used when a programme has no stop time and nothing follows it
+const DEFAULT_DURATION_MS = 30 * 60 * 1000;
+
+const MEMORY_ENTRIES = 3;
+
+// Guide references handed to the browser for playlist guides (url-tvg)
+const GUIDE_PREFIX = 'guide:';
+
+export type GuideProgramme = Omit<XmltvProgramme, 'channel'>;
+
+export interface Guide {
+  programmes: Map<string, GuideProgramme[]>; // by lower-cased XMLTV channel id
+  names: Map<string, string>; // normalised display name -> XMLTV channel id
+  fetchedAt: number;
+}
+
+export interface GuideChannelQuery {
+  tvgId?: string;
+  tvgName?: string;
+  name?: string;
+}
+
+export class GuideFetchError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'GuideFetchError';
+    this.status = status;
+  }
+}
+
+const guides = new Map<string, Guide>();
+const inflight = new Map<string, Promise<Guide>>();
+
+/**
+ * Normalise a channel name for matching playlist names against XMLTV display
+ * names: case, accents, punctuation and a trailing quality tag are ignored,
+ * so "BBC One HD" matches "BBC One".
+ */
+/**
+ * A reference to a guide URL for the browser to ask for programmes with
+ */
+export async function sealGuideUrl(url: string): Promise<string> {
+  return `${GUIDE_PREFIX}${await sealJson({ u: url })}`;
+}
+
+/**
+ * Turn a guide reference from the browser into the URL to fetch: "guide:<sealed URL>"
+ * from a playlist, or "xtream:<sealed source>" for the server's xmltv.php.
+ * Anything else, plain URLs included, is refused.
+ */
+export async function resolveGuideUrl(epgUrl: string): Promise<string | null> {
+  if (epgUrl.startsWith(GUIDE_PREFIX)) {
+    const sealed = await openJson<{ u?: unknown }>(epgUrl.slice(GUIDE_PREFIX.length));
+    return typeof sealed?.u === 'string' ? sealed.u : null;
+  }
+  if (epgUrl.startsWith(XTREAM_GUIDE_PREFIX)) {
+    const credentials = await openXtreamSource(epgUrl.slice(XTREAM_GUIDE_PREFIX.length));
+    return credentials ? xtreamGuideUrl(credentials) : null;
+  }
+  return null;
+}
+
+export function normaliseChannelName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .replace(/\s+(?:sd|hd|fhd|uhd|4k|hevc)$/, '')
+    .replace(/\s+/g, '');
+}
+
+async function downloadGuide(url: string): Promise<Guide> {
+  const response = await safeFetch(url, { signal: AbortSignal.timeout(25000) });
+  if (!response.ok || !response.body) {
+    throw new GuideFetchError(`Failed to fetch guide: ${response.statusText || response.status}`, response.ok ? 502 : response.status);
+  }
+
+  const now = Date.now();
+  const programmes = new Map<string, GuideProgramme[]>();
+  const names = new Map<string, string>();
+
+  await parseXmltv(response.body, {
+    onChannel: channel => {
+      channel.displayNames.forEach(displayName => {
+        const key = normaliseChannelName(displayName);
+        if (key && !names.has(key)) names.set(key, channel.id.toLowerCase());
+      });
+    },
+    onProgramme: ({ channel, ...programme }) => {
+      const stop = Math.max(programme.stop, programme.start);
+      if (stop < now - KEEP_PAST_MS || programme.start > now + KEEP_FUTURE_MS) return;
+
+      const key = channel.toLowerCase();
+      const list = programmes.get(key);
+      if (list) list.push(programme);
+      else programmes.set(key, [programme]);
+    },
+  });
+
+  programmes.forEach(list => {
+    list.sort((a, b) => a.start - b.start);
+    list.forEach((programme, index) => {
+      if (programme.stop <= programme.start) {
+        programme.stop = list[index + 1]?.start ?? programme.start + DEFAULT_DURATION_MS;
+      }
+    });
+  });
+
+  return { programmes, names, fetchedAt: now };
+}
+
+function remember(url: string, guide: Guide) {
+  guides.delete(url);
+  guides.set(url, guide);
+  if (guides.size > MEMORY_ENTRIES) {
+    guides.delete(guides.keys().next().value as string);
+  }
+}
+
+/**
+ * Get a parsed guide, downloading it when it is missing or older than the TTL.
+ * A stale guide is kept when the download fails.
+ */
+export async function getGuide(url: string): Promise<Guide> {
+  const cached = guides.get(url);
+  if (cached && Date.now() - cached.fetchedAt < GUIDE_TTL * 1000) return cached;
+
+  let pending = inflight.get(url);
+  if (!pending) {
+    pending = downloadGuide(url).finally(() => inflight.delete(url));
+    inflight.set(url, pending);
+  }
+
+  try {
+    const guide = await pending;
+    remember(url, guide);
+    return guide;
+  } catch (error) {
+    if (!cached) throw error;
+    console.error('Guide refresh failed, serving stale:', error instanceof Error ? error.message : error);
+    return cached;
+  }
+}
+
+/**
+ * Programmes for a playlist channel, matched by tvg-id, then tvg-name, then name
+ */
+export function findProgrammes(guide: Guide, channel: GuideChannelQuery): GuideProgramme[] {
+  if (channel.tvgId) {
+    const byId = guide.programmes.get(channel.tvgId.toLowerCase());
+    if (byId) return byId;
+  }
+
+  for (const name of [channel.tvgName, channel.name]) {
+    if (!name) continue;
+    const id = guide.names.get(normaliseChannelName(name));
+    const byName = id ? guide.programmes.get(id) : undefined;
+    if (byName) return byName;
+  }
+
+  return [];
+}
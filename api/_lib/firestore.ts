@@ -0,0 +1,207 @@
+// api/_lib/firestore.ts - Minimal Firestore REST reader for edge functions
+// The Firebase SDK does not run on the edge runtime, so settings are read over REST.
+// Public collections are read with the web API key; admin-only ones with a service
+// account (FIREBASE_CLIENT_EMAIL and FIREBASE_PRIVATE_KEY), which security rules do not bind.
+import { base64UrlEncode } from './crypto';
+
+const FIREBASE_PROJECT_ID = process.env.FIREBASE_PROJECT_ID || '';
+const FIREBASE_API_KEY = process.env.FIREBASE_API_KEY || '';
+const FIREBASE_CLIENT_EMAIL = process.env.FIREBASE_CLIENT_EMAIL || '';
+// Hosting dashboards often store the PEM key with escaped newlines
+const FIREBASE_PRIVATE_KEY = (process.env.FIREBASE_PRIVATE_KEY || '').replace(/\\n/g, '\n');
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const DATASTORE_SCOPE = 'https://www.googleapis.com/auth/datastore';
+
+export interface ReadOptions {
+  service?: boolean; // Read as the service account, for admin-only collections
+}
+
+interface FirestoreValue {
+  stringValue?: string;
+  integerValue?: string;
+  doubleValue?: number;
+  booleanValue?: boolean;
+  timestampValue?: string;
+  nullValue?: null;
+  arrayValue?: { values?: FirestoreValue[] };
+  mapValue?: { fields?: Record<string, FirestoreValue> };
+}
+
+function decodeValue(value: FirestoreValue): unknown {
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.integerValue !== undefined) return Number(value.integerValue);
+  if (value.doubleValue !== undefined) return value.doubleValue;
+  if (value.booleanValue !== undefined) return value.booleanValue;
+  if (value.timestampValue !== undefined) return value.timestampValue;
+  if (value.nullValue !== undefined) return null;
+  if (value.arrayValue) return (value.arrayValue.values || []).map(decodeValue);
+  if (value.mapValue) return decodeFields(value.mapValue.fields || {});
+  return undefined;
+}
+
+function decodeFields(fields: Record<string, FirestoreValue>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    result[key] = decodeValue(value);
+  }
+  return result;
+}
+
+export function isFirestoreConfigured(): boolean {
+  return !!FIREBASE_PROJECT_ID;
+}
+
+let cachedToken: { token: string; expires: number } | null = null;
+
+async function importPrivateKey(pem: string): Promise<CryptoKey> {
+  const base64 = pem.replace(/-----(BEGIN|END) PRIVATE KEY-----/g, '').replace(/\s+/g, '');
+  const der = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  return crypto.subtle.importKey('pkcs8', der, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['sign']);
+}
+
+function encodeSegment(value: unknown): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+/**
+ * An OAuth access token for the service account, from a self-signed JWT.
+ * Tokens last an hour and are reused until shortly before they expire.
+ */
+async function getServiceToken(): Promise<string> {
+  if (cachedToken && cachedToken.expires > Date.now()) return cachedToken.token;
+  if (!FIREBASE_CLIENT_EMAIL || !FIREBASE_PRIVATE_KEY) {
+    throw new Error('Firestore service account is not configured');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const unsigned = `${encodeSegment({ alg: 'RS256', typ: 'JWT' })}.${encodeSegment({
+    iss: FIREBASE_CLIENT_EMAIL,
+    scope: DATASTORE_SCOPE,
+    aud: TOKEN_URL,
+    iat: now,
+    exp: now + 3600,
+  })}`;
+  const signature = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    await importPrivateKey(FIREBASE_PRIVATE_KEY),
+    new TextEncoder().encode(unsigned)
+  );
+
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: `${unsigned}.${base64UrlEncode(new Uint8Array(signature))}`,
+    }),
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    throw new Error(`Firestore service sign-in failed: ${response.status}`);
+  }
+
+  const { access_token, expires_in } = await response.json() as { access_token: string; expires_in: number };
+  cachedToken = { token: access_token, expires: Date.now() + (expires_in - 60) * 1000 };
+  return access_token;
+}
+
+async function requestInit(options: ReadOptions, init: RequestInit = {}): Promise<RequestInit> {
+  if (!options.service) return init;
+  return { ...init, headers: { ...init.headers, Authorization: `Bearer ${await getServiceToken()}` } };
+}
+
+function documentsUrl(path: string, params: Record<string, string> = {}): string {
+  const query = new URLSearchParams(params);
+  if (FIREBASE_API_KEY) query.set('key', FIREBASE_API_KEY);
+  const search = query.toString();
+  // Methods on the database itself (":runQuery") follow "documents" without a slash
+  const separator = path.startsWith(':') ? '' : '/';
+  return `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents${separator}${path}${search ? `?${search}` : ''}`;
+}
+
+/**
+ * Read a single document, e.g. getDocument('settings/proxy').
+ * Returns null when the document does not exist or Firestore is not configured.
+ */
+export async function getDocument(path: string, options: ReadOptions = {}): Promise<Record<string, unknown> | null> {
+  if (!FIREBASE_PROJECT_ID) return null;
+
+  const response = await fetch(documentsUrl(path), await requestInit(options, { signal: AbortSignal.timeout(5000) }));
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Firestore read failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return decodeFields(data.fields || {});
+}
+
+/**
+ * Read every document of a collection, e.g. listDocuments('channels').
+ * Returns an empty list when Firestore is not configured.
+ */
+export async function listDocuments(path: string, options: ReadOptions = {}): Promise<{ id: string; data: Record<string, unknown> }[]> {
+  if (!FIREBASE_PROJECT_ID) return [];
+
+  const documents: { id: string; data: Record<string, unknown> }[] = [];
+  let pageToken = '';
+  do {
+    const response = await fetch(
+      documentsUrl(path, { pageSize: '300', ...(pageToken && { pageToken }) }),
+      await requestInit(options, { signal: AbortSignal.timeout(5000) })
+    );
+    if (!response.ok) {
+      throw new Error(`Firestore list failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    for (const document of data.documents || []) {
+      documents.push({
+        id: String(document.name).split('/').pop() || '',
+        data: decodeFields(document.fields || {}),
+      });
+    }
+    pageToken = data.nextPageToken || '';
+  } while (pageToken);
+
+  return documents;
+}
+
+/**
+ * Read the documents of a collection whose field equals a string, e.g.
+ * queryDocuments('channels', 'categoryId', 'news').
+ * Returns an empty list when Firestore is not configured.
+ */
+export async function queryDocuments(
+  collectionId: string,
+  field: string,
+  value: string
+): Promise<{ id: string; data: Record<string, unknown> }[]> {
+  if (!FIREBASE_PROJECT_ID) return [];
+
+  const response = await fetch(documentsUrl(':runQuery'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      structuredQuery: {
+        from: [{ collectionId }],
+        where: { fieldFilter: { field: { fieldPath: field }, op: 'EQUAL', value: { stringValue: value } } },
+      },
+    }),
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    throw new Error(`Firestore query failed: ${response.status}`);
+  }
+
+  // One entry per match; an entry without a document only reports progress
+  const results: { document?: { name: string; fields?: Record<string, FirestoreValue> } }[] = await response.json();
+  return results
+    .filter(result => result.document)
+    .map(({ document }) => ({
+      id: String(document!.name).split('/').pop() || '',
+      data: decodeFields(document!.fields || {}),
+    }));
+}
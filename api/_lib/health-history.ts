@@ -0,0 +1,89 @@
+// api/_lib/health-history.ts - Uptime history of every channel, kept by the scheduled health check
+//
+// The whole history is one KV document: per channel the last few results as a
+// string (one character per check, newest last), plus a summary of each run
+// for the admin dashboard charts.
+import { kvGetJson, kvSetJson } from './kv';
+import type { ProbeResult, ProbeStatus } from './stream-probe';
+
+const STATE_KEY = 'health:state';
+const RUNS_KEY = 'health:runs';
+// Kept for a while after the job stops, so the last known state stays visible
+const HISTORY_TTL = 30 * 24 * 60 * 60;
+
+// Results kept per channel
+export const HISTORY_LENGTH = 48;
+// Consecutive failed checks after which a channel is shown as offline
+export const OFFLINE_AFTER = 3;
+const MAX_RUNS = 7 * 24 * 4;
+
+const STATUS_CODES: Record<ProbeStatus, string> = { ok: 'o', degraded: 'd', dead: 'x' };
+
+export interface ChannelHealthRecord {
+  name: string;
+  categoryName: string;
+  source: 'manual' | 'm3u' | 'xtream' | 'stalker';
+  status: ProbeStatus;
+  offline: boolean;
+  history: string;      // e.g. "ooxoxxx": o ok, d degraded, x dead
+  checkedAt: number;
+  since: number;        // when the status last changed
+  latencyMs?: number;
+  error?: string;
+}
+
+export interface HealthState {
+  updatedAt: number;
+  channels: Record<string, ChannelHealthRecord>;
+}
+
+export interface HealthRun {
+  at: number;
+  checked: number;
+  total: number;
+  ok: number;
+  degraded: number;
+  dead: number;
+  offline: number;
+}
+
+export async function readHealthState(): Promise<HealthState> {
+  return (await kvGetJson<HealthState>(STATE_KEY)) || { updatedAt: 0, channels: {} };
+}
+
+export async function writeHealthState(state: HealthState): Promise<void> {
+  await kvSetJson(STATE_KEY, state, HISTORY_TTL);
+}
+
+export async function readHealthRuns(): Promise<HealthRun[]> {
+  return (await kvGetJson<HealthRun[]>(RUNS_KEY)) || [];
+}
+
+export async function appendHealthRun(run: HealthRun): Promise<void> {
+  const runs = await readHealthRuns();
+  await kvSetJson(RUNS_KEY, [...runs, run].slice(-MAX_RUNS), HISTORY_TTL);
+}
+
+/**
+ * Fold a probe result into a channel's record
+ */
+export function recordResult(
+  previous: ChannelHealthRecord | undefined,
+  channel: Pick<ChannelHealthRecord, 'name' | 'categoryName' | 'source'>,
+  result: ProbeResult
+): ChannelHealthRecord {
+  const history = ((previous?.history || '') + STATUS_CODES[result.status]).slice(-HISTORY_LENGTH);
+  const recent = history.slice(-OFFLINE_AFTER);
+
+  return {
+    ...channel,
+    status: result.status,
+    // Degraded streams never start playing either
+    offline: recent.length === OFFLINE_AFTER && !recent.includes(STATUS_CODES.ok),
+    history,
+    checkedAt: result.checkedAt,
+    since: previous && previous.status === result.status ? previous.since : result.checkedAt,
+    ...(result.latencyMs !== undefined && { latencyMs: result.latencyMs }),
+    ...(result.error && { error: result.error }),
+  };
+}
@@ -0,0 +1,82 @@
+// api/_lib/hls-rewriter.ts - Rewrites every URI in an HLS playlist to go through the proxy
+
+// Tags whose URI attribute points at another resource (RFC 8216 + LL-HLS)
+const URI_TAGS = new Set([
+  '#EXT-X-KEY',
+  '#EXT-X-SESSION-KEY',
+  '#EXT-X-MAP',
+  '#EXT-X-MEDIA',
+  '#EXT-X-I-FRAME-STREAM-INF',
+  '#EXT-X-SESSION-DATA',
+  '#EXT-X-PART',
+  '#EXT-X-PRELOAD-HINT',
+  '#EXT-X-RENDITION-REPORT',
+]);
+
+// URI="..." as a whole attribute, so names that merely end in URI are left alone
+const URI_ATTRIBUTE = /(^|,)URI="([^"]*)"/g;
+
+export type ProxyUrlBuilder = (absoluteUrl: string) => Promise<string>;
+
+/**
+ * Resolve a playlist URI against the playlist's own URL. Handles ../ segments
+ * and keeps query strings. Returns null for URIs the proxy must not touch
+ * (data:, skd: and other non-http key URIs).
+ */
+function resolvePlaylistUri(uri: string, baseUrl: string): string | null {
+  try {
+    const resolved = new URL(uri, baseUrl);
+    if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') return null;
+    return resolved.toString();
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Rewrite a media or master playlist so every segment, key, init section,
+ * rendition and LL-HLS part is fetched through the proxy.
+ */
+export async function rewriteHlsPlaylist(
+  playlist: string,
+  baseUrl: string,
+  toProxyUrl: ProxyUrlBuilder
+): Promise<string> {
+  // Byte-range playlists repeat one URL many times; mint a single proxy URL for each
+  const proxied = new Map<string, Promise<string>>();
+  const proxyUri = (uri: string): Promise<string> | null => {
+    const absoluteUrl = resolvePlaylistUri(uri, baseUrl);
+    if (!absoluteUrl) return null;
+    if (!proxied.has(absoluteUrl)) proxied.set(absoluteUrl, toProxyUrl(absoluteUrl));
+    return proxied.get(absoluteUrl)!;
+  };
+
+  const lines = playlist.split(/\r?\n/);
+  const rewritten = await Promise.all(lines.map(async line => {
+    const trimmedLine = line.trim();
+    if (!trimmedLine) return trimmedLine;
+
+    if (trimmedLine.startsWith('#')) {
+      const colon = trimmedLine.indexOf(':');
+      const tag = colon === -1 ? trimmedLine : trimmedLine.slice(0, colon);
+      if (!URI_TAGS.has(tag)) return trimmedLine;
+
+      const attributes = trimmedLine.slice(colon + 1);
+      const replacements = await Promise.all(
+        Array.from(attributes.matchAll(URI_ATTRIBUTE), match => proxyUri(match[2]))
+      );
+      let index = 0;
+      const rewrittenAttributes = attributes.replace(URI_ATTRIBUTE, (match, separator, uri) => {
+        const replacement = replacements[index++];
+        return replacement ? `${separator}URI="${replacement}"` : `${separator}URI="${uri}"`;
+      });
+      return `${tag}:${rewrittenAttributes}`;
+    }
+
+    // Anything else that is not a comment is a segment or variant playlist URI
+    const proxiedUri = proxyUri(trimmedLine);
+    return proxiedUri ? await proxiedUri : trimmedLine;
+  }));
+
+  return rewritten.join('\n');
+}
@@ -0,0 +1,21 @@
+// api/_lib/ids.ts - Helpers for IDs that stay the same when a playlist is reordered
+
+// FNV-1a, 32 bit, base36 - short and stable across runtimes
+export const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// Lowercase, accents stripped, anything but letters and digits collapsed to '-'.
+// Never contains '_', which separates the category ID from the rest.
+export const slugify = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
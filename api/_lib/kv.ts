@@ -0,0 +1,38 @@
+// api/_lib/kv.ts - Optional shared key-value store (Vercel KV / Upstash Redis REST API)
+// When it is not configured, callers fall back to their per-isolate memory caches.
+const KV_URL = process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL || '';
+const KV_TOKEN = process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN || '';
+
+export function isKvConfigured(): boolean {
+  return !!KV_URL && !!KV_TOKEN;
+}
+
+async function kvCommand<T>(command: (string | number)[]): Promise<T | null> {
+  if (!isKvConfigured()) return null;
+
+  const response = await fetch(KV_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${KV_TOKEN}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(command),
+    signal: AbortSignal.timeout(5000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`KV ${command[0]} failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.result ?? null) as T | null;
+}
+
+export async function kvGetJson<T>(key: string): Promise<T | null> {
+  const value = await kvCommand<string>(['GET', key]);
+  return value ? JSON.parse(value) as T : null;
+}
+
+export async function kvSetJson(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+  await kvCommand(['SET', key, JSON.stringify(value), 'EX', ttlSeconds]);
+}
@@ -0,0 +1,102 @@
+// api/_lib/manifest-sniffer.ts - Tells HLS playlists and DASH manifests apart from media
+
+export type ManifestKind = 'hls' | 'dash';
+
+const HLS_CONTENT_TYPES = ['mpegurl', 'm3u8', 'm3u'];
+const DASH_CONTENT_TYPES = ['dash+xml'];
+
+// Content types that are never manifests, so the body is streamed without sniffing
+const MEDIA_CONTENT_TYPES = ['video/', 'audio/', 'image/', 'application/mp4'];
+
+// Enough to get past an XML declaration and comments to the <MPD> root
+const SNIFF_BYTES = 1024;
+
+/**
+ * What a stream URL serves going by the URL alone, as a channel's manifestType
+ * ('hls', 'mpd' or 'mp4' for progressive files). Channels carry this because
+ * the proxy URLs they are given hide it from the player.
+ */
+export function manifestTypeFromUrl(url: string): string | undefined {
+  const lower = url.toLowerCase();
+  if (lower.includes('.m3u8') || lower.includes('/hls/')) return 'hls';
+  if (lower.includes('.mpd') || lower.includes('/dash/') || lower.includes('manifest')) return 'mpd';
+  if (/\.(mp4|webm|mov|m4v)(\?|$)/.test(lower)) return 'mp4';
+  return undefined;
+}
+
+function sniff(head: string): ManifestKind | null {
+  const text = head.replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('#EXTM3U')) return 'hls';
+  if (text.startsWith('<') && /<MPD[\s>]/.test(text)) return 'dash';
+  return null;
+}
+
+function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+  const merged = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return merged;
+}
+
+/**
+ * Decide whether a response is a manifest the proxy has to rewrite. Trusts an
+ * explicit manifest content type, otherwise sniffs the start of the body, since
+ * many origins serve playlists as text/plain or octet-stream. Chunks read while
+ * sniffing are put back, so the returned body is complete.
+ */
+export async function detectManifest(
+  response: Response,
+  contentType: string
+): Promise<{ kind: ManifestKind | null; body: ReadableStream<Uint8Array> | null }> {
+  const type = contentType.toLowerCase();
+  if (HLS_CONTENT_TYPES.some(hlsType => type.includes(hlsType))) {
+    return { kind: 'hls', body: response.body };
+  }
+  if (DASH_CONTENT_TYPES.some(dashType => type.includes(dashType))) {
+    return { kind: 'dash', body: response.body };
+  }
+  if (!response.body || MEDIA_CONTENT_TYPES.some(mediaType => type.startsWith(mediaType))) {
+    return { kind: null, body: response.body };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  let done = false;
+  while (length < SNIFF_BYTES && !done) {
+    const result = await reader.read();
+    done = result.done;
+    if (result.value) {
+      chunks.push(result.value);
+      length += result.value.length;
+    }
+    // Only text starting with '#', '<' or a BOM can be a manifest; stop early on binary segments
+    const first = chunks[0]?.find(byte => byte > 0x20);
+    if (first !== undefined && first !== 0x23 && first !== 0x3c && first !== 0xef) break;
+  }
+
+  const kind = sniff(new TextDecoder().decode(chunks.length === 1 ? chunks[0] : concatChunks(chunks, length)));
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+      if (done) controller.close();
+    },
+    async pull(controller) {
+      const result = await reader.read();
+      if (result.done) {
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return { kind, body };
+}
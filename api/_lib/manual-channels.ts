@@ -0,0 +1,96 @@
+// api/_lib/manual-channels.ts - Manually added channels with their admin-only secrets
+//
+// A channel document is public: name, logo, category, DRM and backup labels. Its
+// stream URLs, auth cookies, referers and user agents live in channelSecrets/{id},
+// which only admins and the service account may read. Backups are matched by index.
+// Channels saved before the split still carry these fields themselves.
+import { getDocument, listDocuments } from './firestore';
+import { resolveStreamDrm } from './drm';
+import type { DrmConfig } from './drm';
+
+const SECRETS_COLLECTION = 'channelSecrets';
+
+type ChannelData = Record<string, unknown>;
+
+// A stream of a channel (its own or a backup) as the server fetches it
+export interface ManualStream {
+  label: string;
+  url: string; // Upstream URL, empty when none is stored
+  drm?: DrmConfig;
+  headers: Record<string, string>;
+}
+
+// Stored auth cookie, referer and user agent as request headers for the upstream
+export function toRequestHeaders(data: ChannelData): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (typeof data.authCookie === 'string' && data.authCookie) headers['Cookie'] = data.authCookie;
+  if (typeof data.referer === 'string' && data.referer) headers['Referer'] = data.referer;
+  if (typeof data.userAgent === 'string' && data.userAgent) headers['User-Agent'] = data.userAgent;
+  return headers;
+}
+
+function toManualStream(data: ChannelData, label: string): ManualStream {
+  // Older channels may carry a "?|drmScheme=..." suffix meant for the player
+  const { url, drm } = resolveStreamDrm(typeof data.streamUrl === 'string' ? data.streamUrl.trim() : '', data.drm);
+  return { label, url, ...(drm && { drm }), headers: toRequestHeaders(data) };
+}
+
+/**
+ * A channel's own stream, then its backups that have a stream URL, all with
+ * DRM settings in older shapes upgraded. Pass the channel with its secrets.
+ */
+export function getManualStreams(data: ChannelData): { main: ManualStream; backups: ManualStream[] } {
+  const backups = (Array.isArray(data.sources) ? data.sources : [])
+    .filter((source): source is ChannelData => !!source && typeof source === 'object' && !!source.streamUrl)
+    .map((source, index) => toManualStream(
+      source,
+      typeof source.label === 'string' && source.label ? source.label : `Backup ${index + 1}`
+    ));
+  return { main: toManualStream(data, 'Main'), backups };
+}
+
+/**
+ * A channel document with its secrets filled in, in the shape it was stored in
+ * before the split. Without secrets the document is returned as it is.
+ */
+export function withSecrets(data: ChannelData, secrets: ChannelData | null): ChannelData {
+  if (!secrets) return data;
+
+  const { sources: secretSources, ...fields } = secrets;
+  const sources = Array.isArray(data.sources)
+    ? data.sources.map((source, index) => ({
+        ...(source && typeof source === 'object' ? source : {}),
+        ...(Array.isArray(secretSources) && secretSources[index] && typeof secretSources[index] === 'object'
+          ? secretSources[index] as ChannelData
+          : {}),
+      }))
+    : data.sources;
+
+  return { ...data, ...fields, sources };
+}
+
+/**
+ * Read one channel and its secrets. Returns null when the channel does not exist.
+ */
+export async function getManualChannel(id: string): Promise<ChannelData | null> {
+  const path = encodeURIComponent(id);
+  const [data, secrets] = await Promise.all([
+    getDocument(`channels/${path}`),
+    getDocument(`${SECRETS_COLLECTION}/${path}`, { service: true }),
+  ]);
+  return data && withSecrets(data, secrets);
+}
+
+/**
+ * Fill in the secrets of channels already read, keyed by channel ID
+ */
+export async function attachSecrets(
+  channels: { id: string; data: ChannelData }[]
+): Promise<{ id: string; data: ChannelData }[]> {
+  if (channels.length === 0) return channels;
+
+  const secrets = new Map(
+    (await listDocuments(SECRETS_COLLECTION, { service: true })).map(({ id, data }) => [id, data])
+  );
+  return channels.map(({ id, data }) => ({ id, data: withSecrets(data, secrets.get(id) || null) }));
+}
@@ -0,0 +1,73 @@
+// api/_lib/minted-cache.ts - Listings with minted proxy URLs, cached next to their playlist
+//
+// Minting encrypts and signs every stream URL, which costs far more than
+// parsing a playlist of thousands of streams. A listing is kept until its
+// playlist content changes, and replaced long before the tokens in it expire
+// so viewers still get most of a token's lifetime.
+import { kvGetJson, kvSetJson } from './kv';
+import { BIND_CLIENT, TOKEN_TTL } from './proxy-token';
+
+const LISTING_TTL = Math.floor(TOKEN_TTL / 4);
+
+const MEMORY_ENTRIES = 20;
+
+interface MintedListing<T> {
+  version: string;
+  mintedAt: number; // ms
+  value: T;
+}
+
+const memoryCache = new Map<string, MintedListing<unknown>>();
+
+async function cacheKey(key: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  const hex = Array.from(new Uint8Array(hash), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `minted:${hex}`;
+}
+
+function remember(key: string, listing: MintedListing<unknown>) {
+  memoryCache.delete(key);
+  memoryCache.set(key, listing);
+  if (memoryCache.size > MEMORY_ENTRIES) {
+    memoryCache.delete(memoryCache.keys().next().value as string);
+  }
+}
+
+async function readEntry<T>(key: string): Promise<MintedListing<T> | null> {
+  const cached = memoryCache.get(key);
+  if (cached) return cached as MintedListing<T>;
+
+  try {
+    const stored = await kvGetJson<MintedListing<T>>(key);
+    if (stored) remember(key, stored);
+    return stored;
+  } catch (error) {
+    console.error('Minted listing cache read failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Get a listing built from playlist content, e.g. its channels with minted
+ * stream URLs. `key` names the listing (source and category), `version` the
+ * playlist content it was built from (see playlistVersion).
+ */
+export async function getMintedListing<T>(key: string, version: string, build: () => Promise<T>): Promise<T> {
+  // Client-bound tokens only play for the client they were minted for
+  if (BIND_CLIENT) return build();
+
+  const storeKey = await cacheKey(key);
+  const cached = await readEntry<T>(storeKey);
+  if (cached && cached.version === version && Date.now() - cached.mintedAt < LISTING_TTL * 1000) {
+    return cached.value;
+  }
+
+  const listing: MintedListing<T> = { version, mintedAt: Date.now(), value: await build() };
+  remember(storeKey, listing);
+  try {
+    await kvSetJson(storeKey, listing, LISTING_TTL);
+  } catch (error) {
+    console.error('Minted listing cache write failed:', error instanceof Error ? error.message : error);
+  }
+  return listing.value;
+}
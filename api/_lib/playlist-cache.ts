@@ -0,0 +1,195 @@
+// api/_lib/playlist-cache.ts - Stale-while-revalidate cache for upstream M3U playlists
+// (and Xtream player_api.php listings and Stalker portal channel lists, which are
+// cached the same way)
+//
+// Keyed by playlist URL. The raw playlist is stored rather than parsed channels,
+// because parsed channels are stamped with the category that requested them and
+// the same URL can back several categories; parsing is cheap next to the download.
+import { safeFetch } from './url-safety';
+import { kvGetJson, kvSetJson } from './kv';
+
+// Served without contacting the upstream for this long (seconds)
+const FRESH_TTL = parseInt(process.env.PLAYLIST_CACHE_TTL || '', 10) || 5 * 60;
+// Served stale (while revalidating, or when the upstream is down) for up to this long
+const STALE_TTL = 24 * 60 * 60;
+
+const MEMORY_ENTRIES = 20;
+
+export interface CachedPlaylist {
+  content: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number; // ms, last time the upstream confirmed this content
+  updatedAt?: number; // ms, last time the content changed; listings built from it are kept until then
+}
+
+export type PlaylistCacheStatus = 'HIT' | 'STALE' | 'MISS' | 'REFRESH';
+
+export interface PlaylistCacheResult {
+  playlist: CachedPlaylist;
+  status: PlaylistCacheStatus;
+}
+
+export interface PlaylistCacheOptions {
+  forceRefresh?: boolean;
+  // Keeps background revalidation alive after the response is sent (edge runtime)
+  waitUntil?: (promise: Promise<unknown>) => void;
+  // Produces the content for sources that take more than a GET of `url` (such as a
+  // portal session); `url` then only identifies the cache entry
+  load?: () => Promise<string>;
+}
+
+export class PlaylistFetchError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'PlaylistFetchError';
+    this.status = status;
+  }
+}
+
+const memoryCache = new Map<string, CachedPlaylist>();
+const inflight = new Map<string, Promise<CachedPlaylist>>();
+
+async function cacheKey(url: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(url));
+  const hex = Array.from(new Uint8Array(hash), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `playlist:${hex}`;
+}
+
+function remember(key: string, playlist: CachedPlaylist) {
+  memoryCache.delete(key);
+  memoryCache.set(key, playlist);
+  if (memoryCache.size > MEMORY_ENTRIES) {
+    memoryCache.delete(memoryCache.keys().next().value as string);
+  }
+}
+
+async function readEntry(key: string): Promise<CachedPlaylist | null> {
+  const cached = memoryCache.get(key);
+  if (cached) return cached;
+
+  try {
+    const stored = await kvGetJson<CachedPlaylist>(key);
+    if (stored) remember(key, stored);
+    return stored;
+  } catch (error) {
+    console.error('Playlist cache read failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+async function writeEntry(key: string, playlist: CachedPlaylist) {
+  remember(key, playlist);
+  try {
+    await kvSetJson(key, playlist, STALE_TTL);
+  } catch (error) {
+    console.error('Playlist cache write failed:', error instanceof Error ? error.message : error);
+  }
+}
+
+// Many upstreams answer every request in full, so unchanged content keeps its timestamp
+function contentUpdatedAt(previous: CachedPlaylist | null, content: string): number {
+  return previous && previous.content === content ? playlistVersion(previous) : Date.now();
+}
+
+/**
+ * Changes whenever the playlist content does, for caching what is built from it
+ */
+export function playlistVersion(playlist: CachedPlaylist): number {
+  return playlist.updatedAt ?? playlist.fetchedAt;
+}
+
+/**
+ * Fetch the playlist from the upstream. With a previous entry the request is
+ * conditional, and a 304 only refreshes the entry's timestamp.
+ */
+async function fetchUpstream(
+  url: string,
+  key: string,
+  previous: CachedPlaylist | null,
+  load?: () => Promise<string>
+): Promise<CachedPlaylist> {
+  if (load) {
+    const content = await load();
+    const playlist = { content, fetchedAt: Date.now(), updatedAt: contentUpdatedAt(previous, content) };
+    await writeEntry(key, playlist);
+    return playlist;
+  }
+
+  const headers: Record<string, string> = {};
+  if (previous?.etag) headers['If-None-Match'] = previous.etag;
+  if (previous?.lastModified) headers['If-Modified-Since'] = previous.lastModified;
+
+  const response = await safeFetch(url, { headers, signal: AbortSignal.timeout(30000) });
+
+  let playlist: CachedPlaylist;
+  if (response.status === 304 && previous) {
+    playlist = { ...previous, fetchedAt: Date.now() };
+  } else if (response.ok) {
+    const content = await response.text();
+    playlist = {
+      content,
+      etag: response.headers.get('etag') || undefined,
+      lastModified: response.headers.get('last-modified') || undefined,
+      fetchedAt: Date.now(),
+      updatedAt: contentUpdatedAt(previous, content),
+    };
+  } else {
+    throw new PlaylistFetchError(`Failed to fetch M3U: ${response.statusText || response.status}`, response.status);
+  }
+
+  await writeEntry(key, playlist);
+  return playlist;
+}
+
+// Concurrent requests for the same playlist share one upstream fetch
+function fetchShared(
+  url: string,
+  key: string,
+  previous: CachedPlaylist | null,
+  load?: () => Promise<string>
+): Promise<CachedPlaylist> {
+  const pending = inflight.get(key);
+  if (pending) return pending;
+
+  const request = fetchUpstream(url, key, previous, load).finally(() => inflight.delete(key));
+  inflight.set(key, request);
+  return request;
+}
+
+/**
+ * Get a playlist, serving from cache when fresh, serving stale content while
+ * revalidating in the background, and falling back to stale content when the
+ * upstream fails. forceRefresh always goes to the upstream.
+ */
+export async function getCachedPlaylist(url: string, options: PlaylistCacheOptions = {}): Promise<PlaylistCacheResult> {
+  const key = await cacheKey(url);
+
+  if (options.forceRefresh) {
+    return { playlist: await fetchUpstream(url, key, null, options.load), status: 'REFRESH' };
+  }
+
+  const cached = await readEntry(key);
+  if (!cached) {
+    return { playlist: await fetchShared(url, key, null, options.load), status: 'MISS' };
+  }
+
+  const age = Date.now() - cached.fetchedAt;
+  if (age >= STALE_TTL * 1000) {
+    // Too old to show while revalidating; wait for the (conditional) refresh
+    return { playlist: await fetchShared(url, key, cached, options.load), status: 'MISS' };
+  }
+  if (age < FRESH_TTL * 1000) {
+    return { playlist: cached, status: 'HIT' };
+  }
+
+  const revalidation = fetchShared(url, key, cached, options.load).catch(error => {
+    console.error('Playlist revalidation failed, serving stale:', error instanceof Error ? error.message : error);
+    return cached;
+  });
+  options.waitUntil?.(revalidation);
+
+  return { playlist: cached, status: 'STALE' };
+}
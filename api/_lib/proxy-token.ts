@@ -0,0 +1,105 @@
+// api/_lib/proxy-token.ts - Signed, expiring tokens that replace plain ?url= proxy links
+import { sealJson, openJson, signValue, verifySignature, fingerprint } from './crypto';
+import type { CatchupSettings } from './catchup';
+
+export const PROXY_PATH = '/api/m3u8-proxy';
+
+// How long a minted proxy URL stays valid (seconds). Child URLs get a fresh
+// expiry every time their parent playlist is fetched, so this only has to
+// cover the initial load of the top-level playlist.
+export const TOKEN_TTL = parseInt(process.env.PROXY_TOKEN_TTL || '', 10) || 6 * 60 * 60;
+
+// Bind tokens to the client that minted them (off by default: mobile clients hop networks)
+export const BIND_CLIENT = process.env.PROXY_BIND_CLIENT === 'true';
+
+export interface ProxyTarget {
+  url: string;
+  headers?: Record<string, string>;
+  // The channel's catch-up settings, so the page can ask for a catch-up URL without seeing the upstream
+  catchup?: CatchupSettings;
+  // Signs an upstream directory the player appends paths to (/p/<token>/<path>), not a single URL
+  prefix?: boolean;
+}
+
+interface ProxyTokenPayload {
+  u: string;                  // upstream URL
+  h?: Record<string, string>; // forwarded request headers
+  k?: CatchupSettings;        // catch-up settings of a channel stream
+  p?: 1;                      // prefix token
+  e: number;                  // expiry, unix seconds
+  c?: string;                 // client fingerprint when binding is enabled
+}
+
+export type ProxyTokenResult = { target: ProxyTarget } | { error: string };
+
+function getClientAddress(request: Request): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) return forwardedFor.split(',')[0].trim();
+  return request.headers.get('x-real-ip') || '';
+}
+
+/**
+ * Mint a token for an upstream URL. The payload is encrypted so the upstream
+ * source never appears in the page, then signed so it cannot be forged.
+ */
+export async function mintProxyToken(target: ProxyTarget, request: Request): Promise<string> {
+  const payload: ProxyTokenPayload = {
+    u: target.url,
+    e: Math.floor(Date.now() / 1000) + TOKEN_TTL,
+  };
+  if (target.headers && Object.keys(target.headers).length > 0) {
+    payload.h = target.headers;
+  }
+  if (target.catchup) {
+    payload.k = target.catchup;
+  }
+  if (target.prefix) {
+    payload.p = 1;
+  }
+  if (BIND_CLIENT) {
+    payload.c = await fingerprint(getClientAddress(request));
+  }
+
+  const sealed = await sealJson(payload);
+  return `${sealed}.${await signValue(sealed)}`;
+}
+
+/**
+ * A proxy URL for the page, e.g. a channel's streamUrl
+ */
+export async function mintProxyUrl(target: ProxyTarget, request: Request): Promise<string> {
+  return `${PROXY_PATH}?t=${await mintProxyToken(target, request)}`;
+}
+
+/**
+ * Identifies an upstream stream without revealing it. Proxy URLs differ every
+ * time they are minted; this stays the same wherever the stream is listed.
+ */
+export function streamKey(url: string): Promise<string> {
+  return fingerprint(`stream:${url}`);
+}
+
+/**
+ * Check a token's signature, expiry and client binding
+ */
+export async function verifyProxyToken(token: string, request: Request): Promise<ProxyTokenResult> {
+  const [sealed, signature] = token.split('.');
+  if (!sealed || !signature || !(await verifySignature(sealed, signature))) {
+    return { error: 'Invalid proxy token' };
+  }
+
+  const payload = await openJson<ProxyTokenPayload>(sealed);
+  if (!payload || typeof payload.u !== 'string') {
+    return { error: 'Invalid proxy token' };
+  }
+
+  if (payload.e < Math.floor(Date.now() / 1000)) {
+    return { error: 'Proxy URL expired' };
+  }
+
+  if (BIND_CLIENT && payload.c !== (await fingerprint(getClientAddress(request)))) {
+    return { error: 'Proxy URL was issued to another client' };
+  }
+
+  return { target: { url: payload.u, headers: payload.h, catchup: payload.k, prefix: payload.p === 1 } };
+}
@@ -0,0 +1,242 @@
+// api/_lib/stalker.ts - Ministra/Stalker middleware portals (portal URL + MAC address)
+//
+// Portals expect to be talked to like a MAG set-top box: a handshake hands out a
+// session token, get_profile activates it, and every later call carries it.
+// Stream URLs from create_link are short-lived, so they are resolved on demand.
+// Like Xtream logins, the portal and MAC are sealed with PROXY_SECRET.
+import { sealJson, openJson } from './crypto';
+import { safeFetch } from './url-safety';
+
+export interface StalkerCredentials {
+  portal: string; // origin plus optional base path (e.g. /stalker_portal), no /c/
+  mac: string;    // 00:1A:79:XX:XX:XX
+}
+
+export interface StalkerGenre {
+  id: string;
+  title: string;
+}
+
+export interface StalkerChannel {
+  id: string;
+  name: string;
+  number?: string;
+  cmd: string;
+  logo?: string;
+  genreId?: string;
+  xmltvId?: string;
+}
+
+export const STB_USER_AGENT =
+  'Mozilla/5.0 (QtEmbedded; U; Linux; C) AppleWebKit/533.3 (KHTML, like Gecko) MAG200 stbapp ver: 2 rev: 250 Safari/533.3';
+
+// Portals drop idle sessions after a while; open a new one well before that
+const SESSION_TTL = 10 * 60 * 1000;
+// Resolve links issued with a channel list for this long (seconds)
+const LINK_TTL = parseInt(process.env.PROXY_TOKEN_TTL || '', 10) || 6 * 60 * 60;
+
+export class StalkerError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'StalkerError';
+    this.status = status;
+  }
+}
+
+const sessions = new Map<string, { token: string; expires: number }>();
+
+/**
+ * Normalise an admin-entered portal: "host:8080/stalker_portal/c/" -> "http://host:8080/stalker_portal"
+ */
+export function normaliseStalkerPortal(input: string): string {
+  const trimmed = input.trim();
+  const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+  const url = new URL(withScheme);
+  const path = url.pathname
+    .replace(/\/(portal\.php|server\/load\.php|c\/?(index\.html)?)$/i, '')
+    .replace(/\/+$/, '');
+  return `${url.origin}${path}`;
+}
+
+/**
+ * Normalise a MAC address to upper-case colon form, or null when it is not one
+ */
+export function normaliseMac(input: string): string | null {
+  const hex = input.trim().replace(/[:-]/g, '').toUpperCase();
+  if (!/^[0-9A-F]{12}$/.test(hex)) return null;
+  return hex.match(/../g)!.join(':');
+}
+
+export function sealStalkerSource(credentials: StalkerCredentials): Promise<string> {
+  return sealJson({ p: credentials.portal, m: credentials.mac });
+}
+
+export async function openStalkerSource(source: string): Promise<StalkerCredentials | null> {
+  if (!source) return null;
+  const opened = await openJson<{ p: string; m: string }>(source);
+  if (!opened || !opened.p || !opened.m) return null;
+  return { portal: opened.p, mac: opened.m };
+}
+
+/**
+ * Seal what is needed to resolve a channel's stream later, with an expiry so a
+ * leaked link does not keep working against the portal
+ */
+export function sealStalkerLink(credentials: StalkerCredentials, cmd: string): Promise<string> {
+  return sealJson({
+    p: credentials.portal,
+    m: credentials.mac,
+    c: cmd,
+    e: Math.floor(Date.now() / 1000) + LINK_TTL,
+  });
+}
+
+export async function openStalkerLink(link: string): Promise<{ credentials: StalkerCredentials; cmd: string } | null> {
+  if (!link) return null;
+  const opened = await openJson<{ p: string; m: string; c: string; e: number }>(link);
+  if (!opened || !opened.p || !opened.m || !opened.c || !(opened.e > Date.now() / 1000)) return null;
+  return { credentials: { portal: opened.p, mac: opened.m }, cmd: opened.c };
+}
+
+function portalApiUrl(portal: string): string {
+  // Ministra installs live under /stalker_portal; older ones answer on /portal.php
+  return /\/stalker_portal$/i.test(new URL(portal).pathname)
+    ? `${portal}/server/load.php`
+    : `${portal}/portal.php`;
+}
+
+async function callPortal<T>(
+  credentials: StalkerCredentials,
+  params: Record<string, string>,
+  token?: string
+): Promise<T> {
+  const url = new URL(portalApiUrl(credentials.portal));
+  Object.entries({ ...params, JsHttpRequest: '1-xml' }).forEach(([name, value]) => url.searchParams.set(name, value));
+
+  const headers: Record<string, string> = {
+    'User-Agent': STB_USER_AGENT,
+    'X-User-Agent': 'Model: MAG250; Link: WiFi',
+    'Referer': `${credentials.portal}/c/`,
+    'Cookie': `mac=${encodeURIComponent(credentials.mac)}; stb_lang=en; timezone=UTC`,
+  };
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+
+  const response = await safeFetch(url.toString(), { headers, signal: AbortSignal.timeout(20000) });
+  const text = await response.text();
+  // An expired session is answered with a plain-text "Authorization failed."
+  if (response.status === 401 || /authorization failed/i.test(text.slice(0, 100))) {
+    throw new StalkerError('Portal authorization failed', 401);
+  }
+  if (!response.ok) {
+    throw new StalkerError(`Portal request failed: ${response.statusText || response.status}`, 502);
+  }
+
+  try {
+    return (JSON.parse(text) as { js: T }).js;
+  } catch {
+    throw new StalkerError(`Portal returned an invalid response for ${params.action}`, 502);
+  }
+}
+
+async function openSession(credentials: StalkerCredentials): Promise<string> {
+  const handshake = await callPortal<{ token?: string }>(credentials, { type: 'stb', action: 'handshake', token: '' });
+  if (!handshake?.token) {
+    throw new StalkerError('Portal handshake failed', 502);
+  }
+
+  // The profile call is what ties the session to the MAC; unknown MACs get no profile ID
+  const profile = await callPortal<{ id?: string | number | null }>(
+    credentials,
+    { type: 'stb', action: 'get_profile', hd: '1', stb_type: 'MAG250', sn: '', ver: '' },
+    handshake.token
+  );
+  if (!profile?.id) {
+    throw new StalkerError('Portal rejected this MAC address', 403);
+  }
+
+  sessions.set(`${credentials.portal}|${credentials.mac}`, {
+    token: handshake.token,
+    expires: Date.now() + SESSION_TTL,
+  });
+  return handshake.token;
+}
+
+/**
+ * Call the portal within a session, opening one when needed and once more if
+ * the portal has dropped the one we had
+ */
+async function callWithSession<T>(credentials: StalkerCredentials, params: Record<string, string>): Promise<T> {
+  const session = sessions.get(`${credentials.portal}|${credentials.mac}`);
+  if (!session || session.expires <= Date.now()) {
+    return callPortal<T>(credentials, params, await openSession(credentials));
+  }
+
+  try {
+    return await callPortal<T>(credentials, params, session.token);
+  } catch (error) {
+    if (!(error instanceof StalkerError) || error.status !== 401) throw error;
+    return callPortal<T>(credentials, params, await openSession(credentials));
+  }
+}
+
+/**
+ * Check that the portal accepts the MAC address
+ */
+export async function connectStalker(credentials: StalkerCredentials): Promise<void> {
+  await openSession(credentials);
+}
+
+export async function getStalkerGenres(credentials: StalkerCredentials): Promise<StalkerGenre[]> {
+  const genres = await callWithSession<{ id: string | number; title: string }[]>(
+    credentials,
+    { type: 'itv', action: 'get_genres' }
+  );
+  return (Array.isArray(genres) ? genres : [])
+    // "All" is a pseudo-genre covering every channel
+    .filter(genre => String(genre.id) !== '*')
+    .map(genre => ({ id: String(genre.id), title: genre.title }));
+}
+
+export async function getStalkerChannels(credentials: StalkerCredentials): Promise<StalkerChannel[]> {
+  const result = await callWithSession<{ data?: Record<string, unknown>[] }>(
+    credentials,
+    { type: 'itv', action: 'get_all_channels' }
+  );
+  const channels = Array.isArray(result?.data) ? result.data : [];
+
+  return channels
+    .filter(channel => channel.id !== undefined && typeof channel.cmd === 'string' && channel.cmd)
+    .map(channel => ({
+      id: String(channel.id),
+      name: String(channel.name || '').trim(),
+      number: channel.number ? String(channel.number) : undefined,
+      cmd: channel.cmd as string,
+      logo: typeof channel.logo === 'string' && /^https?:\/\//i.test(channel.logo) ? channel.logo : undefined,
+      genreId: channel.tv_genre_id !== undefined ? String(channel.tv_genre_id) : undefined,
+      xmltvId: typeof channel.xmltv_id === 'string' && channel.xmltv_id ? channel.xmltv_id : undefined,
+    }));
+}
+
+/**
+ * Exchange a channel's cmd for a playable URL. Commands look like
+ * "ffmpeg http://host/ch/123_" and so do the links that come back.
+ */
+export async function createStalkerLink(credentials: StalkerCredentials, cmd: string): Promise<string> {
+  const link = await callWithSession<{ cmd?: string }>(credentials, {
+    type: 'itv',
+    action: 'create_link',
+    cmd,
+    series: '',
+    forced_storage: '0',
+    disable_ad: '0',
+    download: '0',
+  });
+
+  const url = (link?.cmd || '').trim().split(/\s+/).find(part => /^https?:\/\//i.test(part));
+  if (!url) {
+    throw new StalkerError('Portal did not return a stream link', 502);
+  }
+  return url;
+}
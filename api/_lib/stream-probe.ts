@@ -0,0 +1,431 @@
+// api/_lib/stream-probe.ts - Checks that a stream actually plays, for the admin health report
+//
+// Fetches the manifest the way the proxy does, reads the bitrate ladder from it
+// and downloads the start of the first segment (for DASH, the first
+// representation's initialization segment, or a recent media segment). A stream
+// whose manifest loads but whose segments do not is "degraded": players show it
+// as loading forever.
+import { safeFetch, UnsafeUrlError } from './url-safety';
+import { detectManifest } from './manifest-sniffer';
+import { decodeXml } from './dash-rewriter';
+import { buildUpstreamHeaders, pickStreamHeaders } from './upstream';
+import { verifyProxyToken } from './proxy-token';
+import type { ProxyTarget } from './proxy-token';
+import { openStalkerLink, createStalkerLink, STB_USER_AGENT } from './stalker';
+
+export type ProbeStatus = 'ok' | 'degraded' | 'dead';
+
+export interface ProbeVariant {
+  bandwidth: number; // bits per second
+  width?: number;
+  height?: number;
+  codecs?: string;
+}
+
+export interface ProbeResult {
+  status: ProbeStatus;
+  kind: 'hls' | 'dash' | 'media' | null;
+  httpStatus?: number;
+  latencyMs?: number;        // until the manifest response arrived
+  segmentLatencyMs?: number; // until the first segment's bytes arrived
+  segmentChecked: boolean;   // False when a DASH manifest's segments could not be located
+  variants: ProbeVariant[];
+  error?: string;
+  checkedAt: number;
+}
+
+export interface ProbeOptions {
+  deadline?: number; // epoch ms; requests still running then are cut off
+}
+
+// A channel's stream as the client sees it
+export interface StreamReference {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+const REQUEST_TIMEOUT_MS = 15000;
+// Reading this much of a segment proves it is being served
+const SEGMENT_SAMPLE_BYTES = 64 * 1024;
+
+const ATTRIBUTE = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+
+function parseAttributes(line: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of line.matchAll(ATTRIBUTE)) {
+    attributes[name] = value.replace(/^"|"$/g, '');
+  }
+  return attributes;
+}
+
+function parseResolution(value: string | undefined): { width?: number; height?: number } {
+  const match = value?.match(/^(\d+)x(\d+)$/);
+  return match ? { width: parseInt(match[1], 10), height: parseInt(match[2], 10) } : {};
+}
+
+/**
+ * Variants of an HLS master playlist with their URIs, lowest bitrate first
+ */
+function parseHlsVariants(text: string, baseUrl: string): (ProbeVariant & { uri: string })[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const variants: (ProbeVariant & { uri: string })[] = [];
+
+  lines.forEach((line, index) => {
+    if (!line.startsWith('#EXT-X-STREAM-INF:')) return;
+    const uri = lines.slice(index + 1).find(next => next && !next.startsWith('#'));
+    if (!uri) return;
+    const attributes = parseAttributes(line.slice('#EXT-X-STREAM-INF:'.length));
+    variants.push({
+      uri: new URL(uri, baseUrl).toString(),
+      bandwidth: parseInt(attributes['BANDWIDTH'] || '0', 10) || 0,
+      ...parseResolution(attributes['RESOLUTION']),
+      ...(attributes['CODECS'] && { codecs: attributes['CODECS'] }),
+    });
+  });
+
+  return variants.sort((a, b) => a.bandwidth - b.bandwidth);
+}
+
+function parseDashVariants(text: string): ProbeVariant[] {
+  const variants: ProbeVariant[] = [];
+  for (const [tag] of text.matchAll(/<Representation\b[^>]*>/g)) {
+    const attribute = (name: string) => tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+    const width = parseInt(attribute('width') || '', 10);
+    const height = parseInt(attribute('height') || '', 10);
+    variants.push({
+      bandwidth: parseInt(attribute('bandwidth') || '0', 10) || 0,
+      ...(width > 0 && { width }),
+      ...(height > 0 && { height }),
+      ...(attribute('codecs') && { codecs: attribute('codecs') }),
+    });
+  }
+  return variants.sort((a, b) => a.bandwidth - b.bandwidth);
+}
+
+const xmlAttribute = (tag: string, name: string): string | undefined => {
+  const value = tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+  return value === undefined ? undefined : decodeXml(value);
+};
+
+const firstBaseUrl = (text: string): string | undefined => {
+  const value = text.match(/<BaseURL(?:\s[^>]*)?>([^<]*)<\/BaseURL>/)?.[1]?.trim();
+  return value ? decodeXml(value) : undefined;
+};
+
+// An element's opening tag and, unless it is self-closing, its content
+const findElement = (text: string, name: string): { tag: string; content: string } | null => {
+  const match = text.match(new RegExp(`(<${name}\\b[^>]*?)(\\/>|>([\\s\\S]*?)<\\/${name}>)`));
+  return match ? { tag: match[1], content: match[3] || '' } : null;
+};
+
+// $RepresentationID$, $Bandwidth$, $Number$ and $Time$, with optional %0<width>d
+const fillSegmentTemplate = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\$(RepresentationID|Bandwidth|Number|Time)(?:%0(\d+)d)?\$/g, (placeholder, name: string, width?: string) => {
+    const value = String(values[name] ?? '');
+    return width ? value.padStart(parseInt(width, 10), '0') : value;
+  }).replace(/\$\$/g, '$');
+
+/**
+ * The number and start time of the segment to check: the last one a timeline
+ * lists, or for a live manifest without one, a segment just behind the live edge
+ */
+function pickTemplateSegment(mpdTag: string, template: { tag: string; content: string }): { number: number; time: number } {
+  const startNumber = parseInt(xmlAttribute(template.tag, 'startNumber') || '1', 10) || 1;
+
+  const timeline = [...template.content.matchAll(/<S\b[^>]*>/g)].map(([tag]) => tag);
+  if (timeline.length > 0) {
+    let time = 0;
+    let last = { number: startNumber, time: 0 };
+    let number = startNumber;
+    for (const tag of timeline) {
+      time = Number(xmlAttribute(tag, 't') ?? time);
+      const duration = Number(xmlAttribute(tag, 'd') || 0);
+      const repeat = Math.max(0, parseInt(xmlAttribute(tag, 'r') || '0', 10));
+      for (let i = 0; i <= repeat; i++) {
+        last = { number, time };
+        number++;
+        time += duration;
+      }
+    }
+    return last;
+  }
+
+  const duration = Number(xmlAttribute(template.tag, 'duration') || 0);
+  const timescale = Number(xmlAttribute(template.tag, 'timescale') || 1);
+  const availabilityStart = Date.parse(xmlAttribute(mpdTag, 'availabilityStartTime') || '');
+  if (xmlAttribute(mpdTag, 'type') === 'dynamic' && duration > 0 && isFinite(availabilityStart)) {
+    const elapsed = (Date.now() - availabilityStart) / 1000;
+    // A couple of segments back, so the segment is surely published
+    const number = startNumber + Math.max(0, Math.floor((elapsed * timescale) / duration) - 2);
+    return { number, time: (number - startNumber) * duration };
+  }
+  return { number: startNumber, time: 0 };
+}
+
+/**
+ * URL of a segment of the first representation: its initialization segment
+ * when it has one, otherwise a media segment. Follows BaseURLs at every level
+ * and SegmentTemplate, SegmentList or SegmentBase addressing; returns null when
+ * the manifest addresses its segments some other way.
+ */
+function findDashSegment(text: string, manifestUrl: string): string | null {
+  const mpdTag = text.match(/<MPD\b[^>]*>/)?.[0] || '';
+  const period = findElement(text, 'Period');
+  const adaptation = period && findElement(period.content, 'AdaptationSet');
+  const representation = adaptation && findElement(adaptation.content, 'Representation');
+  if (!period || !adaptation || !representation) return null;
+
+  // BaseURLs nest: MPD, Period, AdaptationSet, Representation
+  const outside = (content: string, child: string) => content.split(new RegExp(`<${child}\\b`))[0];
+  let baseUrl = manifestUrl;
+  for (const base of [
+    firstBaseUrl(text.split(/<Period\b/)[0]),
+    firstBaseUrl(outside(period.content, 'AdaptationSet')),
+    firstBaseUrl(outside(adaptation.content, 'Representation')),
+    firstBaseUrl(representation.content),
+  ]) {
+    if (base) baseUrl = new URL(base, baseUrl).toString();
+  }
+
+  const adaptationOwn = adaptation.content.replace(/<Representation\b[\s\S]*?(?:\/>|<\/Representation>)/g, '');
+  const values = {
+    RepresentationID: xmlAttribute(representation.tag, 'id') || '',
+    Bandwidth: xmlAttribute(representation.tag, 'bandwidth') || '',
+  };
+
+  // A representation's own template refines the adaptation set's
+  const outerTemplate = findElement(adaptationOwn, 'SegmentTemplate');
+  const innerTemplate = findElement(representation.content, 'SegmentTemplate');
+  if (outerTemplate || innerTemplate) {
+    // The representation's attributes win over the adaptation set's
+    const read = (name: string) => xmlAttribute(innerTemplate?.tag || '', name) ?? xmlAttribute(outerTemplate?.tag || '', name);
+    const initialization = read('initialization');
+    if (initialization) return new URL(fillSegmentTemplate(initialization, values), baseUrl).toString();
+
+    const media = read('media');
+    if (!media) return null;
+    const segment = pickTemplateSegment(mpdTag, {
+      // The attributes it goes by, merged into one tag
+      tag: ['startNumber', 'duration', 'timescale'].map(name => (read(name) ? ` ${name}="${read(name)}"` : '')).join(''),
+      content: innerTemplate?.content || outerTemplate?.content || '',
+    });
+    return new URL(fillSegmentTemplate(media, { ...values, Number: segment.number, Time: segment.time }), baseUrl).toString();
+  }
+
+  const list = findElement(representation.content, 'SegmentList') || findElement(adaptationOwn, 'SegmentList');
+  if (list) {
+    const initialization = list.content.match(/<Initialization\b[^>]*>/)?.[0];
+    const source = (initialization && xmlAttribute(initialization, 'sourceURL'))
+      || xmlAttribute(list.content.match(/<SegmentURL\b[^>]*>/)?.[0] || '', 'media');
+    return source ? new URL(source, baseUrl).toString() : null;
+  }
+
+  // SegmentBase, or a single file: the representation's BaseURL is the media itself
+  return firstBaseUrl(representation.content) ? baseUrl : null;
+}
+
+function fetchUpstream(
+  url: string,
+  headers: Record<string, string> | undefined,
+  options: ProbeOptions,
+  range?: string
+): Promise<Response> {
+  const timeout = options.deadline
+    ? Math.max(1, Math.min(REQUEST_TIMEOUT_MS, options.deadline - Date.now()))
+    : REQUEST_TIMEOUT_MS;
+  return safeFetch(url, {
+    headers: buildUpstreamHeaders(url, headers, range),
+    signal: AbortSignal.timeout(timeout),
+  });
+}
+
+/**
+ * Read up to SEGMENT_SAMPLE_BYTES of a body and let go of the rest
+ */
+async function readSample(body: ReadableStream<Uint8Array> | null): Promise<number> {
+  if (!body) return 0;
+  const reader = body.getReader();
+  let bytes = 0;
+  try {
+    while (bytes < SEGMENT_SAMPLE_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytes += value?.length || 0;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return bytes;
+}
+
+async function checkSegment(
+  url: string,
+  headers: Record<string, string> | undefined,
+  options: ProbeOptions
+): Promise<{ latencyMs: number } | { error: string }> {
+  const started = Date.now();
+  const response = await fetchUpstream(url, headers, options, `bytes=0-${SEGMENT_SAMPLE_BYTES - 1}`);
+  if (!response.ok) {
+    response.body?.cancel().catch(() => {});
+    return { error: `Segment returned HTTP ${response.status}` };
+  }
+  const bytes = await readSample(response.body);
+  if (bytes === 0) return { error: 'Segment is empty' };
+  return { latencyMs: Date.now() - started };
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof UnsafeUrlError) return `Destination not allowed: ${error.message}`;
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) return 'Timed out';
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Probe one stream. Never throws; failures are reported in the result.
+ */
+export async function probeStream(target: ProxyTarget, options: ProbeOptions = {}): Promise<ProbeResult> {
+  const result: ProbeResult = { status: 'dead', kind: null, segmentChecked: false, variants: [], checkedAt: Date.now() };
+
+  try {
+    const started = Date.now();
+    const response = await fetchUpstream(target.url, target.headers, options);
+    result.latencyMs = Date.now() - started;
+    result.httpStatus = response.status;
+
+    if (!response.ok) {
+      response.body?.cancel().catch(() => {});
+      result.error = `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`;
+      return result;
+    }
+
+    const { kind, body } = await detectManifest(response, response.headers.get('content-type') || '');
+    const baseUrl = response.url || target.url;
+
+    // Progressive files and raw TS streams are their own first segment
+    if (!kind) {
+      result.kind = 'media';
+      result.segmentChecked = true;
+      if ((await readSample(body)) === 0) {
+        result.error = 'Stream is empty';
+        return result;
+      }
+      result.segmentLatencyMs = result.latencyMs;
+      result.status = 'ok';
+      return result;
+    }
+
+    result.kind = kind;
+    const text = await new Response(body).text();
+    // The manifest loads; from here on a failure means the stream is degraded
+    result.status = 'degraded';
+
+    if (kind === 'dash') {
+      result.variants = parseDashVariants(text);
+      if (result.variants.length === 0) {
+        result.error = 'Manifest lists no representations';
+        return result;
+      }
+
+      const segmentUrl = findDashSegment(text, baseUrl);
+      if (segmentUrl) {
+        result.segmentChecked = true;
+        const checked = await checkSegment(segmentUrl, target.headers, options);
+        if ('error' in checked) {
+          result.error = checked.error;
+          return result;
+        }
+        result.segmentLatencyMs = checked.latencyMs;
+      }
+      result.status = 'ok';
+      return result;
+    }
+
+    // A master playlist is checked through its cheapest variant
+    let mediaPlaylist = text;
+    let mediaUrl = baseUrl;
+    const variants = parseHlsVariants(text, baseUrl);
+    if (variants.length > 0) {
+      result.variants = variants.map(({ bandwidth, width, height, codecs }) => ({ bandwidth, width, height, codecs }));
+      const variantResponse = await fetchUpstream(variants[0].uri, target.headers, options);
+      if (!variantResponse.ok) {
+        variantResponse.body?.cancel().catch(() => {});
+        result.error = `Variant playlist returned HTTP ${variantResponse.status}`;
+        return result;
+      }
+      mediaPlaylist = await variantResponse.text();
+      mediaUrl = variantResponse.url || variants[0].uri;
+    }
+
+    const segment = mediaPlaylist.split(/\r?\n/).map(line => line.trim()).find(line => line && !line.startsWith('#'));
+    if (!segment) {
+      result.error = 'Playlist has no segments';
+      return result;
+    }
+
+    result.segmentChecked = true;
+    const checked = await checkSegment(new URL(segment, mediaUrl).toString(), target.headers, options);
+    if ('error' in checked) {
+      result.error = checked.error;
+      return result;
+    }
+    result.segmentLatencyMs = checked.latencyMs;
+    result.status = 'ok';
+    return result;
+  } catch (error) {
+    result.error = describeError(error);
+    return result;
+  }
+}
+
+const failed = (error: string): ProbeResult => ({
+  status: 'dead',
+  kind: null,
+  segmentChecked: false,
+  variants: [],
+  error,
+  checkedAt: Date.now(),
+});
+
+/**
+ * The upstream a channel URL stands for: proxy tokens and Stalker links are
+ * opened, anything else is taken as the upstream itself
+ */
+async function resolveTarget(stream: StreamReference, request: Request): Promise<ProxyTarget | { error: string }> {
+  const url = new URL(stream.url, request.url);
+
+  if (url.pathname === '/api/m3u8-proxy' && url.searchParams.has('t')) {
+    const verified = await verifyProxyToken(url.searchParams.get('t') || '', request);
+    return 'error' in verified ? { error: verified.error } : verified.target;
+  }
+
+  if (url.pathname === '/api/stalker' && url.searchParams.has('link')) {
+    const opened = await openStalkerLink(url.searchParams.get('link') || '');
+    if (!opened) return { error: 'Invalid or expired stream link' };
+    return {
+      url: await createStalkerLink(opened.credentials, opened.cmd),
+      headers: { 'User-Agent': STB_USER_AGENT },
+    };
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { error: 'Unsupported stream URL' };
+  }
+  return { url: url.toString(), headers: pickStreamHeaders(stream.headers) };
+}
+
+/**
+ * Probe a channel's stream URL, which may be an upstream URL or one of the
+ * proxy and Stalker links channels carry. Never throws.
+ */
+export async function probeChannelStream(
+  stream: StreamReference,
+  request: Request,
+  options: ProbeOptions = {}
+): Promise<ProbeResult> {
+  try {
+    const target = await resolveTarget(stream, request);
+    return 'error' in target ? failed(target.error) : await probeStream(target, options);
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,66 @@
+// api/_lib/upstream.ts - How the proxy presents itself to stream origins
+//
+// Shared by the stream proxy and the health probe, so a probe sees the same
+// response a viewer's player would.
+
+// Per-stream headers a caller may override on the upstream request
+const FORWARDABLE_HEADERS = ['User-Agent', 'Referer', 'Origin', 'Cookie'];
+
+const DEFAULT_USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+export function pickStreamHeaders(value: unknown): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (!value || typeof value !== 'object') return headers;
+  const source = value as Record<string, unknown>;
+  for (const name of FORWARDABLE_HEADERS) {
+    const match = Object.keys(source).find(key => key.toLowerCase() === name.toLowerCase());
+    const headerValue = match ? source[match] : undefined;
+    if (typeof headerValue === 'string' && headerValue.trim()) {
+      headers[name] = headerValue.trim();
+    }
+  }
+  return headers;
+}
+
+/**
+ * Browser-like request headers for an upstream URL, with the stream's own
+ * headers (playlist options, manual channel auth cookie) applied on top
+ */
+export function buildUpstreamHeaders(
+  targetUrl: string,
+  streamHeaders: Record<string, string> = {},
+  range?: string | null
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    'User-Agent': DEFAULT_USER_AGENT,
+    'Accept': '*/*',
+    'Accept-Language': 'en-US,en;q=0.9',
+    'Accept-Encoding': 'gzip, deflate, br',
+    'Connection': 'keep-alive',
+  };
+
+  // Forward Range header for video segments
+  if (range) {
+    headers['Range'] = range;
+  }
+
+  // Add referer from target URL origin
+  try {
+    const targetUrlObj = new URL(targetUrl);
+    headers['Referer'] = targetUrlObj.origin + '/';
+    headers['Origin'] = targetUrlObj.origin;
+  } catch (e) {
+    console.warn('Could not set referer/origin headers');
+  }
+
+  const overrides = { ...streamHeaders };
+  if (overrides['Referer'] && !overrides['Origin']) {
+    try {
+      overrides['Origin'] = new URL(overrides['Referer']).origin;
+    } catch (e) {
+      // Keep the default origin if the referer is not a valid URL
+    }
+  }
+  return Object.assign(headers, overrides);
+}
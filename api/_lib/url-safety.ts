@@ -0,0 +1,277 @@
+// api/_lib/url-safety.ts - SSRF protection for server-side fetches of user-supplied URLs
+import { getDocument } from './firestore';
+
+// Comma-separated upstream hosts, merged with the admin-managed list in settings/proxy
+const ENV_ALLOWLIST = (process.env.UPSTREAM_ALLOWLIST || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+// Resolve hostnames over DNS-over-HTTPS and reject names pointing at private addresses.
+// On unless UPSTREAM_DNS_CHECK is 'false'; without it any DNS name can point inside.
+const DNS_CHECK = process.env.UPSTREAM_DNS_CHECK !== 'false';
+
+const MAX_REDIRECTS = 5;
+const ALLOWLIST_TTL = 60 * 1000;
+const DNS_TTL = 60 * 1000;
+
+// Well-known internal service ports. IPTV origins use all sorts of ports, so
+// only these are refused rather than allowing a fixed set.
+const BLOCKED_PORTS = new Set([
+  '21', '22', '23', '25', '53', '110', '111', '135', '139', '143', '389', '445', '465', '587',
+  '993', '995', '1433', '1521', '2049', '2375', '2376', '2379', '2380', '3306', '3389', '5432',
+  '5984', '6379', '6443', '9200', '9300', '10250', '11211', '27017',
+]);
+
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.localdomain', '.home.arpa'];
+
+// [network, prefix length]
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],        // "this" network
+  ['10.0.0.0', 8],       // private
+  ['100.64.0.0', 10],    // carrier-grade NAT
+  ['127.0.0.0', 8],      // loopback
+  ['169.254.0.0', 16],   // link-local, cloud metadata
+  ['172.16.0.0', 12],    // private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.0.2.0', 24],     // documentation
+  ['192.88.99.0', 24],   // 6to4 relay
+  ['192.168.0.0', 16],   // private
+  ['198.18.0.0', 15],    // benchmarking
+  ['198.51.100.0', 24],  // documentation
+  ['203.0.113.0', 24],   // documentation
+  ['224.0.0.0', 4],      // multicast
+  ['240.0.0.0', 4],      // reserved, broadcast
+];
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+let cachedAllowlist: { hosts: string[]; expires: number } | null = null;
+const dnsCache = new Map<string, { addresses: string[]; expires: number }>();
+
+function parseIPv4(host: string): number | null {
+  const parts = host.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) {
+    return null;
+  }
+  return parts.reduce((acc, part) => acc * 256 + Number(part), 0);
+}
+
+function isBlockedIPv4(address: number): boolean {
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = parseIPv4(network)!;
+    return address >= start && address < start + size;
+  });
+}
+
+function parseIPv6(host: string): number[] | null {
+  let address = host.toLowerCase();
+  if (!address.includes(':')) return null;
+
+  // Embedded IPv4 tail, e.g. ::ffff:127.0.0.1
+  const v4Match = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4Match) {
+    const v4 = parseIPv4(v4Match[1]);
+    if (v4 === null) return null;
+    address = address.slice(0, -v4Match[1].length) + `${(v4 >>> 16).toString(16)}:${(v4 & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail] = address.split('::');
+  const headParts = head ? head.split(':') : [];
+  const tailParts = tail ? tail.split(':') : [];
+  const missing = 8 - headParts.length - tailParts.length;
+  if (address.includes('::') ? missing < 1 : missing !== 0) return null;
+
+  const parts = [...headParts, ...Array(address.includes('::') ? missing : 0).fill('0'), ...tailParts];
+  if (parts.some(part => !/^[0-9a-f]{1,4}$/.test(part))) return null;
+  return parts.map(part => parseInt(part, 16));
+}
+
+function isBlockedIPv6(parts: number[]): boolean {
+  const [first] = parts;
+  const allZeroPrefix = (count: number) => parts.slice(0, count).every(part => part === 0);
+
+  if (allZeroPrefix(7) && parts[7] <= 1) return true;        // :: and ::1
+  if ((first & 0xfe00) === 0xfc00) return true;                 // fc00::/7 unique local
+  if ((first & 0xffc0) === 0xfe80) return true;                 // fe80::/10 link-local
+  if ((first & 0xff00) === 0xff00) return true;                 // ff00::/8 multicast
+  if (first === 0x2001 && parts[1] === 0x0db8) return true;     // documentation
+  if (first === 0x0100 && parts.slice(1, 4).every(part => part === 0)) return true; // discard-only
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses carry an IPv4 target
+  const embedsIPv4 =
+    (allZeroPrefix(5) && parts[5] === 0xffff) ||
+    (first === 0x64 && parts[1] === 0xff9b && parts.slice(2, 6).every(part => part === 0));
+  if (embedsIPv4) {
+    return isBlockedIPv4(parts[6] * 65536 + parts[7]);
+  }
+
+  return false;
+}
+
+function isBlockedAddress(address: string): boolean {
+  const v4 = parseIPv4(address);
+  if (v4 !== null) return isBlockedIPv4(v4);
+  const v6 = parseIPv6(address);
+  if (v6 !== null) return isBlockedIPv6(v6);
+  return false;
+}
+
+function matchesAllowlist(hostname: string, allowlist: string[]): boolean {
+  return allowlist.some(entry => {
+    const host = entry.replace(/^\*\./, '');
+    return hostname === host || hostname.endsWith(`.${host}`);
+  });
+}
+
+/**
+ * Upstream hosts allowed by env and the admin settings. An empty list allows every public host.
+ */
+export async function getUpstreamAllowlist(): Promise<string[]> {
+  if (cachedAllowlist && cachedAllowlist.expires > Date.now()) {
+    return cachedAllowlist.hosts;
+  }
+
+  let adminHosts: string[] = [];
+  try {
+    const settings = await getDocument('settings/proxy');
+    if (Array.isArray(settings?.upstreamAllowlist)) {
+      adminHosts = settings.upstreamAllowlist
+        .filter((host): host is string => typeof host === 'string')
+        .map(host => host.trim().toLowerCase())
+        .filter(Boolean);
+    }
+  } catch (error) {
+    // Fall back to the env list rather than failing every stream
+    console.error('Could not load upstream allow-list:', error instanceof Error ? error.message : error);
+  }
+
+  const hosts = Array.from(new Set([...ENV_ALLOWLIST, ...adminHosts]));
+  cachedAllowlist = { hosts, expires: Date.now() + ALLOWLIST_TTL };
+  return hosts;
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const cached = dnsCache.get(hostname);
+  if (cached && cached.expires > Date.now()) return cached.addresses;
+
+  const lookups = await Promise.all(['A', 'AAAA'].map(async type => {
+    const response = await fetch(
+      `https://cloudflare-dns.com/dns-query?name=${encodeURIComponent(hostname)}&type=${type}`,
+      { headers: { 'Accept': 'application/dns-json' }, signal: AbortSignal.timeout(3000) }
+    );
+    if (!response.ok) throw new Error(`DNS lookup failed: ${response.status}`);
+    const data = await response.json();
+    // Type 1 = A, 28 = AAAA; CNAME answers are followed by the resolver
+    return (data.Answer || [])
+      .filter((answer: { type: number }) => answer.type === 1 || answer.type === 28)
+      .map((answer: { data: string }) => answer.data);
+  }));
+
+  const addresses = lookups.flat();
+  dnsCache.set(hostname, { addresses, expires: Date.now() + DNS_TTL });
+  return addresses;
+}
+
+/**
+ * Throw UnsafeUrlError unless the URL points at an allowed, public http(s) destination
+ */
+export async function assertSafeUrl(input: string | URL): Promise<URL> {
+  let target: URL;
+  try {
+    target = new URL(input);
+  } catch (e) {
+    throw new UnsafeUrlError('Invalid URL');
+  }
+
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new UnsafeUrlError(`Scheme not allowed: ${target.protocol}`);
+  }
+
+  if (target.username || target.password) {
+    throw new UnsafeUrlError('Credentials in URL are not allowed');
+  }
+
+  if (target.port && BLOCKED_PORTS.has(target.port)) {
+    throw new UnsafeUrlError(`Port not allowed: ${target.port}`);
+  }
+
+  // URL normalizes decimal/hex/octal IPv4 forms, so a dotted-quad check is enough
+  const hostname = target.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (
+    !hostname ||
+    hostname === 'localhost' ||
+    (!hostname.includes('.') && !hostname.includes(':')) ||
+    BLOCKED_HOST_SUFFIXES.some(suffix => hostname.endsWith(suffix))
+  ) {
+    throw new UnsafeUrlError(`Host not allowed: ${hostname}`);
+  }
+
+  if (isBlockedAddress(hostname)) {
+    throw new UnsafeUrlError(`Address not allowed: ${hostname}`);
+  }
+
+  const allowlist = await getUpstreamAllowlist();
+  if (allowlist.length > 0 && !matchesAllowlist(hostname, allowlist)) {
+    throw new UnsafeUrlError(`Host is not on the upstream allow-list: ${hostname}`);
+  }
+
+  if (DNS_CHECK && parseIPv4(hostname) === null && parseIPv6(hostname) === null) {
+    let addresses: string[];
+    try {
+      addresses = await resolveHost(hostname);
+    } catch {
+      // Fail closed: a name that cannot be checked is not fetched
+      throw new UnsafeUrlError(`Could not resolve host: ${hostname}`);
+    }
+    if (addresses.some(isBlockedAddress)) {
+      throw new UnsafeUrlError(`Host resolves to a private address: ${hostname}`);
+    }
+  }
+
+  return target;
+}
+
+// Credentials meant for the original host; like browsers, never send them on to another origin
+const CREDENTIAL_HEADERS = ['cookie', 'authorization'];
+
+function withoutCredentials(headers: HeadersInit | undefined): Headers {
+  const stripped = new Headers(headers);
+  for (const name of CREDENTIAL_HEADERS) stripped.delete(name);
+  return stripped;
+}
+
+/**
+ * fetch() that validates the destination and every redirect hop.
+ * The returned response's url is the final hop, like a normal fetch.
+ * Cookie and Authorization headers are dropped once a redirect leaves the original origin.
+ */
+export async function safeFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  let currentUrl = input;
+  let hopInit = init;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const target = await assertSafeUrl(currentUrl);
+    const response = await fetch(target.toString(), { ...hopInit, redirect: 'manual' });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    const next = new URL(location, target);
+    if (next.origin !== new URL(input).origin && hopInit === init) {
+      hopInit = { ...init, headers: withoutCredentials(init.headers) };
+    }
+    currentUrl = next.toString();
+  }
+
+  throw new UnsafeUrlError(`Too many redirects (max ${MAX_REDIRECTS})`);
+}
@@ -0,0 +1,177 @@
+// api/_lib/vod.ts - Movies and series found in playlist sources
+//
+// Playlists mix VOD in with live channels. Entries are treated as VOD when their
+// URL says so: Xtream-style /movie/ and /series/ paths or a file extension. An
+// episode is a VOD entry whose title carries an "S01E02"-style marker; episodes
+// sharing a series name are grouped into one series.
+import { slugify } from './ids';
+
+export interface Episode {
+  id: string;
+  seriesId: string;
+  name: string;
+  season: number;
+  episode: number;
+  streamUrl: string;
+  posterUrl?: string;
+  plot?: string;
+  durationSecs?: number;
+  containerExtension?: string;
+  headers?: Record<string, string>; // Sealed into the stream's proxy token before listings go out
+}
+
+export interface Movie {
+  id: string;
+  name: string;
+  posterUrl: string;
+  streamUrl: string;
+  categoryId: string;
+  categoryName: string;
+  groupTitle?: string;
+  year?: number;
+  rating?: number;
+  plot?: string;
+  genre?: string;
+  containerExtension?: string;
+  headers?: Record<string, string>; // Likewise sealed
+}
+
+export interface Series {
+  id: string;
+  name: string;
+  posterUrl: string;
+  categoryId: string;
+  categoryName: string;
+  groupTitle?: string;
+  year?: number;
+  rating?: number;
+  plot?: string;
+  genre?: string;
+  // Included when the source lists episodes up front (M3U); Xtream loads them per series
+  episodes?: Episode[];
+}
+
+export type VodKind = 'movie' | 'series';
+
+// Playlist entries as parse-m3u builds them, with IDs already assigned
+export interface VodEntry {
+  id: string;
+  name: string;
+  logoUrl: string;
+  streamUrl: string;
+  groupTitle?: string;
+  headers?: Record<string, string>;
+}
+
+const VOD_EXTENSIONS = ['mp4', 'mkv', 'avi', 'm4v', 'mov', 'webm'];
+
+const EPISODE_MARKER = /^(.*?)[\s._-]*\bS(\d{1,2})[\s._-]?E(\d{1,4})\b/i;
+
+export const getExtension = (url: string): string | undefined => {
+  try {
+    const match = new URL(url).pathname.match(/\.([a-z0-9]{2,4})$/i);
+    return match ? match[1].toLowerCase() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Split "Show Name S01E02 - Title" into the series name, season and episode
+ */
+export const parseEpisodeTitle = (title: string): { seriesName: string; season: number; episode: number } | null => {
+  const match = title.match(EPISODE_MARKER);
+  if (!match) return null;
+  const seriesName = match[1].replace(/[\s._|:-]+$/, '').trim();
+  if (!seriesName) return null;
+  return { seriesName, season: parseInt(match[2], 10), episode: parseInt(match[3], 10) };
+};
+
+/**
+ * Release year from a "Title (2019)" style name
+ */
+export const parseYear = (title: string): number | undefined => {
+  const match = title.match(/\((\d{4})\)\s*$/) || title.match(/\s-\s(\d{4})$/);
+  const year = match ? parseInt(match[1], 10) : NaN;
+  return year >= 1900 && year <= 2100 ? year : undefined;
+};
+
+/**
+ * Whether a playlist entry is a movie, an episode of a series, or neither (live)
+ */
+export const classifyVodEntry = (name: string, streamUrl: string, type?: string): VodKind | null => {
+  const declared = type?.toLowerCase();
+  if (declared === 'movie' || declared === 'vod') return parseEpisodeTitle(name) ? 'series' : 'movie';
+  if (declared === 'series') return 'series';
+
+  let path = '';
+  try {
+    path = new URL(streamUrl).pathname.toLowerCase();
+  } catch {
+    return null;
+  }
+  if (path.includes('/series/')) return 'series';
+  if (path.includes('/movie/')) return 'movie';
+
+  const extension = getExtension(streamUrl);
+  if (!extension || !VOD_EXTENSIONS.includes(extension)) return null;
+  return parseEpisodeTitle(name) ? 'series' : 'movie';
+};
+
+export const toMovie = (entry: VodEntry, categoryId: string, categoryName: string): Movie => ({
+  id: entry.id,
+  name: entry.name,
+  posterUrl: entry.logoUrl,
+  streamUrl: entry.streamUrl,
+  categoryId,
+  categoryName,
+  groupTitle: entry.groupTitle,
+  year: parseYear(entry.name),
+  containerExtension: getExtension(entry.streamUrl),
+  ...(entry.headers && { headers: entry.headers }),
+});
+
+/**
+ * Group playlist episodes into series. Series are keyed by name, so the same show
+ * split across groups stays one series.
+ */
+export const groupSeries = (entries: VodEntry[], categoryId: string, categoryName: string): Series[] => {
+  const seriesById = new Map<string, Series>();
+
+  entries.forEach(entry => {
+    const parsed = parseEpisodeTitle(entry.name);
+    const seriesName = parsed?.seriesName || entry.groupTitle || entry.name;
+    const seriesId = `${categoryId}_sr-${slugify(seriesName) || 'series'}`;
+
+    let series = seriesById.get(seriesId);
+    if (!series) {
+      series = {
+        id: seriesId,
+        name: seriesName,
+        posterUrl: entry.logoUrl,
+        categoryId,
+        categoryName,
+        groupTitle: entry.groupTitle,
+        year: parseYear(seriesName),
+        episodes: [],
+      };
+      seriesById.set(seriesId, series);
+    }
+
+    series.episodes!.push({
+      id: entry.id,
+      seriesId,
+      name: entry.name,
+      season: parsed?.season ?? 1,
+      episode: parsed?.episode ?? series.episodes!.length + 1,
+      streamUrl: entry.streamUrl,
+      posterUrl: entry.logoUrl,
+      containerExtension: getExtension(entry.streamUrl),
+      ...(entry.headers && { headers: entry.headers }),
+    });
+  });
+
+  const series = Array.from(seriesById.values());
+  series.forEach(item => item.episodes!.sort((a, b) => a.season - b.season || a.episode - b.episode));
+  return series;
+};
@@ -0,0 +1,203 @@
+// api/_lib/xmltv.ts - Streaming XMLTV parser
+//
+// Guide files are often tens of megabytes (gzip-compressed or not), so they are
+// decoded chunk by chunk and each <channel> / <programme> element is handed to
+// the caller as soon as it is complete, instead of building the whole document.
+
+export interface XmltvChannel {
+  id: string;
+  displayNames: string[];
+}
+
+export interface XmltvProgramme {
+  channel: string;
+  start: number; // ms
+  stop: number; // ms
+  title: string;
+  subTitle?: string;
+  desc?: string;
+  category?: string;
+  icon?: string;
+}
+
+export interface XmltvHandlers {
+  onChannel: (channel: XmltvChannel) => void;
+  onProgramme: (programme: XmltvProgramme) => void;
+}
+
+// A single element larger than this means the file is not XMLTV (or is broken)
+const MAX_ELEMENT_LENGTH = 1024 * 1024;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+const ELEMENT_START = /<(channel|programme)[\s>]/g;
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  if (!match) return undefined;
+  return decodeXml(match[1] ?? match[2]);
+}
+
+// Text of the first child element with this name
+function readChild(element: string, name: string): string | undefined {
+  const match = element.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`));
+  return match ? decodeXml(match[1]) || undefined : undefined;
+}
+
+function readChildren(element: string, name: string): string[] {
+  const pattern = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'g');
+  return Array.from(element.matchAll(pattern), match => decodeXml(match[1])).filter(Boolean);
+}
+
+/**
+ * Parse an XMLTV timestamp: "YYYYMMDDhhmmss +hhmm". Seconds, minutes and the
+ * offset are optional; without an offset the time is taken as UTC.
+ */
+export function parseXmltvTime(value: string | undefined): number | null {
+  const match = value?.trim().match(/^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?\s*(?:([+-])(\d{2}):?(\d{2}))?/);
+  if (!match) return null;
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', sign, offsetHours, offsetMinutes] = match;
+  let time = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  if (sign) {
+    const offset = (+offsetHours * 60 + +offsetMinutes) * 60 * 1000;
+    time -= sign === '+' ? offset : -offset;
+  }
+  return isNaN(time) ? null : time;
+}
+
+function parseChannel(element: string): XmltvChannel | null {
+  const openTag = element.slice(0, element.indexOf('>') + 1);
+  const id = readAttribute(openTag, 'id');
+  if (!id) return null;
+  return { id, displayNames: readChildren(element, 'display-name') };
+}
+
+function parseProgramme(element: string): XmltvProgramme | null {
+  const openTag = element.slice(0, element.indexOf('>') + 1);
+  const channel = readAttribute(openTag, 'channel');
+  const start = parseXmltvTime(readAttribute(openTag, 'start'));
+  const title = readChild(element, 'title');
+  if (!channel || start === null || !title) return null;
+
+  // A missing stop is filled in from the next programme by the caller
+  const stop = parseXmltvTime(readAttribute(openTag, 'stop')) ?? start;
+  const desc = readChild(element, 'desc');
+  const iconTag = element.match(/<icon\s[^>]*>/);
+
+  return {
+    channel,
+    start,
+    stop,
+    title,
+    subTitle: readChild(element, 'sub-title'),
+    desc: desc && desc.length > MAX_DESCRIPTION_LENGTH ? `${desc.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…` : desc,
+    category: readChild(element, 'category'),
+    icon: iconTag ? readAttribute(iconTag[0], 'src') : undefined,
+  };
+}
+
+/**
+ * Put back the first chunk read while checking for the gzip magic number
+ */
+function prependChunk(first: Uint8Array<ArrayBuffer>, reader: ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>): ReadableStream<Uint8Array<ArrayBuffer>> {
+  return new ReadableStream<Uint8Array<ArrayBuffer>>({
+    start(controller) {
+      controller.enqueue(first);
+    },
+    async pull(controller) {
+      const result = await reader.read();
+      if (result.done) {
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Turn a guide body into text, gunzipping it when it starts with the gzip magic
+ * number. Servers rarely mark .xml.gz files with Content-Encoding, so fetch
+ * does not decompress them on its own.
+ */
+async function decodeBody(body: ReadableStream<Uint8Array<ArrayBuffer>>): Promise<ReadableStream<string>> {
+  const reader = body.getReader();
+  let first = await reader.read();
+  while (!first.done && first.value.length === 0) first = await reader.read();
+  if (first.done) return new ReadableStream<string>({ start: controller => controller.close() });
+
+  let stream: ReadableStream<BufferSource> = prependChunk(first.value, reader);
+  if (first.value[0] === 0x1f && first.value[1] === 0x8b) {
+    stream = stream.pipeThrough(new DecompressionStream('gzip'));
+  }
+  return stream.pipeThrough(new TextDecoderStream());
+}
+
+/**
+ * Stream an XMLTV body, calling the handlers for each channel and programme
+ */
+export async function parseXmltv(body: ReadableStream<Uint8Array<ArrayBuffer>>, handlers: XmltvHandlers): Promise<void> {
+  const reader = (await decodeBody(body)).getReader();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let consumed = 0;
+      for (;;) {
+        ELEMENT_START.lastIndex = consumed;
+        const start = ELEMENT_START.exec(buffer);
+        if (!start) {
+          // Keep a short tail in case an opening tag is split across chunks
+          consumed = Math.max(consumed, buffer.length - 16);
+          break;
+        }
+
+        const closeTag = `</${start[1]}>`;
+        const end = buffer.indexOf(closeTag, start.index);
+        if (end === -1) {
+          consumed = start.index;
+          break;
+        }
+
+        const element = buffer.slice(start.index, end + closeTag.length);
+        if (start[1] === 'channel') {
+          const channel = parseChannel(element);
+          if (channel) handlers.onChannel(channel);
+        } else {
+          const programme = parseProgramme(element);
+          if (programme) handlers.onProgramme(programme);
+        }
+        consumed = end + closeTag.length;
+      }
+
+      buffer = buffer.slice(consumed);
+      if (buffer.length > MAX_ELEMENT_LENGTH) {
+        throw new Error('Guide is not valid XMLTV');
+      }
+    }
+  } catch (error) {
+    // Stop downloading the rest of the file
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+}
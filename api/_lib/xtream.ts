@@ -0,0 +1,73 @@
+// api/_lib/xtream.ts - Xtream Codes (player_api.php) credentials and URLs
+//
+// Categories store their Xtream login sealed with PROXY_SECRET, so the public
+// category document never holds a readable username or password. Only edge
+// functions can open it; stream URLs built from it leave as signed proxy URLs.
+import { sealJson, openJson } from './crypto';
+
+export interface XtreamCredentials {
+  server: string; // origin plus optional base path, no trailing slash
+  username: string;
+  password: string;
+}
+
+export type XtreamStreamKind = 'live' | 'movie' | 'series';
+
+// Guide URLs handed to the browser point at the sealed source instead of xmltv.php
+export const XTREAM_GUIDE_PREFIX = 'xtream:';
+
+/**
+ * Normalise an admin-entered server: "host:8080/" -> "http://host:8080"
+ */
+export function normaliseXtreamServer(input: string): string {
+  const trimmed = input.trim().replace(/\/+$/, '');
+  const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+  const url = new URL(withScheme);
+  return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+export function sealXtreamSource(credentials: XtreamCredentials): Promise<string> {
+  return sealJson({ s: credentials.server, u: credentials.username, p: credentials.password });
+}
+
+/**
+ * Open a sealed source. Returns null when it was not sealed by this deployment
+ * (or PROXY_SECRET changed since, in which case the admin has to reconnect).
+ */
+export async function openXtreamSource(source: string): Promise<XtreamCredentials | null> {
+  if (!source) return null;
+  const opened = await openJson<{ s: string; u: string; p: string }>(source);
+  if (!opened || !opened.s || !opened.u || typeof opened.p !== 'string') return null;
+  return { server: opened.s, username: opened.u, password: opened.p };
+}
+
+export function xtreamApiUrl(
+  credentials: XtreamCredentials,
+  action?: string,
+  params: Record<string, string> = {}
+): string {
+  const url = new URL(`${credentials.server}/player_api.php`);
+  url.searchParams.set('username', credentials.username);
+  url.searchParams.set('password', credentials.password);
+  if (action) url.searchParams.set('action', action);
+  Object.entries(params).forEach(([name, value]) => url.searchParams.set(name, value));
+  return url.toString();
+}
+
+export function xtreamStreamUrl(
+  credentials: XtreamCredentials,
+  kind: XtreamStreamKind,
+  streamId: string | number,
+  extension: string
+): string {
+  const username = encodeURIComponent(credentials.username);
+  const password = encodeURIComponent(credentials.password);
+  return `${credentials.server}/${kind}/${username}/${password}/${streamId}.${extension}`;
+}
+
+export function xtreamGuideUrl(credentials: XtreamCredentials): string {
+  const url = new URL(`${credentials.server}/xmltv.php`);
+  url.searchParams.set('username', credentials.username);
+  url.searchParams.set('password', credentials.password);
+  return url.toString();
+}
@@ -0,0 +1,151 @@
+// api/channels.ts - Manually added channels, as viewers get them
+//
+// POST { categoryId }
+//   Returns { channels } of one category.
+// POST { channelId }
+//   Returns { channel }, or 404.
+// Stream URLs are minted as signed proxy URLs with the stored auth cookie,
+// referer and user agent sealed inside, so none of them reach the page.
+// Those are read from the admin-only channel secrets with service credentials.
+import { queryDocuments } from './_lib/firestore';
+import { attachSecrets, getManualChannel, getManualStreams } from './_lib/manual-channels';
+import type { ManualStream } from './_lib/manual-channels';
+import { mintProxyUrl, streamKey } from './_lib/proxy-token';
+import { manifestTypeFromUrl } from './_lib/manifest-sniffer';
+import type { DrmConfig } from './_lib/drm';
+
+export const config = {
+  runtime: 'edge',
+};
+
+const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS
+  ? process.env.ALLOWED_ORIGINS.split(',').map(origin => origin.trim())
+  : ['https://livetvpro.vercel.app'];
+
+// Same shape as ChannelSource in src/types
+interface ChannelSource {
+  label: string;
+  streamUrl: string;
+  streamKey?: string;
+  drm?: DrmConfig;
+  manifestType?: string;
+}
+
+// Same shape as PublicChannel in src/types
+interface Channel {
+  id: string;
+  name: string;
+  logoUrl: string;
+  streamUrl: string;
+  streamKey?: string;
+  categoryId: string;
+  categoryName: string;
+  drm?: DrmConfig;
+  manifestType?: string;
+  lowLatency?: unknown; // Normalized by the page, like every stored low-latency setting
+  sources?: ChannelSource[];
+}
+
+function getCorsHeaders(origin: string | null): Record<string, string> {
+  const allowedOrigin = (origin && ALLOWED_ORIGINS.includes(origin)) ? origin : ALLOWED_ORIGINS[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+function jsonResponse(body: unknown, status: number, origin: string | null, extraHeaders: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getCorsHeaders(origin),
+      ...extraHeaders,
+    },
+  });
+}
+
+/**
+ * A stream of a channel document (its own or a backup) as a proxy URL. A
+ * missing URL stays empty, so the page can say the channel has none.
+ */
+async function toStream({ url, drm, headers }: ManualStream, request: Request) {
+  if (!url) return { streamUrl: '', ...(drm && { drm }) };
+
+  const manifestType = manifestTypeFromUrl(url);
+  return {
+    streamUrl: await mintProxyUrl({ url, headers }, request),
+    streamKey: await streamKey(url),
+    ...(drm && { drm }),
+    ...(manifestType && { manifestType }),
+  };
+}
+
+async function toChannel(id: string, data: Record<string, unknown>, request: Request): Promise<Channel> {
+  const { main, backups } = getManualStreams(data);
+  const sources: ChannelSource[] = await Promise.all(backups.map(async backup => ({
+    label: backup.label,
+    ...(await toStream(backup, request)),
+  })));
+
+  return {
+    id,
+    name: typeof data.name === 'string' && data.name ? data.name : 'Unknown Channel',
+    logoUrl: typeof data.logoUrl === 'string' && data.logoUrl ? data.logoUrl : '/channel-placeholder.svg',
+    ...(await toStream(main, request)),
+    categoryId: typeof data.categoryId === 'string' ? data.categoryId : '',
+    categoryName: typeof data.categoryName === 'string' && data.categoryName ? data.categoryName : 'Unknown Category',
+    ...(data.lowLatency ? { lowLatency: data.lowLatency } : {}),
+    ...(sources.length > 0 && { sources }),
+  };
+}
+
+export default async function handler(request: Request) {
+  const origin = request.headers.get('origin');
+
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: getCorsHeaders(origin),
+    });
+  }
+
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) {
+    return jsonResponse({ error: 'Unauthorized origin' }, 403, origin);
+  }
+
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, origin);
+  }
+
+  // Stream URLs are signed, expire and may be bound to this client
+  const noStore = { 'Cache-Control': 'private, no-store' };
+
+  try {
+    const body = await request.json();
+
+    if (typeof body?.channelId === 'string' && body.channelId) {
+      const data = await getManualChannel(body.channelId);
+      if (!data) {
+        return jsonResponse({ error: 'Channel not found' }, 404, origin);
+      }
+      return jsonResponse({ channel: await toChannel(body.channelId, data, request) }, 200, origin, noStore);
+    }
+
+    if (typeof body?.categoryId === 'string' && body.categoryId) {
+      const documents = await attachSecrets(await queryDocuments('channels', 'categoryId', body.categoryId));
+      const channels = await Promise.all(documents.map(({ id, data }) => toChannel(id, data, request)));
+      return jsonResponse({ channels }, 200, origin, noStore);
+    }
+
+    return jsonResponse({ error: 'Missing categoryId or channelId' }, 400, origin);
+  } catch (error) {
+    return jsonResponse({
+      error: 'Failed to load channels',
+      details: error instanceof Error ? error.message : String(error),
+    }, 500, origin);
+  }
+}
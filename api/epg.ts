@@ -0,0 +1,136 @@
+// api/epg.ts - Programme guide for playlist channels, from the playlist's XMLTV guide
+import { UnsafeUrlError } from './_lib/url-safety';
+import { getGuide, findProgrammes, resolveGuideUrl, GuideFetchError } from './_lib/epg-cache';
+import type { GuideChannelQuery, GuideProgramme } from './_lib/epg-cache';
+
+export const config = {
+  runtime: 'edge',
+};
+
+const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS
+  ? process.env.ALLOWED_ORIGINS.split(',').map(origin => origin.trim())
+  : ['https://livetvpro.vercel.app'];
+
+const MAX_CHANNELS = 2000;
+const DEFAULT_WINDOW_MS = 6 * 60 * 60 * 1000;
+// Wide enough for a week of catch-up history plus the guide ahead
+const MAX_WINDOW_MS = 10 * 24 * 60 * 60 * 1000;
+
+interface GuideChannelRequest extends GuideChannelQuery {
+  id: string;
+}
+
+function getCorsHeaders(origin: string | null): Record<string, string> {
+  const allowedOrigin = (origin && ALLOWED_ORIGINS.includes(origin)) ? origin : ALLOWED_ORIGINS[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+function jsonResponse(body: unknown, status: number, origin: string | null): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getCorsHeaders(origin),
+    },
+  });
+}
+
+/**
+ * Programmes overlapping [from, to). Lists are sorted by start, so this is a
+ * binary search for the first one still running at `from`.
+ */
+function programmesBetween(programmes: GuideProgramme[], from: number, to: number): GuideProgramme[] {
+  let low = 0;
+  let high = programmes.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (programmes[middle].stop <= from) low = middle + 1;
+    else high = middle;
+  }
+
+  const result: GuideProgramme[] = [];
+  for (let i = low; i < programmes.length && programmes[i].start < to; i++) {
+    result.push(programmes[i]);
+  }
+  return result;
+}
+
+export default async function handler(request: Request) {
+  const origin = request.headers.get('origin');
+
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: getCorsHeaders(origin),
+    });
+  }
+
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) {
+    return jsonResponse({ error: 'Unauthorized origin' }, 403, origin);
+  }
+
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, origin);
+  }
+
+  try {
+    const body = await request.json();
+    const { epgUrl } = body;
+    const channels: GuideChannelRequest[] = Array.isArray(body.channels) ? body.channels : [];
+
+    if (typeof epgUrl !== 'string' || !epgUrl) {
+      return jsonResponse({ error: 'Missing epgUrl' }, 400, origin);
+    }
+    if (channels.length === 0 || channels.length > MAX_CHANNELS) {
+      return jsonResponse({ error: `Between 1 and ${MAX_CHANNELS} channels are required` }, 400, origin);
+    }
+
+    const now = Date.now();
+    const from = Number.isFinite(body.from) ? body.from : now;
+    const to = Number.isFinite(body.to) ? Math.min(body.to, from + MAX_WINDOW_MS) : from + DEFAULT_WINDOW_MS;
+
+    // Only guides a playlist or source listed, by the sealed reference it was listed with
+    const guideUrl = await resolveGuideUrl(epgUrl);
+    if (!guideUrl) {
+      return jsonResponse({ error: 'Invalid guide source' }, 400, origin);
+    }
+
+    const guide = await getGuide(guideUrl);
+
+    const programmes: Record<string, GuideProgramme[]> = {};
+    channels.forEach(channel => {
+      if (!channel || typeof channel.id !== 'string') return;
+      const matched = programmesBetween(findProgrammes(guide, channel), from, to);
+      if (matched.length > 0) programmes[channel.id] = matched;
+    });
+
+    return new Response(
+      JSON.stringify({ programmes, fetchedAt: guide.fetchedAt }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          ...getCorsHeaders(origin),
+          'Cache-Control': 'private, max-age=60',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof GuideFetchError) {
+      return jsonResponse({ error: error.message }, error.status, origin);
+    }
+    if (error instanceof UnsafeUrlError) {
+      return jsonResponse({ error: 'Guide URL not allowed', details: error.message }, 403, origin);
+    }
+    return jsonResponse({
+      error: 'Failed to load programme guide',
+      details: error instanceof Error ? error.message : String(error),
+    }, 500, origin);
+  }
+}
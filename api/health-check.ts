@@ -0,0 +1,231 @@
+// api/health-check.ts - Scheduled re-validation of every channel's stream
+//
+// GET with Authorization: Bearer <CRON_SECRET> (Vercel cron, or
+// scripts/health-check.mjs during development)
+//   Probes the channels checked longest ago until the run's time budget is
+//   spent, folds the results into the uptime history and marks channels that
+//   keep failing as offline. A manual channel counts as up while any of its
+//   backup streams plays. With ?since=<epoch ms> the response counts the
+//   channels not checked since then, so a runner can loop until a pass is done.
+import { listDocuments, isFirestoreConfigured } from './_lib/firestore';
+import { attachSecrets, getManualStreams } from './_lib/manual-channels';
+import { isKvConfigured } from './_lib/kv';
+import { probeChannelStream } from './_lib/stream-probe';
+import type { ProbeResult, StreamReference } from './_lib/stream-probe';
+import { readHealthState, writeHealthState, appendHealthRun, recordResult } from './_lib/health-history';
+import type { ChannelHealthRecord } from './_lib/health-history';
+import parseM3uHandler from './parse-m3u';
+import xtreamHandler from './xtream';
+import stalkerHandler from './stalker';
+
+export const config = {
+  runtime: 'edge',
+};
+
+const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS
+  ? process.env.ALLOWED_ORIGINS.split(',').map(origin => origin.trim())
+  : ['https://livetvpro.vercel.app'];
+
+const CRON_SECRET = process.env.CRON_SECRET || '';
+
+// Edge functions must answer within 25 seconds: no new probes are started after
+// START_BUDGET_MS, and results arriving after DEADLINE_MS are thrown away
+const START_BUDGET_MS = 10000;
+const DEADLINE_MS = 20000;
+const CONCURRENCY = 6;
+
+type WaitUntil = (promise: Promise<unknown>) => void;
+type EndpointHandler = (request: Request, context?: { waitUntil?: WaitUntil }) => Promise<Response>;
+
+interface HealthTarget extends StreamReference {
+  id: string;
+  name: string;
+  categoryName: string;
+  source: ChannelHealthRecord['source'];
+  backups?: StreamReference[]; // Manual channels' backup streams, in failover order
+}
+
+// The endpoints serving each playlist source, called in-process with the body the client posts
+const PLAYLIST_ENDPOINTS: Record<string, { path: string; handler: EndpointHandler }> = {
+  m3u: { path: '/api/parse-m3u', handler: parseM3uHandler },
+  xtream: { path: '/api/xtream', handler: xtreamHandler },
+  stalker: { path: '/api/stalker', handler: stalkerHandler },
+};
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+function getPlaylistBody(category: Record<string, unknown>): Record<string, unknown> | null {
+  const remote = (category.sourceType === 'xtream' || category.sourceType === 'stalker')
+    ? category[category.sourceType] as Record<string, unknown> | undefined
+    : undefined;
+
+  if (remote) {
+    return remote.source ? { action: 'channels', source: remote.source, categoryIds: remote.categoryIds } : null;
+  }
+  // The parser reads the playlist URL from the category itself
+  return category.m3uUrl ? {} : null;
+}
+
+function toManualTarget(id: string, data: Record<string, unknown>): HealthTarget {
+  const { main, backups } = getManualStreams(data);
+  return {
+    id,
+    name: String(data.name || 'Unknown Channel'),
+    categoryName: String(data.categoryName || 'Unknown Category'),
+    source: 'manual',
+    url: main.url,
+    headers: main.headers,
+    backups: backups.map(({ url, headers }) => ({ url, headers })),
+  };
+}
+
+const STATUS_RANK: Record<ProbeResult['status'], number> = { ok: 0, degraded: 1, dead: 2 };
+
+/**
+ * Probe a channel's stream, then its backups until one plays. A channel is as
+ * healthy as its best stream, since players fail over to the backups.
+ */
+async function probeTarget(target: HealthTarget, request: Request, deadline: number): Promise<ProbeResult> {
+  let best: ProbeResult | null = null;
+  for (const stream of [{ url: target.url, headers: target.headers }, ...(target.backups || [])]) {
+    if (!stream.url) continue;
+    if (best && Date.now() >= deadline) break;
+    const result = await probeChannelStream(stream, request, { deadline });
+    if (!best || STATUS_RANK[result.status] < STATUS_RANK[best.status]) best = result;
+    if (best.status === 'ok') break;
+  }
+  return best!;
+}
+
+/**
+ * Every manual and playlist channel, each once. `complete` is false when a
+ * playlist could not be loaded, so its channels' history must not be dropped.
+ */
+async function listTargets(request: Request, waitUntil?: WaitUntil): Promise<{ targets: HealthTarget[]; complete: boolean }> {
+  const [categories, channels] = await Promise.all([
+    listDocuments('categories'),
+    listDocuments('channels').then(attachSecrets),
+  ]);
+  let complete = true;
+
+  const playlists = await Promise.all(categories.map(async ({ id, data }): Promise<HealthTarget[]> => {
+    const body = getPlaylistBody(data);
+    if (!body) return [];
+
+    const sourceType = data.sourceType === 'xtream' || data.sourceType === 'stalker' ? data.sourceType : 'm3u';
+    const { path, handler } = PLAYLIST_ENDPOINTS[sourceType];
+    try {
+      const response = await handler(new Request(new URL(path, request.url), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Origin': ALLOWED_ORIGINS[0] },
+        body: JSON.stringify({ categoryId: id, categoryName: data.name, ...body }),
+      }), { waitUntil });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const { channels: playlistChannels = [] } = await response.json();
+      return playlistChannels.map((channel: HealthTarget & { streamUrl: string }) => ({
+        id: channel.id,
+        name: channel.name,
+        categoryName: channel.categoryName,
+        source: sourceType,
+        url: channel.streamUrl,
+      }));
+    } catch (error) {
+      console.error(`Health check could not load ${data.name}:`, error instanceof Error ? error.message : error);
+      complete = false;
+      return [];
+    }
+  }));
+
+  // Manual channels come first, so they win over playlist duplicates
+  const seen = new Set<string>();
+  const targets = [...channels.map(({ id, data }) => toManualTarget(id, data)), ...playlists.flat()]
+    .filter(target => {
+      if (!target.url || seen.has(target.id)) return false;
+      seen.add(target.id);
+      return true;
+    });
+
+  return { targets, complete };
+}
+
+export default async function handler(request: Request, context?: { waitUntil?: WaitUntil }) {
+  if (request.method !== 'GET') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  if (!CRON_SECRET || request.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  if (!isKvConfigured() || !isFirestoreConfigured()) {
+    return jsonResponse({ error: 'The health check needs a KV store and FIREBASE_PROJECT_ID' }, 503);
+  }
+
+  try {
+    const started = Date.now();
+    const deadline = started + DEADLINE_MS;
+    const waitUntil = context?.waitUntil?.bind(context);
+
+    const [{ targets, complete }, state] = await Promise.all([listTargets(request, waitUntil), readHealthState()]);
+
+    // Channels never checked first, then those checked longest ago
+    const lastChecked = (target: HealthTarget) => state.channels[target.id]?.checkedAt || 0;
+    const queue = [...targets].sort((a, b) => lastChecked(a) - lastChecked(b));
+
+    let checked = 0;
+    let next = 0;
+    const worker = async () => {
+      while (next < queue.length && Date.now() < started + START_BUDGET_MS) {
+        const target = queue[next++];
+        const result = await probeTarget(target, request, deadline);
+        if (Date.now() >= deadline) return;
+        const { name, categoryName, source } = target;
+        state.channels[target.id] = recordResult(state.channels[target.id], { name, categoryName, source }, result);
+        checked++;
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, queue.length) }, worker));
+
+    // Forget channels that are gone, unless a playlist failed to load
+    if (complete) {
+      const current = new Set(targets.map(target => target.id));
+      Object.keys(state.channels).forEach(id => {
+        if (!current.has(id)) delete state.channels[id];
+      });
+    }
+    state.updatedAt = Date.now();
+    await writeHealthState(state);
+
+    const records = targets.map(target => state.channels[target.id]).filter(Boolean);
+    const summary = {
+      at: state.updatedAt,
+      checked,
+      total: targets.length,
+      ok: records.filter(record => record.status === 'ok').length,
+      degraded: records.filter(record => record.status === 'degraded').length,
+      dead: records.filter(record => record.status === 'dead').length,
+      offline: records.filter(record => record.offline).length,
+    };
+    await appendHealthRun(summary);
+
+    const since = parseInt(new URL(request.url).searchParams.get('since') || '', 10) || started;
+    return jsonResponse({
+      ...summary,
+      unchecked: targets.filter(target => lastChecked(target) < since).length,
+    }, 200);
+  } catch (error) {
+    return jsonResponse({
+      error: 'Health check failed',
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+}
@@ -0,0 +1,86 @@
+// api/health.ts - Results of the scheduled health check (api/health-check.ts)
+//
+// POST { action: 'offline' }
+//   Returns { offline: [channelId], updatedAt }: channels that failed their
+//   last few checks, for the channel lists to badge or hide.
+// POST { action: 'history' } (admin)
+//   Returns { channels: { [id]: ChannelHealthRecord }, runs: [HealthRun], updatedAt }.
+import { verifyAdminRequest } from './_lib/admin-auth';
+import { readHealthState, readHealthRuns } from './_lib/health-history';
+
+export const config = {
+  runtime: 'edge',
+};
+
+const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS
+  ? process.env.ALLOWED_ORIGINS.split(',').map(origin => origin.trim())
+  : ['https://livetvpro.vercel.app'];
+
+function getCorsHeaders(origin: string | null): Record<string, string> {
+  const allowedOrigin = (origin && ALLOWED_ORIGINS.includes(origin)) ? origin : ALLOWED_ORIGINS[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+function jsonResponse(body: unknown, status: number, origin: string | null, extraHeaders: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getCorsHeaders(origin),
+      ...extraHeaders,
+    },
+  });
+}
+
+export default async function handler(request: Request) {
+  const origin = request.headers.get('origin');
+
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: getCorsHeaders(origin),
+    });
+  }
+
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) {
+    return jsonResponse({ error: 'Unauthorized origin' }, 403, origin);
+  }
+
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, origin);
+  }
+
+  try {
+    const body = await request.json();
+
+    switch (body?.action) {
+      case 'offline': {
+        // Without a KV store there is no history, and nothing is offline
+        const state = await readHealthState();
+        const offline = Object.keys(state.channels).filter(id => state.channels[id].offline);
+        return jsonResponse({ offline, updatedAt: state.updatedAt }, 200, origin, { 'Cache-Control': 'no-store' });
+      }
+      case 'history': {
+        // Names, errors and upstream behaviour are for admins only
+        if (!(await verifyAdminRequest(request))) {
+          return jsonResponse({ error: 'Admin sign-in required' }, 401, origin);
+        }
+        const [state, runs] = await Promise.all([readHealthState(), readHealthRuns()]);
+        return jsonResponse({ channels: state.channels, runs, updatedAt: state.updatedAt }, 200, origin, { 'Cache-Control': 'no-store' });
+      }
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400, origin);
+    }
+  } catch (error) {
+    return jsonResponse({
+      error: 'Failed to read stream health',
+      details: error instanceof Error ? error.message : String(error),
+    }, 500, origin);
+  }
+}
@@ -1,4 +1,14 @@
 // api/m3u8-proxy.ts - FIXED WORKING VERSION
+import { mintProxyToken, mintProxyUrl, verifyProxyToken } from './_lib/proxy-token';
+import type { ProxyTarget, ProxyTokenResult } from './_lib/proxy-token';
+import { assertSafeUrl, safeFetch, UnsafeUrlError } from './_lib/url-safety';
+import { verifyAdminRequest } from './_lib/admin-auth';
+import { buildCatchupUrl, isWithinCatchup } from './_lib/catchup';
+import { detectManifest } from './_lib/manifest-sniffer';
+import { rewriteHlsPlaylist } from './_lib/hls-rewriter';
+import { rewriteDashManifest } from './_lib/dash-rewriter';
+import { buildUpstreamHeaders, pickStreamHeaders } from './_lib/upstream';
+
 export const config = {
   runtime: 'edge',
 };
@@ -7,9 +17,30 @@ const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS
   ? process.env.ALLOWED_ORIGINS.split(',').map(origin => origin.trim())
   : ['https://livetvpro.vercel.app'];
 
-// Log configuration on startup (only in development)
-if (process.env.NODE_ENV !== 'production') {
-  console.log('M3U8 Proxy Config:', { allowedOrigins: ALLOWED_ORIGINS });
+const PROXY_PATH = '/api/m3u8-proxy';
+
+/**
+ * Read the token and, for path-style URLs (/api/m3u8-proxy/p/<token>/<path>),
+ * the path the player resolved under it. vercel.json rewrites path-style URLs
+ * to ?pt=<token>&pp=<path>; the pathname form is accepted too.
+ */
+function readProxyRequest(url: URL): { token: string | null; path: string | null; query: string } {
+  const query = new URLSearchParams(url.search);
+  query.delete('pt');
+  query.delete('pp');
+  const queryString = query.toString() ? `?${query.toString()}` : '';
+
+  const pathToken = url.searchParams.get('pt');
+  if (pathToken) {
+    return { token: pathToken, path: url.searchParams.get('pp') || '', query: queryString };
+  }
+
+  const match = url.pathname.match(/^\/api\/m3u8-proxy\/p\/([^/]+)\/?(.*)$/);
+  if (match) {
+    return { token: match[1], path: match[2], query: queryString };
+  }
+
+  return { token: url.searchParams.get('t'), path: null, query: '' };
 }
 
 function getCorsHeaders(origin: string | null): Record<string, string> {
@@ -17,7 +48,7 @@ function getCorsHeaders(origin: string | null): Record<string, string> {
   
   return {
     'Access-Control-Allow-Origin': allowedOrigin,
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
     'Access-Control-Allow-Headers': 'Content-Type, Range, Authorization',
     'Access-Control-Max-Age': '86400',
     'Access-Control-Expose-Headers': 'Content-Length, Content-Type, Content-Range, Accept-Ranges',
@@ -37,7 +68,8 @@ export default async function handler(request: Request) {
     });
   }
 
-  // Origin validation - Allow if origin is in allowed list OR if no origin (direct access)
+  // Origin validation - Allow if origin is in allowed list OR if no origin (same-origin media requests).
+  // Requests without an origin are still covered by the signed token below.
   if (origin && !ALLOWED_ORIGINS.includes(origin)) {
     console.error('Unauthorized origin:', origin);
     return new Response(JSON.stringify({ 
@@ -52,12 +84,17 @@ export default async function handler(request: Request) {
     });
   }
 
-  // Get target URL
-  const targetUrl = url.searchParams.get('url');
-  if (!targetUrl) {
-    console.error('Missing url parameter');
-    return new Response(JSON.stringify({ error: 'Missing url parameter' }), {
-      status: 400,
+  // Mint a catch-up URL for a channel, or (admins only) a proxy URL for any upstream
+  if (request.method === 'POST') {
+    return handleMintRequest(request, origin);
+  }
+
+  // Only signed, unexpired tokens are proxied - plain ?url= passthrough is gone
+  const { token, path, query } = readProxyRequest(url);
+  if (!token) {
+    console.error('Missing proxy token');
+    return new Response(JSON.stringify({ error: 'Missing proxy token' }), {
+      status: 401,
       headers: {
         'Content-Type': 'application/json',
         ...getCorsHeaders(origin),
@@ -65,43 +102,78 @@ export default async function handler(request: Request) {
     });
   }
 
-  // Log request (only in development)
-  if (process.env.NODE_ENV !== 'production') {
-    console.log('Proxying request:', {
-      origin,
-      targetUrl: targetUrl.substring(0, 100) + '...',
-      method: request.method,
+  let verified: ProxyTokenResult;
+  try {
+    verified = await verifyProxyToken(token, request);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Token verification error:', message);
+    return new Response(JSON.stringify({ error: 'Proxy is not configured' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        ...getCorsHeaders(origin),
+      }
     });
   }
 
-  try {
-    // Fetch the stream
-    const headers: Record<string, string> = {
-      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      'Accept': '*/*',
-      'Accept-Language': 'en-US,en;q=0.9',
-      'Accept-Encoding': 'gzip, deflate, br',
-      'Connection': 'keep-alive',
-    };
-
-    // Forward Range header for video segments
-    const rangeHeader = request.headers.get('range');
-    if (rangeHeader) {
-      headers['Range'] = rangeHeader;
-    }
+  if ('error' in verified) {
+    return new Response(JSON.stringify({ error: verified.error }), {
+      status: 403,
+      headers: {
+        'Content-Type': 'application/json',
+        ...getCorsHeaders(origin),
+      }
+    });
+  }
 
-    // Add referer from target URL origin
-    try {
-      const targetUrlObj = new URL(targetUrl);
-      headers['Referer'] = targetUrlObj.origin + '/';
-      headers['Origin'] = targetUrlObj.origin;
-    } catch (e) {
-      console.warn('Could not set referer/origin headers');
+  const { headers: targetHeaders } = verified.target;
+  let targetUrl = verified.target.url;
+
+  // Path-style tokens sign an upstream directory (DASH BaseURL); the player appends the rest.
+  // Only tokens minted as prefixes qualify, and the path must stay inside their directory.
+  if (path !== null) {
+    if (!verified.target.prefix) {
+      return new Response(JSON.stringify({ error: 'Proxy token does not sign a directory' }), {
+        status: 403,
+        headers: {
+          'Content-Type': 'application/json',
+          ...getCorsHeaders(origin),
+        }
+      });
+    }
+    const directory = new URL('./', targetUrl).href;
+    const resolved = new URL(path.replace(/^\/+/, ''), directory);
+    if (!resolved.href.startsWith(directory)) {
+      return new Response(JSON.stringify({ error: 'Path escapes the signed directory' }), {
+        status: 403,
+        headers: {
+          'Content-Type': 'application/json',
+          ...getCorsHeaders(origin),
+        }
+      });
     }
+    resolved.search = query;
+    targetUrl = resolved.toString();
+  }
 
-    const response = await fetch(targetUrl, {
+  // Child playlists, keys, segments and renditions inherit this stream's headers and get their own token
+  const toProxyUrl = async (absoluteUrl: string) => {
+    const childToken = await mintProxyToken({ url: absoluteUrl, headers: targetHeaders }, request);
+    return `${url.origin}${PROXY_PATH}?t=${childToken}`;
+  };
+  const toProxyPrefix = async (directoryUrl: string) => {
+    const prefixToken = await mintProxyToken({ url: directoryUrl, headers: targetHeaders, prefix: true }, request);
+    return `${url.origin}${PROXY_PATH}/p/${prefixToken}/`;
+  };
+
+  try {
+    // Fetch the stream with the per-stream headers carried in the token
+    const headers = buildUpstreamHeaders(targetUrl, targetHeaders, request.headers.get('range'));
+
+    // Every redirect hop is re-checked against private ranges and the allow-list
+    const response = await safeFetch(targetUrl, {
       headers,
-      redirect: 'follow',
       signal: AbortSignal.timeout(30000), // 30 second timeout
     });
 
@@ -128,47 +200,33 @@ export default async function handler(request: Request) {
 
     const contentType = response.headers.get('content-type') || '';
 
+    // Manifests are detected from the content type or their first bytes,
+    // since many origins serve them as text/plain or octet-stream.
+    const { kind: manifestKind, body } = await detectManifest(response, contentType);
+
+    // Handle DASH manifests - rewrite BaseURL, segment templates and Location
+    if (manifestKind === 'dash') {
+      const text = await new Response(body).text();
+      const rewrittenManifest = await rewriteDashManifest(text, response.url || targetUrl, { toProxyUrl, toProxyPrefix });
+
+      return new Response(rewrittenManifest, {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/dash+xml',
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          'Pragma': 'no-cache',
+          'Expires': '0',
+          ...getCorsHeaders(origin),
+        },
+      });
+    }
+
     // Handle M3U8 playlists - rewrite URLs
-    if (contentType.includes('mpegurl') || 
-        contentType.includes('m3u8') || 
-        contentType.includes('m3u') || 
-        contentType.includes('vnd.apple.mpegurl') ||
-        targetUrl.toLowerCase().includes('.m3u8') ||
-        targetUrl.toLowerCase().includes('.m3u')) {
+    if (manifestKind === 'hls') {
+      const text = await new Response(body).text();
       
-      const text = await response.text();
-      
-      // Get base URL from response (handles redirects)
-      const baseUrl = new URL(response.url);
-      const basePath = baseUrl.pathname.substring(0, baseUrl.pathname.lastIndexOf('/') + 1);
-      
-      // Rewrite playlist URLs
-      const rewrittenPlaylist = text.split('\n').map(line => {
-        const trimmedLine = line.trim();
-        
-        // Skip comments and empty lines
-        if (!trimmedLine || trimmedLine.startsWith('#EXT')) {
-          // Handle URIs in tags (like encryption keys)
-          if (trimmedLine.includes('URI="')) {
-            return trimmedLine.replace(/URI="([^"]+)"/g, (match, uri) => {
-              const absoluteUrl = resolveUrl(uri, baseUrl, basePath);
-              const proxiedUrl = `${url.origin}${url.pathname}?url=${encodeURIComponent(absoluteUrl)}`;
-              return `URI="${proxiedUrl}"`;
-            });
-          }
-          return trimmedLine;
-        }
-        
-        // Rewrite segment/playlist URLs
-        if (!trimmedLine.startsWith('#')) {
-          const absoluteUrl = resolveUrl(trimmedLine, baseUrl, basePath);
-          return `${url.origin}${url.pathname}?url=${encodeURIComponent(absoluteUrl)}`;
-        }
-        
-        return trimmedLine;
-      }).join('\n');
-
-      console.log('Successfully proxied M3U8 playlist');
+      // Resolve against the final URL (handles redirects)
+      const rewrittenPlaylist = await rewriteHlsPlaylist(text, response.url || targetUrl, toProxyUrl);
 
       return new Response(rewrittenPlaylist, {
         status: 200,
@@ -212,14 +270,26 @@ export default async function handler(request: Request) {
       responseHeaders.set('Cache-Control', 'public, max-age=60');
     }
 
-    console.log('Successfully proxied stream segment');
-
-    return new Response(response.body, {
+    return new Response(body, {
       status: response.status,
       headers: responseHeaders,
     });
 
   } catch (error: any) {
+    if (error instanceof UnsafeUrlError) {
+      console.error('Blocked upstream:', error.message);
+      return new Response(
+        JSON.stringify({ error: 'Destination not allowed', details: error.message }),
+        {
+          status: 403,
+          headers: {
+            'Content-Type': 'application/json',
+            ...getCorsHeaders(origin),
+          }
+        }
+      );
+    }
+
     console.error('Proxy error:', {
       message: error.message,
       name: error.name,
@@ -241,23 +311,104 @@ export default async function handler(request: Request) {
   }
 }
 
-// Helper function to resolve relative URLs
-function resolveUrl(target: string, baseUrl: URL, basePath: string): string {
-  // Absolute URL
-  if (target.startsWith('http://') || target.startsWith('https://')) {
-    return target;
+// Longest catch-up window a page may ask for (ms)
+const MAX_CATCHUP_DURATION = 24 * 60 * 60 * 1000;
+
+/**
+ * POST { token, start, duration }: the catch-up URL of the channel a proxy
+ * token was minted for, built from the settings sealed into it. Anyone holding
+ * a channel's proxy URL may ask, since it only reaches that channel's upstream.
+ * POST { url, headers? } (admin): a proxy URL for any upstream.
+ */
+async function handleMintRequest(request: Request, origin: string | null): Promise<Response> {
+  const jsonHeaders = {
+    'Content-Type': 'application/json',
+    ...getCorsHeaders(origin),
+  };
+
+  // Only our own frontend may mint proxy URLs
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) {
+    return new Response(JSON.stringify({ error: 'Unauthorized origin' }), { status: 403, headers: jsonHeaders });
   }
-  
-  // Protocol-relative URL
-  if (target.startsWith('//')) {
-    return `${baseUrl.protocol}${target}`;
+
+  try {
+    const body = await request.json();
+    if (typeof body?.token === 'string') {
+      return await handleCatchupRequest(body, request, jsonHeaders);
+    }
+
+    // Signing arbitrary URLs would turn the proxy into an open relay
+    if (!(await verifyAdminRequest(request))) {
+      return new Response(JSON.stringify({ error: 'Admin sign-in required' }), { status: 401, headers: jsonHeaders });
+    }
+
+    const targetUrl = typeof body?.url === 'string' ? body.url.trim() : '';
+    if (!targetUrl) {
+      return new Response(JSON.stringify({ error: 'Missing url' }), { status: 400, headers: jsonHeaders });
+    }
+
+    try {
+      await assertSafeUrl(targetUrl);
+    } catch (error) {
+      if (!(error instanceof UnsafeUrlError)) throw error;
+      return new Response(
+        JSON.stringify({ error: 'Destination not allowed', details: error.message }),
+        { status: 403, headers: jsonHeaders }
+      );
+    }
+
+    const target: ProxyTarget = { url: targetUrl, headers: pickStreamHeaders(body.headers) };
+    return new Response(JSON.stringify({ url: await mintProxyUrl(target, request) }), { status: 200, headers: jsonHeaders });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Mint error:', message);
+    return new Response(
+      JSON.stringify({ error: 'Failed to create proxy URL', details: message }),
+      { status: 500, headers: jsonHeaders }
+    );
   }
-  
-  // Absolute path
-  if (target.startsWith('/')) {
-    return `${baseUrl.protocol}//${baseUrl.host}${target}`;
+}
+
+async function handleCatchupRequest(
+  body: { token: string; start?: unknown; duration?: unknown },
+  request: Request,
+  jsonHeaders: Record<string, string>
+): Promise<Response> {
+  const start = Number(body.start);
+  const duration = Number(body.duration);
+  const now = Date.now();
+  if (!isFinite(start) || !isFinite(duration) || duration <= 0 || duration > MAX_CATCHUP_DURATION) {
+    return new Response(JSON.stringify({ error: 'Invalid catch-up window' }), { status: 400, headers: jsonHeaders });
   }
-  
-  // Relative path
-  return `${baseUrl.protocol}//${baseUrl.host}${basePath}${target}`;
+
+  const verified = await verifyProxyToken(body.token, request);
+  if ('error' in verified) {
+    return new Response(JSON.stringify({ error: verified.error }), { status: 403, headers: jsonHeaders });
+  }
+
+  const { url, headers, catchup } = verified.target;
+  if (!catchup) {
+    return new Response(JSON.stringify({ error: 'Channel has no catch-up' }), { status: 400, headers: jsonHeaders });
+  }
+  // Only as far back as the channel says it keeps programmes
+  if (!isWithinCatchup(catchup, { start, duration }, now)) {
+    return new Response(JSON.stringify({ error: 'Outside the channel\'s catch-up window' }), { status: 400, headers: jsonHeaders });
+  }
+
+  const catchupUrl = buildCatchupUrl(url, catchup, { start, duration }, now);
+  if (!catchupUrl) {
+    return new Response(JSON.stringify({ error: 'Channel has no catch-up' }), { status: 400, headers: jsonHeaders });
+  }
+
+  try {
+    await assertSafeUrl(catchupUrl);
+  } catch (error) {
+    if (!(error instanceof UnsafeUrlError)) throw error;
+    return new Response(
+      JSON.stringify({ error: 'Destination not allowed', details: error.message }),
+      { status: 403, headers: jsonHeaders }
+    );
+  }
+
+  return new Response(JSON.stringify({ url: await mintProxyUrl({ url: catchupUrl, headers }, request) }), { status: 200, headers: jsonHeaders });
 }
@@ -1,4 +1,19 @@
 // api/parse-m3u.ts - SECURED WITH ORIGIN-ONLY VALIDATION
+import { UnsafeUrlError } from './_lib/url-safety';
+import { getCachedPlaylist, playlistVersion, PlaylistFetchError } from './_lib/playlist-cache';
+import { getMintedListing } from './_lib/minted-cache';
+import { sealGuideUrl } from './_lib/epg-cache';
+import { mintProxyUrl, streamKey } from './_lib/proxy-token';
+import { verifyAdminRequest } from './_lib/admin-auth';
+import { getDocument } from './_lib/firestore';
+import { hashString, slugify } from './_lib/ids';
+import { toHex, toKeySystem } from './_lib/drm';
+import type { DrmConfig } from './_lib/drm';
+import { resolveCatchup } from './_lib/catchup';
+import { manifestTypeFromUrl } from './_lib/manifest-sniffer';
+import { classifyVodEntry, toMovie, groupSeries } from './_lib/vod';
+import type { Movie, Series } from './_lib/vod';
+
 export const config = {
   runtime: 'edge',
 };
@@ -9,12 +24,55 @@ const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS
 
 interface Channel {
   id: string;
+  legacyId: string; // Position-based ID used before stable IDs, for migrating favorites and links
   name: string;
   logoUrl: string;
   streamUrl: string;
   categoryId: string;
   categoryName: string;
-  referer?: string;
+  tvgId?: string;
+  tvgName?: string;
+  tvgChno?: string;
+  groupTitle?: string;
+  tvgLanguage?: string;
+  tvgCountry?: string;
+  tvgShift?: string;
+  catchup?: string;
+  catchupDays?: number;
+  // Both sealed into the stream's proxy token, never sent to the page
+  catchupSource?: string;
+  attributes?: Record<string, string>;
+  headers?: Record<string, string>;
+  drm?: DrmConfig;
+  manifestType?: string;
+  streamKey?: string;
+}
+
+// Per-channel options collected from #EXTVLCOPT, #KODIPROP and #EXTHTTP lines
+interface ChannelOptions {
+  headers: Record<string, string>;
+  licenseType?: string;
+  licenseKey?: string;
+  manifestType?: string;
+}
+
+interface PlaylistGroup {
+  name: string;
+  count: number;
+}
+
+interface ParsedPlaylist {
+  channels: Channel[];
+  groups: PlaylistGroup[];
+  epgUrls: string[]; // XMLTV guides named by url-tvg / x-tvg-url on #EXTM3U
+  movies: Movie[];
+  series: Series[];
+}
+
+interface ExtinfEntry {
+  duration: number;
+  attributes: Record<string, string>;
+  title: string;
 }
 
 function getCorsHeaders(origin: string | null): Record<string, string> {
@@ -23,88 +81,373 @@ function getCorsHeaders(origin: string | null): Record<string, string> {
   return {
     'Access-Control-Allow-Origin': allowedOrigin,
     'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     'Access-Control-Max-Age': '86400',
   };
 }
 
-const parseM3U = (m3uContent: string, categoryId: string, categoryName: string): Channel[] => {
+const isWhitespace = (char: string) => char === ' ' || char === '\t';
+
+/**
+ * Tokenize an #EXTINF line into its duration, attributes and title.
+ * Values may be double-quoted, single-quoted or bare. The title is everything
+ * after the first comma that is not inside a quoted value, so titles may
+ * contain commas. Keys are lower-cased and the first occurrence of a
+ * duplicated key wins.
+ */
+const parseExtinf = (line: string): ExtinfEntry => {
+  const body = line.slice('#EXTINF:'.length);
+  const attributes: Record<string, string> = {};
+  let title = '';
+  let i = 0;
+
+  const durationMatch = body.match(/^\s*(-?\d+(?:\.\d+)?)/);
+  const duration = durationMatch ? parseFloat(durationMatch[1]) : -1;
+  if (durationMatch) i = durationMatch[0].length;
+
+  while (i < body.length) {
+    while (i < body.length && isWhitespace(body[i])) i++;
+    if (i >= body.length) break;
+
+    if (body[i] === ',') {
+      title = body.slice(i + 1).trim();
+      break;
+    }
+
+    const keyStart = i;
+    while (i < body.length && body[i] !== '=' && body[i] !== ',' && !isWhitespace(body[i])) i++;
+    const key = body.slice(keyStart, i).toLowerCase();
+
+    // Bare token without a value (e.g. a stray flag) - skip it
+    if (body[i] !== '=') continue;
+    i++;
+
+    let value = '';
+    const quote = body[i];
+    if (quote === '"' || quote === "'") {
+      const end = body.indexOf(quote, i + 1);
+      value = end === -1 ? body.slice(i + 1) : body.slice(i + 1, end);
+      i = end === -1 ? body.length : end + 1;
+    } else {
+      const valueStart = i;
+      while (i < body.length && body[i] !== ',' && !isWhitespace(body[i])) i++;
+      value = body.slice(valueStart, i);
+    }
+
+    if (key && !(key in attributes)) {
+      attributes[key] = value.trim();
+    }
+  }
+
+  return { duration, attributes, title };
+};
+
+// "user-agent" -> "User-Agent"; players spell the referer header both ways
+const canonicalHeaderName = (name: string): string => {
+  const lower = name.trim().toLowerCase();
+  if (lower === 'referrer') return 'Referer';
+  return lower.replace(/(^|-)([a-z])/g, (_, dash, char) => dash + char.toUpperCase());
+};
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Parse "Key=Value&Key2=Value2" header lists used by the url|... suffix and KODIPROP stream_headers
+const parseHeaderList = (value: string, headers: Record<string, string>) => {
+  value.split('&').forEach(pair => {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) return;
+    const name = pair.slice(0, separator).trim();
+    const headerValue = safeDecode(pair.slice(separator + 1).trim());
+    if (name && headerValue) headers[canonicalHeaderName(name)] = headerValue;
+  });
+};
+
+const applyVlcOption = (option: string, options: ChannelOptions) => {
+  const separator = option.indexOf('=');
+  if (separator <= 0) return;
+  const key = option.slice(0, separator).trim().toLowerCase();
+  const value = option.slice(separator + 1).trim();
+  if (!value) return;
+
+  if (key === 'http-user-agent') options.headers['User-Agent'] = value;
+  else if (key === 'http-referrer' || key === 'http-referer') options.headers['Referer'] = value;
+  else if (key === 'http-origin') options.headers['Origin'] = value;
+  else if (key === 'http-cookie') options.headers['Cookie'] = value;
+};
+
+const applyKodiProp = (prop: string, options: ChannelOptions) => {
+  const separator = prop.indexOf('=');
+  if (separator <= 0) return;
+  const key = prop.slice(0, separator).trim().toLowerCase();
+  const value = prop.slice(separator + 1).trim();
+  if (!value) return;
+
+  if (key === 'inputstream.adaptive.license_type') options.licenseType = value;
+  else if (key === 'inputstream.adaptive.license_key') options.licenseKey = value;
+  else if (key === 'inputstream.adaptive.manifest_type') options.manifestType = value.toLowerCase();
+  else if (key === 'inputstream.adaptive.stream_headers') parseHeaderList(value, options.headers);
+};
+
+/**
+ * Turn KODIPROP license_type/license_key into a player DRM setting. ClearKey
+ * keys are "kid:key" pairs (comma separated for several keys) or a
+ * {"kid": "key"} object; any other key is "url|Header=Value&...|..." where
+ * only the URL and headers concern a browser player.
+ */
+const toDrmConfig = (licenseType: string, licenseKey: string): DrmConfig | undefined => {
+  const keySystem = toKeySystem(licenseType);
+  if (!keySystem) return undefined;
+
+  if (keySystem === 'org.w3.clearkey' && !/^https?:\/\//i.test(licenseKey)) {
+    const clearKeys: Record<string, string> = {};
+    try {
+      const pairs: [string, unknown][] = licenseKey.startsWith('{')
+        ? Object.entries(JSON.parse(licenseKey))
+        : licenseKey.split(',').map(pair => pair.split(':') as [string, string]);
+      pairs.forEach(([kid, key]) => {
+        if (kid && typeof key === 'string' && key) clearKeys[toHex(kid)] = toHex(key);
+      });
+    } catch {
+      return undefined;
+    }
+    return Object.keys(clearKeys).length > 0 ? { keySystem, clearKeys } : undefined;
+  }
+
+  const [licenseUrl, headerList] = licenseKey.split('|');
+  const licenseHeaders: Record<string, string> = {};
+  if (headerList) parseHeaderList(headerList, licenseHeaders);
+  return {
+    keySystem,
+    licenseUrl: licenseUrl.trim(),
+    ...(Object.keys(licenseHeaders).length > 0 && { licenseHeaders }),
+  };
+};
+
+const applyHttpJson = (json: string, options: ChannelOptions) => {
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== 'object') return;
+    Object.entries(parsed).forEach(([name, value]) => {
+      if (typeof value === 'string' && value) options.headers[canonicalHeaderName(name)] = value;
+    });
+  } catch {
+    // Malformed #EXTHTTP lines are ignored rather than failing the whole playlist
+  }
+};
+
+const emptyOptions = (): ChannelOptions => ({ headers: {} });
+
+/**
+ * Give every channel an ID that does not depend on its position in the playlist:
+ * - tvg-id when present: "<category>_t-<tvg-id>"
+ * - otherwise the name plus a hash of the stream URL: "<category>_<name>-<hash>"
+ * Channels sharing a tvg-id (HD/SD variants, backup streams) all get the URL hash
+ * appended, and exact duplicates (same key and URL) are numbered in playlist order.
+ */
+const assignChannelIds = (channels: Channel[], categoryId: string) => {
+  const baseKeys = channels.map(channel =>
+    channel.tvgId && slugify(channel.tvgId)
+      ? `t-${slugify(channel.tvgId)}`
+      : `${slugify(channel.name) || 'channel'}-${hashString(channel.streamUrl)}`
+  );
+
+  const baseCounts = new Map<string, number>();
+  baseKeys.forEach(key => baseCounts.set(key, (baseCounts.get(key) || 0) + 1));
+
+  const used = new Map<string, number>();
+  channels.forEach((channel, index) => {
+    let key = baseKeys[index];
+    if (channel.tvgId && (baseCounts.get(key) || 0) > 1) {
+      key = `${key}-${hashString(channel.streamUrl)}`;
+    }
+
+    const seen = used.get(key) || 0;
+    used.set(key, seen + 1);
+    if (seen > 0) key = `${key}-${seen + 1}`;
+
+    channel.id = `${categoryId}_${key}`;
+  });
+};
+
+const parseM3U = (m3uContent: string, categoryId: string, categoryName: string): ParsedPlaylist => {
   const lines = m3uContent.split('\n').map(line => line.trim()).filter(line => line);
   const channels: Channel[] = [];
+  // VOD entries are listed in the library instead of among the channels
+  const movieEntries: Channel[] = [];
+  const episodeEntries: Channel[] = [];
+  let entryCount = 0;
+  const groupCounts = new Map<string, number>();
   let currentChannel: Partial<Channel> = {};
+  // Option lines may come before or after #EXTINF, so they are kept until the URL line
+  let currentOptions = emptyOptions();
+
+  const epgUrls: string[] = [];
+  // Catch-up attributes on #EXTM3U apply to every channel that does not set its own
+  let catchupDefaults: Record<string, string> = {};
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
 
-    if (line.startsWith('#EXTINF:')) {
-      let channelName = 'Unknown Channel';
-      
-      const tvgNameMatch = line.match(/tvg-name="([^"]+)"/);
-      if (tvgNameMatch) {
-        channelName = tvgNameMatch[1].trim();
-      } else {
-        const groupTitleMatch = line.match(/group-title="[^"]*",\s*(.+)$/);
-        if (groupTitleMatch) {
-          channelName = groupTitleMatch[1].trim();
-        } else {
-          const nameMatch = line.match(/,\s*([^,]+)$/);
-          if (nameMatch) {
-            channelName = nameMatch[1].trim();
-          }
-        }
-      }
-      
-      const logoMatch = line.match(/tvg-logo="([^"]+)"/);
-      const logoUrl = logoMatch ? logoMatch[1] : '/channel-placeholder.svg';
+    if (line.startsWith('#EXTM3U')) {
+      // The header takes the same attribute syntax as #EXTINF; several guides may be comma-separated
+      const { attributes } = parseExtinf(`#EXTINF:${line.slice('#EXTM3U'.length)}`);
+      const guides = attributes['url-tvg'] || attributes['x-tvg-url'] || '';
+      guides.split(',').map(url => url.trim()).filter(url => /^https?:\/\//i.test(url)).forEach(url => {
+        if (!epgUrls.includes(url)) epgUrls.push(url);
+      });
+      catchupDefaults = Object.fromEntries(
+        Object.entries(attributes).filter(([key]) => key.startsWith('catchup') || key === 'timeshift')
+      );
+    } else if (line.startsWith('#EXTINF:')) {
+      const { attributes: ownAttributes, title } = parseExtinf(line);
+      const attributes = { ...catchupDefaults, ...ownAttributes };
+      const channelName = attributes['tvg-name'] || title || 'Unknown Channel';
+      const catchupDays = parseInt(attributes['catchup-days'] ?? attributes['timeshift'] ?? '', 10);
+      const catchup = attributes['catchup'] || attributes['catchup-type'];
 
       currentChannel = {
         name: channelName,
-        logoUrl: logoUrl,
+        logoUrl: attributes['tvg-logo'] || '/channel-placeholder.svg',
         categoryId,
         categoryName,
+        tvgId: attributes['tvg-id'] || undefined,
+        tvgName: attributes['tvg-name'] || undefined,
+        tvgChno: attributes['tvg-chno'] || attributes['channel-number'] || undefined,
+        groupTitle: attributes['group-title'] || undefined,
+        tvgLanguage: attributes['tvg-language'] || undefined,
+        tvgCountry: attributes['tvg-country'] || undefined,
+        tvgShift: attributes['tvg-shift'] || undefined,
+        catchup: catchup ? catchup.toLowerCase() : undefined,
+        catchupDays: isFinite(catchupDays) ? catchupDays : undefined,
+        catchupSource: attributes['catchup-source'] || undefined,
+        attributes,
       };
+    } else if (line.startsWith('#EXTVLCOPT:')) {
+      applyVlcOption(line.slice('#EXTVLCOPT:'.length), currentOptions);
+    } else if (line.startsWith('#KODIPROP:')) {
+      applyKodiProp(line.slice('#KODIPROP:'.length), currentOptions);
+    } else if (line.startsWith('#EXTHTTP:')) {
+      applyHttpJson(line.slice('#EXTHTTP:'.length), currentOptions);
+    } else if (line.startsWith('#EXTGRP:') && currentChannel.name && !currentChannel.groupTitle) {
+      // Older playlists put the group on its own line instead of group-title
+      currentChannel.groupTitle = line.slice('#EXTGRP:'.length).trim() || undefined;
     } else if (line && !line.startsWith('#') && currentChannel.name) {
       let streamUrl = line;
-      let referer = '';
-      
-      if (line.includes('|Referer=') || line.includes('|referer=')) {
-        const parts = line.split('|');
-        streamUrl = parts[0].trim();
-        
-        const refererPart = parts[1];
-        if (refererPart) {
-          const refererMatch = refererPart.match(/(?:Referer|referer)=(.+)/);
-          if (refererMatch) {
-            referer = refererMatch[1].trim();
-          }
-        }
+
+      // Kodi-style "url|Referer=...&User-Agent=..." suffix
+      const pipeIndex = line.indexOf('|');
+      if (pipeIndex !== -1) {
+        streamUrl = line.slice(0, pipeIndex).trim();
+        parseHeaderList(line.slice(pipeIndex + 1), currentOptions.headers);
       }
       
       const cleanChannelName = currentChannel.name.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
-      const channelId = `${categoryId}_${cleanChannelName}_${channels.length}`;
-      
-      const finalStreamUrl = referer 
-        ? `${streamUrl}?__referer=${encodeURIComponent(referer)}`
-        : streamUrl;
       
       const channel: Channel = {
-        id: channelId,
+        ...currentChannel,
+        id: '', // Assigned once the whole playlist is known
+        legacyId: `${categoryId}_${cleanChannelName}_${entryCount++}`,
         name: currentChannel.name,
         logoUrl: currentChannel.logoUrl || '/channel-placeholder.svg',
-        streamUrl: finalStreamUrl,
+        streamUrl,
         categoryId,
         categoryName,
       };
+
+      if (Object.keys(currentOptions.headers).length > 0) {
+        channel.headers = currentOptions.headers;
+      }
+      if (currentOptions.licenseType && currentOptions.licenseKey) {
+        const drm = toDrmConfig(currentOptions.licenseType, currentOptions.licenseKey);
+        if (drm) channel.drm = drm;
+      }
+      if (currentOptions.manifestType) {
+        channel.manifestType = currentOptions.manifestType;
+      }
       
-      channels.push(channel);
+      const vodKind = classifyVodEntry(
+        channel.name,
+        streamUrl,
+        channel.attributes?.['tvg-type'] || channel.attributes?.['type']
+      );
+      if (vodKind === 'movie') {
+        movieEntries.push(channel);
+      } else if (vodKind === 'series') {
+        episodeEntries.push(channel);
+      } else {
+        channels.push(channel);
+        if (channel.groupTitle) {
+          groupCounts.set(channel.groupTitle, (groupCounts.get(channel.groupTitle) || 0) + 1);
+        }
+      }
       currentChannel = {};
+      currentOptions = emptyOptions();
     }
   }
 
-  return channels;
+  assignChannelIds(channels, categoryId);
+  assignChannelIds(movieEntries, categoryId);
+  assignChannelIds(episodeEntries, categoryId);
+
+  const groups = Array.from(groupCounts, ([name, count]) => ({ name, count }));
+  return {
+    channels,
+    groups,
+    epgUrls,
+    movies: movieEntries.map(entry => toMovie(entry, categoryId, categoryName)),
+    series: groupSeries(episodeEntries, categoryId, categoryName),
+  };
+};
+
+/**
+ * Replace every stream URL with a proxy URL. The upstream URL, its request
+ * headers and the channel's catch-up settings are sealed into the token, so
+ * the page never sees them; catch-up URLs are built from the token on request.
+ * Guide URLs are sealed too, so /api/epg only loads guides playlists name.
+ */
+const mintPlaylist = async (playlist: ParsedPlaylist, request: Request): Promise<ParsedPlaylist> => {
+  const channels = await Promise.all(playlist.channels.map(async ({ catchupSource, headers, ...channel }): Promise<Channel> => {
+    const catchup = resolveCatchup(channel.streamUrl, channel.catchup, catchupSource, channel.catchupDays);
+    const attributes = { ...channel.attributes };
+    delete attributes['catchup-source'];
+
+    return {
+      ...channel,
+      streamUrl: await mintProxyUrl({ url: channel.streamUrl, headers, ...(catchup && { catchup }) }, request),
+      streamKey: await streamKey(channel.streamUrl),
+      manifestType: channel.manifestType || manifestTypeFromUrl(channel.streamUrl),
+      // Settings that cannot produce a catch-up URL would only offer programmes that never play
+      catchup: catchup?.mode,
+      catchupDays: catchup?.days,
+      attributes,
+    };
+  }));
+
+  const movies = await Promise.all(playlist.movies.map(async ({ headers, ...movie }) => ({
+    ...movie,
+    streamUrl: await mintProxyUrl({ url: movie.streamUrl, headers }, request),
+  })));
+
+  const series = await Promise.all(playlist.series.map(async item => ({
+    ...item,
+    episodes: await Promise.all((item.episodes || []).map(async ({ headers, ...episode }) => ({
+      ...episode,
+      streamUrl: await mintProxyUrl({ url: episode.streamUrl, headers }, request),
+    }))),
+  })));
+
+  const epgUrls = await Promise.all(playlist.epgUrls.map(sealGuideUrl));
+
+  return { ...playlist, channels, movies, series, epgUrls };
 };
 
-export default async function handler(request: Request) {
+export default async function handler(request: Request, context?: { waitUntil?: (promise: Promise<unknown>) => void }) {
   const origin = request.headers.get('origin');
   
   // Handle CORS preflight
@@ -144,7 +487,7 @@ export default async function handler(request: Request) {
 
   try {
     const body = await request.json();
-    const { categoryId, categoryName, m3uUrl } = body;
+    const { categoryId, categoryName, refresh } = body;
 
     if (!categoryId || !categoryName) {
       return new Response(
@@ -159,11 +502,15 @@ export default async function handler(request: Request) {
       );
     }
 
-    if (!m3uUrl) {
+    // Forcing a refresh bypasses the cache, and previewing fetches a URL that is not
+    // stored yet, so only admins may do either
+    const isAdmin = (refresh || body.m3uUrl) ? await verifyAdminRequest(request) : false;
+
+    if (body.m3uUrl && !isAdmin) {
       return new Response(
-        JSON.stringify({ error: 'Missing m3uUrl' }),
+        JSON.stringify({ error: 'Admin sign-in required to preview playlists' }),
         { 
-          status: 400,
+          status: 401,
           headers: { 
             'Content-Type': 'application/json',
             ...getCorsHeaders(origin),
@@ -172,13 +519,15 @@ export default async function handler(request: Request) {
       );
     }
 
-    const response = await fetch(m3uUrl);
-    
-    if (!response.ok) {
+    // Viewers name a category; its playlist URL is read from the stored category
+    const category = body.m3uUrl ? null : await getDocument(`categories/${encodeURIComponent(String(categoryId))}`);
+    const m3uUrl = body.m3uUrl || category?.m3uUrl;
+
+    if (typeof m3uUrl !== 'string' || !m3uUrl) {
       return new Response(
-        JSON.stringify({ error: `Failed to fetch M3U: ${response.statusText}` }),
+        JSON.stringify({ error: category ? 'Category has no playlist URL' : 'Unknown category' }),
         { 
-          status: response.status,
+          status: category ? 400 : 404,
           headers: { 
             'Content-Type': 'application/json',
             ...getCorsHeaders(origin),
@@ -187,22 +536,73 @@ export default async function handler(request: Request) {
       );
     }
 
-    const m3uContent = await response.text();
-    const channels = parseM3U(m3uContent, categoryId, categoryName);
+    if (refresh && !isAdmin) {
+      return new Response(
+        JSON.stringify({ error: 'Admin sign-in required to refresh playlists' }),
+        { 
+          status: 401,
+          headers: { 
+            'Content-Type': 'application/json',
+            ...getCorsHeaders(origin),
+          }
+        }
+      );
+    }
+
+    const { playlist, status } = await getCachedPlaylist(m3uUrl, {
+      forceRefresh: !!refresh,
+      waitUntil: context?.waitUntil?.bind(context),
+    });
+
+    // Parsed and minted once per playlist version and category, not on every request
+    const { channels, groups, epgUrls, movies, series } = await getMintedListing(
+      `m3u|${m3uUrl}|${categoryId}|${categoryName}`,
+      String(playlistVersion(playlist)),
+      () => mintPlaylist(parseM3U(playlist.content, categoryId, categoryName), request)
+    );
 
     return new Response(
-      JSON.stringify({ channels }),
+      JSON.stringify({ channels, groups, epgUrls, movies, series }),
       {
         status: 200,
         headers: {
           'Content-Type': 'application/json',
           ...getCorsHeaders(origin),
-          'Cache-Control': 'public, max-age=300',
+          // Stream URLs are signed, expire and may be bound to this client
+          'Cache-Control': 'private, no-store',
+          'X-Playlist-Cache': status,
+          'X-Playlist-Fetched-At': new Date(playlist.fetchedAt).toISOString(),
         },
       }
     );
 
   } catch (error: any) {
+    if (error instanceof PlaylistFetchError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { 
+          status: error.status,
+          headers: { 
+            'Content-Type': 'application/json',
+            ...getCorsHeaders(origin),
+          }
+        }
+      );
+    }
+
+    if (error instanceof UnsafeUrlError) {
+      return new Response(
+        JSON.stringify({ error: 'Playlist URL not allowed', details: error.message }),
+        { 
+          status: 403,
+          headers: { 
+            'Content-Type': 'application/json',
+            ...getCorsHeaders(origin),
+          }
+        }
+      );
+    }
+
     return new Response(
       JSON.stringify({ 
         error: 'Failed to parse M3U playlist',
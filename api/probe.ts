@@ -0,0 +1,101 @@
+// api/probe.ts - Stream health checks for the admin panel
+//
+// POST { streams: [{ id, url, headers? }] } (admin)
+//   Returns { results: { [id]: ProbeResult } }. URLs may be upstream URLs or the
+//   proxy and Stalker links channels carry; those are opened first, so the probe
+//   reaches the same upstream a viewer's player would.
+import { verifyAdminRequest } from './_lib/admin-auth';
+import { probeChannelStream } from './_lib/stream-probe';
+import type { ProbeResult, StreamReference } from './_lib/stream-probe';
+
+export const config = {
+  runtime: 'edge',
+};
+
+const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS
+  ? process.env.ALLOWED_ORIGINS.split(',').map(origin => origin.trim())
+  : ['https://livetvpro.vercel.app'];
+
+// Keep each request well inside the edge function time limit
+const MAX_STREAMS = 20;
+const CONCURRENCY = 5;
+
+interface ProbeRequest extends StreamReference {
+  id: string;
+}
+
+function getCorsHeaders(origin: string | null): Record<string, string> {
+  const allowedOrigin = (origin && ALLOWED_ORIGINS.includes(origin)) ? origin : ALLOWED_ORIGINS[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+function jsonResponse(body: unknown, status: number, origin: string | null, extraHeaders: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getCorsHeaders(origin),
+      ...extraHeaders,
+    },
+  });
+}
+
+export default async function handler(request: Request) {
+  const origin = request.headers.get('origin');
+
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: getCorsHeaders(origin),
+    });
+  }
+
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) {
+    return jsonResponse({ error: 'Unauthorized origin' }, 403, origin);
+  }
+
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, origin);
+  }
+
+  // Probing makes the server fetch arbitrary streams, so it is an admin tool
+  if (!(await verifyAdminRequest(request))) {
+    return jsonResponse({ error: 'Admin sign-in required' }, 401, origin);
+  }
+
+  try {
+    const body = await request.json();
+    const streams: ProbeRequest[] = (Array.isArray(body?.streams) ? body.streams : [])
+      .filter((stream: ProbeRequest) => typeof stream?.id === 'string' && typeof stream.url === 'string' && stream.url);
+
+    if (streams.length === 0) {
+      return jsonResponse({ error: 'No streams to check' }, 400, origin);
+    }
+    if (streams.length > MAX_STREAMS) {
+      return jsonResponse({ error: `At most ${MAX_STREAMS} streams per request` }, 400, origin);
+    }
+
+    const results: Record<string, ProbeResult> = {};
+    let next = 0;
+    const worker = async () => {
+      while (next < streams.length) {
+        const stream = streams[next++];
+        results[stream.id] = await probeChannelStream(stream, request);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, streams.length) }, worker));
+
+    return jsonResponse({ results }, 200, origin, { 'Cache-Control': 'no-store' });
+  } catch (error) {
+    return jsonResponse({
+      error: 'Failed to check streams',
+      details: error instanceof Error ? error.message : String(error),
+    }, 500, origin);
+  }
+}
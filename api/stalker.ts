@@ -0,0 +1,266 @@
+// api/stalker.ts - Ministra/Stalker portal as a category source
+//
+// POST { action: 'connect', portal, mac } (admin)
+//   Checks that the portal accepts the MAC and returns the sealed source to store
+//   on the category, plus the portal's genres to choose from.
+// POST { action: 'channels', categoryId, categoryName, source, categoryIds?, refresh? }
+//   Returns { channels, groups, epgUrls } in the same shape as /api/parse-m3u.
+// GET ?link=<sealed link>
+//   Resolves a channel's short-lived stream URL with create_link and redirects to
+//   the stream proxy. Channel stream URLs point here.
+import { assertSafeUrl, UnsafeUrlError } from './_lib/url-safety';
+import { getCachedPlaylist } from './_lib/playlist-cache';
+import { verifyAdminRequest } from './_lib/admin-auth';
+import { mintProxyToken } from './_lib/proxy-token';
+import {
+  normaliseStalkerPortal,
+  normaliseMac,
+  sealStalkerSource,
+  openStalkerSource,
+  sealStalkerLink,
+  openStalkerLink,
+  connectStalker,
+  getStalkerGenres,
+  getStalkerChannels,
+  createStalkerLink,
+  StalkerError,
+  STB_USER_AGENT,
+} from './_lib/stalker';
+import type { StalkerCredentials, StalkerChannel, StalkerGenre } from './_lib/stalker';
+
+export const config = {
+  runtime: 'edge',
+};
+
+const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS
+  ? process.env.ALLOWED_ORIGINS.split(',').map(origin => origin.trim())
+  : ['https://livetvpro.vercel.app'];
+
+const PROXY_PATH = '/api/m3u8-proxy';
+const LINK_PATH = '/api/stalker';
+
+interface Channel {
+  id: string;
+  name: string;
+  logoUrl: string;
+  streamUrl: string;
+  categoryId: string;
+  categoryName: string;
+  tvgId?: string;
+  tvgChno?: string;
+  groupTitle?: string;
+}
+
+interface PortalListing {
+  genres: StalkerGenre[];
+  channels: StalkerChannel[];
+}
+
+type WaitUntil = (promise: Promise<unknown>) => void;
+
+function getCorsHeaders(origin: string | null): Record<string, string> {
+  const allowedOrigin = (origin && ALLOWED_ORIGINS.includes(origin)) ? origin : ALLOWED_ORIGINS[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+function jsonResponse(body: unknown, status: number, origin: string | null, extraHeaders: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getCorsHeaders(origin),
+      ...extraHeaders,
+    },
+  });
+}
+
+/**
+ * Genres and channels of a portal, through the playlist cache. The portal needs
+ * a session rather than a plain GET, so the cache is handed a loader.
+ */
+async function getListing(
+  credentials: StalkerCredentials,
+  options: { forceRefresh?: boolean; waitUntil?: WaitUntil }
+) {
+  const { playlist, status } = await getCachedPlaylist(`stalker:${credentials.portal}|${credentials.mac}`, {
+    ...options,
+    load: async () => {
+      const [genres, channels] = await Promise.all([
+        getStalkerGenres(credentials),
+        getStalkerChannels(credentials),
+      ]);
+      return JSON.stringify({ genres, channels });
+    },
+  });
+  return { listing: JSON.parse(playlist.content) as PortalListing, status };
+}
+
+async function handleConnect(body: Record<string, unknown>, request: Request, origin: string | null): Promise<Response> {
+  // Sealing credentials is an admin action
+  if (!(await verifyAdminRequest(request))) {
+    return jsonResponse({ error: 'Admin sign-in required' }, 401, origin);
+  }
+
+  const { portal } = body;
+  const mac = typeof body.mac === 'string' ? normaliseMac(body.mac) : null;
+  if (typeof portal !== 'string' || !portal) {
+    return jsonResponse({ error: 'Missing portal URL' }, 400, origin);
+  }
+  if (!mac) {
+    return jsonResponse({ error: 'Invalid MAC address' }, 400, origin);
+  }
+
+  let credentials: StalkerCredentials;
+  try {
+    credentials = { portal: normaliseStalkerPortal(portal), mac };
+  } catch {
+    return jsonResponse({ error: 'Invalid portal URL' }, 400, origin);
+  }
+  await assertSafeUrl(credentials.portal);
+
+  await connectStalker(credentials);
+  const genres = await getStalkerGenres(credentials);
+
+  return jsonResponse({
+    source: await sealStalkerSource(credentials),
+    portal: credentials.portal,
+    categories: genres.map(genre => ({ id: genre.id, name: genre.title })),
+  }, 200, origin);
+}
+
+async function handleChannels(
+  body: Record<string, unknown>,
+  request: Request,
+  origin: string | null,
+  waitUntil?: WaitUntil
+): Promise<Response> {
+  const { categoryId, categoryName, source, refresh } = body;
+  if (typeof categoryId !== 'string' || typeof categoryName !== 'string' || !categoryId || !categoryName) {
+    return jsonResponse({ error: 'Missing categoryId or categoryName' }, 400, origin);
+  }
+
+  const credentials = await openStalkerSource(typeof source === 'string' ? source : '');
+  if (!credentials) {
+    return jsonResponse({ error: 'Invalid Stalker source; reconnect the category in the admin panel' }, 400, origin);
+  }
+
+  // Forcing a refresh bypasses the cache, so only admins may do it
+  if (refresh && !(await verifyAdminRequest(request))) {
+    return jsonResponse({ error: 'Admin sign-in required to refresh playlists' }, 401, origin);
+  }
+
+  const { listing, status } = await getListing(credentials, { forceRefresh: !!refresh, waitUntil });
+
+  const includedIds = Array.isArray(body.categoryIds) ? body.categoryIds.map(String) : [];
+  const genreNames = new Map(listing.genres.map(genre => [genre.id, genre.title]));
+
+  const channels: Channel[] = await Promise.all(
+    listing.channels
+      .filter(channel => includedIds.length === 0 || includedIds.includes(channel.genreId || ''))
+      .map(async channel => ({
+        // Portal channel IDs are stable, so they make stable channel IDs
+        id: `${categoryId}_s-${channel.id}`,
+        name: channel.name || 'Unknown Channel',
+        logoUrl: channel.logo || '/channel-placeholder.svg',
+        streamUrl: `${LINK_PATH}?link=${await sealStalkerLink(credentials, channel.cmd)}`,
+        categoryId,
+        categoryName,
+        tvgId: channel.xmltvId,
+        tvgChno: channel.number,
+        groupTitle: (channel.genreId && genreNames.get(channel.genreId)) || undefined,
+      }))
+  );
+
+  const groupCounts = new Map<string, number>();
+  channels.forEach(channel => {
+    if (channel.groupTitle) groupCounts.set(channel.groupTitle, (groupCounts.get(channel.groupTitle) || 0) + 1);
+  });
+  const groups = Array.from(groupCounts, ([name, count]) => ({ name, count }));
+
+  return jsonResponse(
+    // Portals serve their guide through their own API rather than XMLTV
+    { channels, groups, epgUrls: [] },
+    200,
+    origin,
+    {
+      // Stream links are sealed per response and expire
+      'Cache-Control': 'private, no-store',
+      'X-Playlist-Cache': status,
+    }
+  );
+}
+
+async function handleResolveLink(request: Request, origin: string | null): Promise<Response> {
+  const link = new URL(request.url).searchParams.get('link') || '';
+  const opened = await openStalkerLink(link);
+  if (!opened) {
+    return jsonResponse({ error: 'Invalid or expired stream link' }, 403, origin);
+  }
+
+  const streamUrl = await createStalkerLink(opened.credentials, opened.cmd);
+  await assertSafeUrl(streamUrl);
+
+  // Some portals only serve streams to set-top box user agents
+  const token = await mintProxyToken({ url: streamUrl, headers: { 'User-Agent': STB_USER_AGENT } }, request);
+
+  return new Response(null, {
+    status: 302,
+    headers: {
+      'Location': `${PROXY_PATH}?t=${token}`,
+      'Cache-Control': 'no-store',
+      ...getCorsHeaders(origin),
+    },
+  });
+}
+
+export default async function handler(request: Request, context?: { waitUntil?: WaitUntil }) {
+  const origin = request.headers.get('origin');
+
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: getCorsHeaders(origin),
+    });
+  }
+
+  try {
+    if (request.method === 'GET') {
+      // Players fetch same-origin without an Origin header; the sealed link covers those
+      if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+        return jsonResponse({ error: 'Unauthorized origin' }, 403, origin);
+      }
+      return await handleResolveLink(request, origin);
+    }
+
+    if (!origin || !ALLOWED_ORIGINS.includes(origin)) {
+      return jsonResponse({ error: 'Unauthorized origin' }, 403, origin);
+    }
+
+    if (request.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405, origin);
+    }
+
+    const body = await request.json();
+    if (body?.action === 'connect') {
+      return await handleConnect(body, request, origin);
+    }
+    return await handleChannels(body || {}, request, origin, context?.waitUntil?.bind(context));
+  } catch (error) {
+    if (error instanceof StalkerError) {
+      return jsonResponse({ error: error.message }, error.status === 401 ? 502 : error.status, origin);
+    }
+    if (error instanceof UnsafeUrlError) {
+      return jsonResponse({ error: 'Stalker portal not allowed', details: error.message }, 403, origin);
+    }
+    return jsonResponse({
+      error: 'Failed to load Stalker portal',
+      details: error instanceof Error ? error.message : String(error),
+    }, 500, origin);
+  }
+}
@@ -0,0 +1,441 @@
+// api/xtream.ts - Xtream Codes server as a category source
+//
+// POST { action: 'connect', server, username, password } (admin)
+//   Checks the login and returns the sealed source to store on the category,
+//   plus the server's live categories to choose from.
+// POST { action: 'channels', categoryId, categoryName, source, categoryIds?, refresh? }
+//   Returns { channels, groups, epgUrls } in the same shape as /api/parse-m3u.
+// POST { action: 'library', categoryId, categoryName, source, refresh? }
+//   Returns { movies, series } from the server's VOD and series listings.
+// POST { action: 'series', categoryId, source, seriesId }
+//   Returns { episodes } of one series.
+// Stream URLs are minted as signed proxy URLs so credentials never reach the page.
+// Minted listings are kept until the server's listing changes (see minted-cache).
+import { assertSafeUrl, UnsafeUrlError } from './_lib/url-safety';
+import { getCachedPlaylist, playlistVersion, PlaylistFetchError } from './_lib/playlist-cache';
+import type { PlaylistCacheStatus } from './_lib/playlist-cache';
+import { getMintedListing } from './_lib/minted-cache';
+import { verifyAdminRequest } from './_lib/admin-auth';
+import { mintProxyUrl, streamKey } from './_lib/proxy-token';
+import {
+  normaliseXtreamServer,
+  sealXtreamSource,
+  openXtreamSource,
+  xtreamApiUrl,
+  xtreamStreamUrl,
+  XTREAM_GUIDE_PREFIX,
+} from './_lib/xtream';
+import type { XtreamCredentials } from './_lib/xtream';
+import { parseYear } from './_lib/vod';
+import type { Movie, Series, Episode } from './_lib/vod';
+
+export const config = {
+  runtime: 'edge',
+};
+
+const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS
+  ? process.env.ALLOWED_ORIGINS.split(',').map(origin => origin.trim())
+  : ['https://livetvpro.vercel.app'];
+
+interface XtreamCategory {
+  category_id: string | number;
+  category_name: string;
+}
+
+interface XtreamStream {
+  num?: number | string;
+  name?: string;
+  stream_id: number | string;
+  stream_icon?: string;
+  epg_channel_id?: string | null;
+  category_id?: string | number | null;
+  container_extension?: string;
+  rating?: string | number;
+}
+
+interface XtreamSeries {
+  series_id: number | string;
+  name?: string;
+  cover?: string;
+  plot?: string;
+  genre?: string;
+  releaseDate?: string;
+  rating?: string | number;
+  category_id?: string | number | null;
+}
+
+interface XtreamEpisode {
+  id: string | number;
+  episode_num?: number | string;
+  title?: string;
+  season?: number | string;
+  container_extension?: string;
+  info?: { movie_image?: string; plot?: string; duration_secs?: number | string };
+}
+
+interface XtreamSeriesInfo {
+  episodes?: Record<string, XtreamEpisode[]> | XtreamEpisode[];
+}
+
+interface Channel {
+  id: string;
+  name: string;
+  logoUrl: string;
+  streamUrl: string;
+  streamKey?: string;
+  categoryId: string;
+  categoryName: string;
+  tvgId?: string;
+  tvgChno?: string;
+  groupTitle?: string;
+  manifestType?: string;
+}
+
+type WaitUntil = (promise: Promise<unknown>) => void;
+
+function getCorsHeaders(origin: string | null): Record<string, string> {
+  const allowedOrigin = (origin && ALLOWED_ORIGINS.includes(origin)) ? origin : ALLOWED_ORIGINS[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+function jsonResponse(body: unknown, status: number, origin: string | null, extraHeaders: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getCorsHeaders(origin),
+      ...extraHeaders,
+    },
+  });
+}
+
+const asList = <T>(data: T[] | unknown): T[] => (Array.isArray(data) ? data : []);
+
+const parseRating = (rating: string | number | undefined): number | undefined => {
+  const value = typeof rating === 'number' ? rating : parseFloat(rating || '');
+  return value > 0 ? value : undefined;
+};
+
+/**
+ * Call player_api.php through the playlist cache; listings change about as
+ * often as M3U playlists and are just as slow to download
+ */
+async function callApi<T>(
+  credentials: XtreamCredentials,
+  action: string,
+  options: { forceRefresh?: boolean; waitUntil?: WaitUntil },
+  params?: Record<string, string>
+): Promise<{ data: T; status: PlaylistCacheStatus; version: number }> {
+  const { playlist, status } = await getCachedPlaylist(xtreamApiUrl(credentials, action, params), options);
+  try {
+    return { data: JSON.parse(playlist.content) as T, status, version: playlistVersion(playlist) };
+  } catch {
+    throw new PlaylistFetchError(`Xtream server returned an invalid response for ${action}`, 502);
+  }
+}
+
+async function handleConnect(body: Record<string, unknown>, request: Request, origin: string | null): Promise<Response> {
+  // Sealing credentials is an admin action
+  if (!(await verifyAdminRequest(request))) {
+    return jsonResponse({ error: 'Admin sign-in required' }, 401, origin);
+  }
+
+  const { server, username, password } = body;
+  if (typeof server !== 'string' || typeof username !== 'string' || typeof password !== 'string' || !server || !username) {
+    return jsonResponse({ error: 'Missing server, username or password' }, 400, origin);
+  }
+
+  let credentials: XtreamCredentials;
+  try {
+    credentials = { server: normaliseXtreamServer(server), username: username.trim(), password };
+  } catch {
+    return jsonResponse({ error: 'Invalid server address' }, 400, origin);
+  }
+  await assertSafeUrl(credentials.server);
+
+  // player_api.php without an action is the login check
+  const { data: login } = await callApi<{ user_info?: { auth?: number | string; status?: string; exp_date?: string | null } }>(
+    credentials,
+    '',
+    { forceRefresh: true }
+  );
+  if (String(login?.user_info?.auth) !== '1') {
+    return jsonResponse({ error: 'Xtream login failed' }, 400, origin);
+  }
+
+  const { data: categories } = await callApi<XtreamCategory[]>(credentials, 'get_live_categories', { forceRefresh: true });
+  const expiresAt = Number(login.user_info?.exp_date);
+
+  return jsonResponse({
+    source: await sealXtreamSource(credentials),
+    server: credentials.server,
+    status: login.user_info?.status || 'Active',
+    expiresAt: expiresAt > 0 ? expiresAt * 1000 : null,
+    categories: asList<XtreamCategory>(categories).map(category => ({
+      id: String(category.category_id),
+      name: category.category_name,
+    })),
+  }, 200, origin);
+}
+
+async function handleChannels(
+  body: Record<string, unknown>,
+  request: Request,
+  origin: string | null,
+  waitUntil?: WaitUntil
+): Promise<Response> {
+  const { categoryId, categoryName, source, refresh } = body;
+  if (typeof categoryId !== 'string' || typeof categoryName !== 'string' || !categoryId || !categoryName) {
+    return jsonResponse({ error: 'Missing categoryId or categoryName' }, 400, origin);
+  }
+
+  const credentials = await openXtreamSource(typeof source === 'string' ? source : '');
+  if (!credentials) {
+    return jsonResponse({ error: 'Invalid Xtream source; reconnect the category in the admin panel' }, 400, origin);
+  }
+
+  // Forcing a refresh bypasses the cache, so only admins may do it
+  if (refresh && !(await verifyAdminRequest(request))) {
+    return jsonResponse({ error: 'Admin sign-in required to refresh playlists' }, 401, origin);
+  }
+
+  const includedIds = Array.isArray(body.categoryIds) ? body.categoryIds.map(String) : [];
+  const isIncluded = (stream: XtreamStream) =>
+    includedIds.length === 0 || includedIds.includes(String(stream.category_id));
+  const cacheOptions = { forceRefresh: !!refresh, waitUntil };
+
+  const [liveCategories, liveStreams] = await Promise.all([
+    callApi<XtreamCategory[]>(credentials, 'get_live_categories', cacheOptions),
+    callApi<XtreamStream[]>(credentials, 'get_live_streams', cacheOptions),
+  ]);
+
+  const groupNames = new Map<string, string>();
+  asList<XtreamCategory>(liveCategories.data).forEach(category => {
+    groupNames.set(String(category.category_id), category.category_name);
+  });
+
+  const channels = await getMintedListing<Channel[]>(
+    `xtream|channels|${source}|${categoryId}|${categoryName}|${includedIds.join(',')}`,
+    `${liveCategories.version}|${liveStreams.version}`,
+    () => Promise.all(asList<XtreamStream>(liveStreams.data).filter(isIncluded).map(async stream => {
+      const url = xtreamStreamUrl(credentials, 'live', stream.stream_id, 'm3u8');
+      return {
+        // Stream IDs are stable on the server, so they make stable channel IDs
+        id: `${categoryId}_x-${stream.stream_id}`,
+        name: stream.name?.trim() || 'Unknown Channel',
+        logoUrl: stream.stream_icon || '/channel-placeholder.svg',
+        streamUrl: await mintProxyUrl({ url }, request),
+        streamKey: await streamKey(url),
+        categoryId,
+        categoryName,
+        tvgId: stream.epg_channel_id || undefined,
+        tvgChno: stream.num !== undefined ? String(stream.num) : undefined,
+        groupTitle: groupNames.get(String(stream.category_id)) || undefined,
+        manifestType: 'hls',
+      };
+    }))
+  );
+
+  const groupCounts = new Map<string, number>();
+  channels.forEach(channel => {
+    if (channel.groupTitle) groupCounts.set(channel.groupTitle, (groupCounts.get(channel.groupTitle) || 0) + 1);
+  });
+  const groups = Array.from(groupCounts, ([name, count]) => ({ name, count }));
+
+  return jsonResponse(
+    { channels, groups, epgUrls: [`${XTREAM_GUIDE_PREFIX}${source}`] },
+    200,
+    origin,
+    {
+      // Stream URLs are signed for this client and expire
+      'Cache-Control': 'private, no-store',
+      'X-Playlist-Cache': liveStreams.status,
+    }
+  );
+}
+
+async function handleLibrary(
+  body: Record<string, unknown>,
+  request: Request,
+  origin: string | null,
+  waitUntil?: WaitUntil
+): Promise<Response> {
+  const { categoryId, categoryName, source, refresh } = body;
+  if (typeof categoryId !== 'string' || typeof categoryName !== 'string' || !categoryId || !categoryName) {
+    return jsonResponse({ error: 'Missing categoryId or categoryName' }, 400, origin);
+  }
+
+  const credentials = await openXtreamSource(typeof source === 'string' ? source : '');
+  if (!credentials) {
+    return jsonResponse({ error: 'Invalid Xtream source; reconnect the category in the admin panel' }, 400, origin);
+  }
+
+  if (refresh && !(await verifyAdminRequest(request))) {
+    return jsonResponse({ error: 'Admin sign-in required to refresh playlists' }, 401, origin);
+  }
+
+  const cacheOptions = { forceRefresh: !!refresh, waitUntil };
+  const [vodCategories, vodStreams, seriesCategories, seriesList] = await Promise.all([
+    callApi<XtreamCategory[]>(credentials, 'get_vod_categories', cacheOptions),
+    callApi<XtreamStream[]>(credentials, 'get_vod_streams', cacheOptions),
+    callApi<XtreamCategory[]>(credentials, 'get_series_categories', cacheOptions),
+    callApi<XtreamSeries[]>(credentials, 'get_series', cacheOptions),
+  ]);
+
+  const vodGroups = new Map(asList<XtreamCategory>(vodCategories.data).map(
+    category => [String(category.category_id), category.category_name]
+  ));
+  const seriesGroups = new Map(asList<XtreamCategory>(seriesCategories.data).map(
+    category => [String(category.category_id), category.category_name]
+  ));
+
+  const movies = await getMintedListing<Movie[]>(
+    `xtream|movies|${source}|${categoryId}|${categoryName}`,
+    `${vodCategories.version}|${vodStreams.version}`,
+    () => Promise.all(asList<XtreamStream>(vodStreams.data).map(async stream => {
+      const name = stream.name?.trim() || 'Unknown Movie';
+      const extension = stream.container_extension || 'mp4';
+      return {
+        id: `${categoryId}_v-${stream.stream_id}`,
+        name,
+        posterUrl: stream.stream_icon || '/channel-placeholder.svg',
+        streamUrl: await mintProxyUrl({ url: xtreamStreamUrl(credentials, 'movie', stream.stream_id, extension) }, request),
+        categoryId,
+        categoryName,
+        groupTitle: vodGroups.get(String(stream.category_id)) || undefined,
+        year: parseYear(name),
+        rating: parseRating(stream.rating),
+        containerExtension: extension,
+      };
+    }))
+  );
+
+  // Episodes are fetched per series; listing them all would mean one call per series
+  const series: Series[] = asList<XtreamSeries>(seriesList.data).map(item => {
+    const year = parseInt((item.releaseDate || '').slice(0, 4), 10);
+    return {
+      id: `${categoryId}_sr-${item.series_id}`,
+      name: item.name?.trim() || 'Unknown Series',
+      posterUrl: item.cover || '/channel-placeholder.svg',
+      categoryId,
+      categoryName,
+      groupTitle: seriesGroups.get(String(item.category_id)) || undefined,
+      year: year > 1900 ? year : parseYear(item.name || ''),
+      rating: parseRating(item.rating),
+      plot: item.plot || undefined,
+      genre: item.genre || undefined,
+    };
+  });
+
+  return jsonResponse({ movies, series }, 200, origin, {
+    'Cache-Control': 'private, no-store',
+    'X-Playlist-Cache': vodStreams.status,
+  });
+}
+
+async function handleSeries(
+  body: Record<string, unknown>,
+  request: Request,
+  origin: string | null,
+  waitUntil?: WaitUntil
+): Promise<Response> {
+  const { categoryId, source, seriesId } = body;
+  if (typeof categoryId !== 'string' || !categoryId || (typeof seriesId !== 'string' && typeof seriesId !== 'number')) {
+    return jsonResponse({ error: 'Missing categoryId or seriesId' }, 400, origin);
+  }
+
+  const credentials = await openXtreamSource(typeof source === 'string' ? source : '');
+  if (!credentials) {
+    return jsonResponse({ error: 'Invalid Xtream source; reconnect the category in the admin panel' }, 400, origin);
+  }
+
+  // Accept library IDs ("<categoryId>_sr-<series_id>") as well as bare series IDs
+  const xtreamSeriesId = String(seriesId).split('_sr-').pop()!;
+  const { data, version } = await callApi<XtreamSeriesInfo>(
+    credentials,
+    'get_series_info',
+    { waitUntil },
+    { series_id: xtreamSeriesId }
+  );
+
+  // Keyed by season number, though some servers send a flat list
+  const rawEpisodes = Array.isArray(data?.episodes)
+    ? data.episodes
+    : Object.values(data?.episodes || {}).flat();
+
+  const episodes = await getMintedListing<Episode[]>(
+    `xtream|episodes|${source}|${categoryId}|${xtreamSeriesId}`,
+    String(version),
+    () => Promise.all(rawEpisodes.map(async (item, index) => {
+      const extension = item.container_extension || 'mp4';
+      const duration = Number(item.info?.duration_secs);
+      return {
+        id: `${categoryId}_e-${item.id}`,
+        seriesId: `${categoryId}_sr-${xtreamSeriesId}`,
+        name: item.title?.trim() || `Episode ${item.episode_num ?? index + 1}`,
+        season: Number(item.season) || 1,
+        episode: Number(item.episode_num) || index + 1,
+        streamUrl: await mintProxyUrl({ url: xtreamStreamUrl(credentials, 'series', item.id, extension) }, request),
+        posterUrl: item.info?.movie_image || undefined,
+        plot: item.info?.plot || undefined,
+        durationSecs: duration > 0 ? duration : undefined,
+        containerExtension: extension,
+      };
+    })).then(list => list.sort((a, b) => a.season - b.season || a.episode - b.episode))
+  );
+
+  return jsonResponse({ episodes }, 200, origin, { 'Cache-Control': 'private, no-store' });
+}
+
+export default async function handler(request: Request, context?: { waitUntil?: WaitUntil }) {
+  const origin = request.headers.get('origin');
+
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: getCorsHeaders(origin),
+    });
+  }
+
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) {
+    return jsonResponse({ error: 'Unauthorized origin' }, 403, origin);
+  }
+
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, origin);
+  }
+
+  try {
+    const body = await request.json();
+    const waitUntil = context?.waitUntil?.bind(context);
+    switch (body?.action) {
+      case 'connect':
+        return await handleConnect(body, request, origin);
+      case 'library':
+        return await handleLibrary(body, request, origin, waitUntil);
+      case 'series':
+        return await handleSeries(body, request, origin, waitUntil);
+      case 'channels':
+        return await handleChannels(body, request, origin, waitUntil);
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400, origin);
+    }
+  } catch (error) {
+    if (error instanceof PlaylistFetchError) {
+      return jsonResponse({ error: error.message }, error.status, origin);
+    }
+    if (error instanceof UnsafeUrlError) {
+      return jsonResponse({ error: 'Xtream server not allowed', details: error.message }, 403, origin);
+    }
+    return jsonResponse({
+      error: 'Failed to load Xtream source',
+      details: error instanceof Error ? error.message : String(error),
+    }, 500, origin);
+  }
+}
@@ -0,0 +1,52 @@
+// scripts/health-check.mjs - Runs the scheduled stream health check outside Vercel cron
+//
+// Calls /api/health-check until every channel has been checked once, then
+// optionally repeats. Point it at `vercel dev` or a deployment:
+//
+//   CRON_SECRET=... node scripts/health-check.mjs [baseUrl] [--every <minutes>]
+const args = process.argv.slice(2);
+const everyIndex = args.indexOf('--every');
+const everyMinutes = everyIndex >= 0 ? Number(args[everyIndex + 1]) : 0;
+const baseUrl = args.find((arg, index) => !arg.startsWith('--') && index !== everyIndex + 1) || 'http://localhost:3000';
+const secret = process.env.CRON_SECRET;
+
+if (!secret) {
+  console.error('Set CRON_SECRET to the value the deployment uses');
+  process.exit(1);
+}
+if (everyIndex >= 0 && !(everyMinutes > 0)) {
+  console.error('--every needs a number of minutes');
+  process.exit(1);
+}
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function runPass() {
+  const since = Date.now();
+  for (;;) {
+    const response = await fetch(new URL(`/api/health-check?since=${since}`, baseUrl), {
+      headers: { Authorization: `Bearer ${secret}` },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.details || data.error || `HTTP ${response.status}`);
+    }
+
+    console.log(
+      `checked ${data.checked}, ${data.unchecked} of ${data.total} left - ` +
+      `ok ${data.ok}, degraded ${data.degraded}, dead ${data.dead}, offline ${data.offline}`
+    );
+    if (data.unchecked === 0 || data.checked === 0) return;
+  }
+}
+
+for (;;) {
+  try {
+    await runPass();
+  } catch (error) {
+    console.error('Health check failed:', error.message);
+    if (!everyMinutes) process.exit(1);
+  }
+  if (!everyMinutes) break;
+  await sleep(everyMinutes * 60 * 1000);
+}
@@ -18,6 +18,10 @@ const Live = lazy(() => import("@/pages/Live"));
 const EventPlayer = lazy(() => import("@/pages/EventPlayer")); // Import EventPlayer
 const CategoryChannels = lazy(() => import("@/pages/CategoryChannels"));
 const ChannelPlayer = lazy(() => import("@/pages/ChannelPlayer"));
+const Guide = lazy(() => import("@/pages/Guide"));
+const Library = lazy(() => import("@/pages/Library"));
+const MoviePlayer = lazy(() => import("@/pages/MoviePlayer"));
+const SeriesDetail = lazy(() => import("@/pages/SeriesDetail"));
 const Admin = lazy(() => import("@/pages/Admin"));
 const Contact = lazy(() => import("@/pages/Contact"));
 const NotFound = lazy(() => import("./pages/NotFound"));
@@ -53,6 +57,22 @@ const App = () => (
                       <Layout><EventPlayer /></Layout>
                     }
                   </Route>
+                  <Route path="/guide">
+                    <Layout><Guide /></Layout>
+                  </Route>
+                  <Route path="/library">
+                    <Layout><Library /></Layout>
+                  </Route>
+                  <Route path="/movie/:movieId">
+                    {(params: { movieId: string } | undefined) =>
+                      <Layout><MoviePlayer movieId={params?.movieId ?? ""} /></Layout>
+                    }
+                  </Route>
+                  <Route path="/series/:seriesId">
+                    {(params: { seriesId: string } | undefined) =>
+                      <Layout><SeriesDetail seriesId={params?.seriesId ?? ""} /></Layout>
+                    }
+                  </Route>
                   <Route path="/favorites">
                     <Layout><Favorites /></Layout>
                   </Route>
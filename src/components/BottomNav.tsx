@@ -1,4 +1,4 @@
-import { Home, Star, MessageCircle, Calendar } from 'lucide-react';
+import { Home, Star, MessageCircle, Calendar, LayoutGrid, Film } from 'lucide-react';
 import { Link, useLocation } from 'wouter';
 
 const BottomNav = () => {
@@ -7,6 +7,8 @@ const BottomNav = () => {
   const navItems = [
     { path: '/', icon: Home, label: 'Home' },
     { path: '/live', icon: Calendar, label: 'Live' },
+    { path: '/guide', icon: LayoutGrid, label: 'Guide' },
+    { path: '/library', icon: Film, label: 'Library' },
     { path: '/favorites', icon: Star, label: 'Favs' },
     { path: '/contact', icon: MessageCircle, label: 'Contact' },
   ];
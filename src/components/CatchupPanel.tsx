@@ -0,0 +1,136 @@
+// /src/components/CatchupPanel.tsx - Rewind a catch-up channel to a programme or a time
+import { useEffect, useMemo, useState } from 'react';
+import { History, Play, RotateCcw } from 'lucide-react';
+import { PublicChannel, Programme } from '@/types';
+import { fetchGuideWindow, formatProgrammeTime, hasGuide } from '@/lib/epg';
+import { CatchupWindow, getCatchupDays, getEarliestCatchupStart } from '@/lib/catchup';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/components/ui/sonner";
+
+export interface CatchupSelection extends CatchupWindow {
+  title?: string;
+}
+
+interface CatchupPanelProps {
+  channel: PublicChannel;
+  currentProgramme: Programme | null;
+  activeStart: number | null;
+  onPlay: (selection: CatchupSelection) => void;
+}
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInputValue = (time: number): string => {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const formatDay = (time: number): string =>
+  new Date(time).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
+
+const CatchupPanel: React.FC<CatchupPanelProps> = ({ channel, currentProgramme, activeStart, onPlay }) => {
+  const [pastProgrammes, setPastProgrammes] = useState<Programme[]>([]);
+  const [pickedTime, setPickedTime] = useState('');
+
+  const days = getCatchupDays(channel);
+
+  useEffect(() => {
+    setPastProgrammes([]);
+    if (!hasGuide(channel)) return;
+
+    let cancelled = false;
+    const now = Date.now();
+    fetchGuideWindow([channel], getEarliestCatchupStart(channel, now), now).then(result => {
+      if (cancelled) return;
+      // Finished programmes, most recent first
+      setPastProgrammes((result[channel.id] || []).filter(programme => programme.stop <= now).reverse());
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [channel]);
+
+  const programmesByDay = useMemo(() => {
+    const grouped = new Map<string, Programme[]>();
+    pastProgrammes.forEach(programme => {
+      const day = formatDay(programme.start);
+      grouped.set(day, [...(grouped.get(day) || []), programme]);
+    });
+    return Array.from(grouped);
+  }, [pastProgrammes]);
+
+  const playProgramme = (programme: Programme) => {
+    onPlay({ start: programme.start, duration: programme.stop - programme.start, title: programme.title });
+  };
+
+  const playPickedTime = () => {
+    const start = new Date(pickedTime).getTime();
+    const now = Date.now();
+    if (isNaN(start) || start >= now || start < getEarliestCatchupStart(channel, now)) {
+      toast.error(`Pick a time within the last ${days} day${days === 1 ? '' : 's'}`);
+      return;
+    }
+    // An arbitrary start plays through to the live edge
+    onPlay({ start, duration: now - start });
+  };
+
+  return (
+    <div className="rounded-lg border bg-card p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-semibold">
+          <History size={18} className="text-accent" />
+          Catch-up
+          <span className="text-sm font-normal text-muted-foreground">last {days} day{days === 1 ? '' : 's'}</span>
+        </div>
+        {currentProgramme && (
+          <Button size="sm" variant="outline" onClick={() => playProgramme(currentProgramme)}>
+            <RotateCcw size={14} className="mr-1" />
+            Watch from start
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          type="datetime-local"
+          value={pickedTime}
+          min={toLocalInputValue(getEarliestCatchupStart(channel))}
+          max={toLocalInputValue(Date.now())}
+          onChange={(e) => setPickedTime(e.target.value)}
+          className="w-auto"
+          aria-label="Catch-up start time"
+        />
+        <Button size="sm" onClick={playPickedTime} disabled={!pickedTime}>
+          <Play size={14} className="mr-1" />
+          Play from here
+        </Button>
+      </div>
+
+      {programmesByDay.length > 0 && (
+        <div className="max-h-64 overflow-y-auto space-y-3 pr-1">
+          {programmesByDay.map(([day, programmes]) => (
+            <div key={day} className="space-y-1">
+              <div className="text-xs font-medium uppercase text-muted-foreground">{day}</div>
+              {programmes.map(programme => (
+                <button
+                  key={programme.start}
+                  onClick={() => playProgramme(programme)}
+                  className={`flex w-full items-center gap-3 rounded px-2 py-1.5 text-left text-sm hover:bg-accent/10 ${
+                    activeStart === programme.start ? 'bg-accent/15 text-accent' : ''
+                  }`}
+                >
+                  <span className="w-12 shrink-0 text-muted-foreground">{formatProgrammeTime(programme.start)}</span>
+                  <span className="truncate">{programme.title}</span>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CatchupPanel;
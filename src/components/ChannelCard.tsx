@@ -1,18 +1,22 @@
 // /src/components/ChannelCard.tsx
 import { Link } from 'wouter';
-import { Play, Star } from 'lucide-react';
+import { Play, Star, History } from 'lucide-react';
 import { PublicChannel } from '@/types';
 import { useFavorites } from '@/contexts/FavoritesContext';
 import { useRecents } from '@/contexts/RecentsContext';
+import { useEpg } from '@/hooks/useEpg';
+import { Progress } from '@/components/ui/progress';
 
 interface ChannelCardProps {
   channel: PublicChannel;
+  offline?: boolean; // failing the scheduled health check
 }
 
-const ChannelCard: React.FC<ChannelCardProps> = ({ channel }) => {
+const ChannelCard: React.FC<ChannelCardProps> = ({ channel, offline }) => {
   const { isFavorite, addFavorite, removeFavorite } = useFavorites();
   const { addRecent } = useRecents();
   const isChannelFavorite = isFavorite(channel.id);
+  const { current, next, progress } = useEpg(channel);
 
   const handleFavoriteClick = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -40,10 +44,19 @@ const ChannelCard: React.FC<ChannelCardProps> = ({ channel }) => {
         <img
           src={channel.logoUrl}
           alt={`${channel.name} logo`}
+          className={offline ? 'opacity-40 grayscale' : undefined}
           onError={(e) => {
             e.currentTarget.src = '/channel-placeholder.svg';
           }}
         />
+        {channel.tvgChno && (
+          <span className="channel-number">{channel.tvgChno}</span>
+        )}
+        {offline && (
+          <span className="absolute bottom-2 left-2 rounded bg-red-600/90 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-white">
+            Offline
+          </span>
+        )}
         <div className="play-overlay">
           <div className="play-btn-overlay hover-scale">
             <Play size={20} fill="white" />
@@ -63,7 +76,19 @@ const ChannelCard: React.FC<ChannelCardProps> = ({ channel }) => {
       </div>
       <div className="channel-info">
         <div className="channel-name">{channel.name}</div>
-        <div className="channel-category">{channel.categoryName}</div>
+        <div className="channel-category flex items-center gap-1">
+          <span className="truncate">{channel.categoryName}</span>
+          {channel.tvgLanguage && <span className="truncate">• {channel.tvgLanguage}</span>}
+          {channel.catchup && (
+            <History size={12} className="flex-shrink-0 text-accent" aria-label="Catch-up available" />
+          )}
+        </div>
+        {current && (
+          <div className="mt-1 space-y-1" title={next ? `Next: ${next.title}` : undefined}>
+            <div className="text-xs text-muted-foreground truncate">{current.title}</div>
+            <Progress value={progress} className="h-1" aria-label="Programme progress" />
+          </div>
+        )}
       </div>
     </Link>
   );
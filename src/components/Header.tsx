@@ -1,4 +1,4 @@
-import { Tv, Menu, Sun, Moon, Home, Star, MessageCircle, Calendar } from 'lucide-react';
+import { Tv, Menu, Sun, Moon, Home, Star, MessageCircle, Calendar, LayoutGrid, Film } from 'lucide-react';
 import { Link, useLocation } from 'wouter';
 import { useTheme } from './ThemeProvider';
 
@@ -13,6 +13,8 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
   const navItems = [
     { path: '/', icon: Home, label: 'Home' },
     { path: '/live', icon: Calendar, label: 'Live' },
+    { path: '/guide', icon: LayoutGrid, label: 'Guide' },
+    { path: '/library', icon: Film, label: 'Library' },
     { path: '/favorites', icon: Star, label: 'Favorites' },
     { path: '/contact', icon: MessageCircle, label: 'Contact' },
   ];
@@ -13,7 +13,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const [location] = useLocation();
   
   // Logic to show bottom nav
-  const showBottomNav = ['/', '/favorites', '/contact', '/live'].includes(location);
+  const showBottomNav = ['/', '/favorites', '/contact', '/live', '/guide', '/library'].includes(location);
 
   return (
     <div className="min-h-screen bg-background">
@@ -0,0 +1,47 @@
+// /src/components/PosterCard.tsx - Poster tile for a movie or series in the library
+import { Link } from 'wouter';
+import { Play, Star } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+
+interface PosterCardProps {
+  to: string;
+  title: string;
+  posterUrl?: string;
+  subtitle?: string;
+  rating?: number;
+  progress?: number; // Percent watched
+}
+
+const PosterCard: React.FC<PosterCardProps> = ({ to, title, posterUrl, subtitle, rating, progress }) => (
+  <Link to={to} className="group block animate-fade-in">
+    <div className="relative aspect-[2/3] overflow-hidden rounded-lg bg-muted shadow hover-lift">
+      <img
+        src={posterUrl || '/channel-placeholder.svg'}
+        alt={title}
+        loading="lazy"
+        className="h-full w-full object-cover"
+        onError={(e) => { e.currentTarget.src = '/channel-placeholder.svg'; }}
+      />
+      {rating !== undefined && (
+        <span className="absolute top-2 left-2 flex items-center gap-1 rounded bg-black/70 px-1.5 py-0.5 text-xs text-white">
+          <Star size={10} fill="currentColor" className="text-yellow-400" />
+          {rating.toFixed(1)}
+        </span>
+      )}
+      <div className="absolute inset-0 flex items-center justify-center bg-black/40 opacity-0 transition-opacity group-hover:opacity-100">
+        <div className="rounded-full bg-accent p-3">
+          <Play size={20} fill="white" className="text-white" />
+        </div>
+      </div>
+      {progress !== undefined && (
+        <Progress value={progress} className="absolute bottom-0 left-0 right-0 h-1 rounded-none" />
+      )}
+    </div>
+    <div className="mt-2 space-y-0.5">
+      <div className="truncate text-sm font-medium">{title}</div>
+      {subtitle && <div className="truncate text-xs text-text-secondary">{subtitle}</div>}
+    </div>
+  </Link>
+);
+
+export default PosterCard;
@@ -0,0 +1,39 @@
+// /src/components/ResumePrompt.tsx - "Resume from 12:34?" over the player
+import { useEffect } from 'react';
+import { RotateCcw, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatPlaybackTime } from '@/lib/watchProgress';
+
+interface ResumePromptProps {
+  position: number; // seconds
+  onResume: () => void;
+  onStartOver: () => void;
+}
+
+// Ignoring the prompt means watching from the start
+const AUTO_DISMISS_MS = 15 * 1000;
+
+const ResumePrompt: React.FC<ResumePromptProps> = ({ position, onResume, onStartOver }) => {
+  useEffect(() => {
+    const timer = setTimeout(onStartOver, AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [onStartOver]);
+
+  return (
+    <div className="absolute left-3 right-3 top-3 z-30 flex flex-wrap items-center justify-between gap-2 rounded-lg bg-black/80 px-4 py-3 text-white shadow-lg sm:left-auto sm:max-w-sm animate-fade-in">
+      <span className="text-sm font-medium">Resume from {formatPlaybackTime(position)}?</span>
+      <div className="flex gap-2">
+        <Button size="sm" variant="secondary" onClick={onStartOver}>
+          <RotateCcw size={14} className="mr-1" />
+          Start over
+        </Button>
+        <Button size="sm" onClick={onResume}>
+          <Play size={14} className="mr-1" />
+          Resume
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ResumePrompt;
@@ -1,4 +1,4 @@
-import { X, Home, Star, MessageCircle, Tv, Calendar } from 'lucide-react';
+import { X, Home, Star, MessageCircle, Tv, Calendar, LayoutGrid, Film } from 'lucide-react';
 import { Link, useLocation } from 'wouter';
 
 interface SidebarProps {
@@ -12,6 +12,8 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
   const menuItems = [
     { path: '/', icon: Home, label: 'Home' },
     { path: '/live', icon: Calendar, label: 'Live Events' },
+    { path: '/guide', icon: LayoutGrid, label: 'TV Guide' },
+    { path: '/library', icon: Film, label: 'Movies & Series' },
     { path: '/favorites', icon: Star, label: 'Favorites' },
     { path: '/contact', icon: MessageCircle, label: 'Contact' },
   ];
@@ -0,0 +1,93 @@
+// /src/components/StreamStatsOverlay.tsx - "Stats for nerds" panel over the player
+import { useEffect, useState } from 'react';
+import { Check, Copy, X } from 'lucide-react';
+import { describeStreamStats, formatPlayerEvent, formatStreamReport, PlayerEvent, StreamStats } from '@/lib/streamStats';
+
+interface StreamStatsOverlayProps {
+  channelName: string;
+  readStats: () => StreamStats | null;
+  readEvents: () => PlayerEvent[];
+  onClose: () => void;
+}
+
+const REFRESH_MS = 1000;
+const SHOWN_EVENTS = 8;
+
+const StreamStatsOverlay: React.FC<StreamStatsOverlayProps> = ({ channelName, readStats, readEvents, onClose }) => {
+  const [stats, setStats] = useState<StreamStats | null>(() => readStats());
+  const [events, setEvents] = useState<PlayerEvent[]>(() => readEvents());
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setStats(readStats());
+      setEvents(readEvents());
+    }, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [readStats, readEvents]);
+
+  useEffect(() => {
+    if (copyState === 'idle') return;
+    const timer = setTimeout(() => setCopyState('idle'), 2000);
+    return () => clearTimeout(timer);
+  }, [copyState]);
+
+  const handleCopy = async () => {
+    if (!stats) return;
+    try {
+      await navigator.clipboard.writeText(formatStreamReport(channelName, stats, events));
+      setCopyState('copied');
+    } catch {
+      setCopyState('failed');
+    }
+  };
+
+  return (
+    <div
+      className="absolute left-3 top-3 z-[60] w-[min(22rem,calc(100%-1.5rem))] max-h-[calc(100%-1.5rem)] overflow-y-auto rounded-lg bg-black/80 p-3 font-mono text-[11px] leading-relaxed text-white shadow-lg backdrop-blur-sm"
+      onClick={(e) => e.stopPropagation()}
+      data-testid="panel-stream-stats"
+    >
+      <div className="mb-2 flex items-center justify-between gap-2 font-sans">
+        <span className="text-xs font-semibold">Stats for nerds</span>
+        <div className="flex items-center gap-1">
+          <button onClick={handleCopy} disabled={!stats} className="flex items-center gap-1 rounded px-2 py-1 text-xs hover:bg-white/10 disabled:opacity-40" title="Copy for a bug report">
+            {copyState === 'copied' ? <Check size={12} className="text-green-500" /> : <Copy size={12} />}
+            {copyState === 'copied' ? 'Copied' : copyState === 'failed' ? 'Copy failed' : 'Copy'}
+          </button>
+          <button onClick={onClose} className="rounded p-1 hover:bg-white/10" title="Close">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {stats ? (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3">
+          {describeStreamStats(stats).map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-white/60">{label}</dt>
+              <dd className="break-all">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="text-white/60">No stream loaded.</p>
+      )}
+
+      <div className="mt-2 border-t border-white/10 pt-2">
+        <div className="mb-1 text-white/60">Recent events ({events.length})</div>
+        {events.length === 0 ? (
+          <div className="text-white/40">None</div>
+        ) : (
+          events.slice(-SHOWN_EVENTS).reverse().map((event, index) => (
+            <div key={`${event.at}-${index}`} className={`break-all ${event.kind === 'error' ? 'text-red-400' : event.kind === 'retry' ? 'text-yellow-300' : 'text-white/80'}`}>
+              {formatPlayerEvent(event)}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StreamStatsOverlay;
@@ -0,0 +1,129 @@
+// /src/components/UptimeCharts.tsx - Admin dashboard charts of the scheduled stream health check
+import { useMemo } from 'react';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { getUptime, HealthHistory } from '@/lib/streamHealth';
+
+interface UptimeChartsProps {
+  history: HealthHistory;
+}
+
+const statusConfig = {
+  ok: { label: 'OK', color: 'hsl(142 71% 45%)' },
+  degraded: { label: 'Degraded', color: 'hsl(45 93% 47%)' },
+  dead: { label: 'Dead', color: 'hsl(0 84% 60%)' },
+} satisfies ChartConfig;
+
+const uptimeConfig = {
+  uptime: { label: 'Uptime %', color: 'hsl(217 91% 60%)' },
+} satisfies ChartConfig;
+
+const WORST_CHANNELS = 8;
+
+const formatRunTime = (at: number) =>
+  new Date(at).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+const UptimeCharts = ({ history }: UptimeChartsProps) => {
+  const records = useMemo(() => Object.entries(history.channels), [history]);
+
+  const categoryUptime = useMemo(() => {
+    const totals = new Map<string, { sum: number; count: number }>();
+    records.forEach(([, record]) => {
+      const total = totals.get(record.categoryName) || { sum: 0, count: 0 };
+      totals.set(record.categoryName, { sum: total.sum + getUptime(record), count: total.count + 1 });
+    });
+    return Array.from(totals, ([category, { sum, count }]) => ({ category, uptime: Math.round((sum / count) * 100) }))
+      .sort((a, b) => a.uptime - b.uptime);
+  }, [records]);
+
+  const worstChannels = useMemo(
+    () => records
+      .map(([id, record]) => ({ id, record, uptime: getUptime(record) }))
+      .filter(({ uptime }) => uptime < 1)
+      .sort((a, b) => a.uptime - b.uptime)
+      .slice(0, WORST_CHANNELS),
+    [records]
+  );
+
+  if (history.runs.length === 0) {
+    return (
+      <div className="bg-card border border-border rounded-lg p-6 text-sm text-text-secondary">
+        No scheduled health checks have run yet. They need CRON_SECRET and a KV store configured on the
+        deployment; during development run <code className="font-mono">npm run health-check</code>.
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+      <div className="bg-card border border-border rounded-lg p-6">
+        <h3 className="font-semibold mb-4">Channel status over time</h3>
+        <ChartContainer config={statusConfig} className="aspect-auto h-64 w-full">
+          <AreaChart data={history.runs}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="at" tickFormatter={formatRunTime} tickLine={false} axisLine={false} minTickGap={40} />
+            <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatRunTime(payload[0]?.payload.at)} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {(['ok', 'degraded', 'dead'] as const).map(status => (
+              <Area
+                key={status}
+                dataKey={status}
+                type="monotone"
+                stackId="status"
+                stroke={`var(--color-${status})`}
+                fill={`var(--color-${status})`}
+                fillOpacity={0.4}
+              />
+            ))}
+          </AreaChart>
+        </ChartContainer>
+      </div>
+
+      <div className="bg-card border border-border rounded-lg p-6">
+        <h3 className="font-semibold mb-4">Uptime by category</h3>
+        <ChartContainer config={uptimeConfig} className="aspect-auto h-64 w-full">
+          <BarChart data={categoryUptime} layout="vertical" margin={{ left: 8 }}>
+            <CartesianGrid horizontal={false} />
+            <XAxis type="number" domain={[0, 100]} tickLine={false} axisLine={false} />
+            <YAxis type="category" dataKey="category" tickLine={false} axisLine={false} width={110} />
+            <ChartTooltip content={<ChartTooltipContent hideLabel={false} />} />
+            <Bar dataKey="uptime" fill="var(--color-uptime)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+
+      {worstChannels.length > 0 && (
+        <div className="bg-card border border-border rounded-lg p-6 xl:col-span-2">
+          <h3 className="font-semibold mb-4">Least reliable channels</h3>
+          <div className="space-y-2">
+            {worstChannels.map(({ id, record, uptime }) => (
+              <div key={id} className="flex items-center gap-3 text-sm">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">{record.name}</div>
+                  <div className="truncate text-xs text-text-secondary">
+                    {record.categoryName}{record.error && ` • ${record.error}`}
+                  </div>
+                </div>
+                {/* One tick per kept check, newest on the right */}
+                <div className="hidden sm:flex gap-px" aria-hidden="true">
+                  {record.history.split('').map((code, index) => (
+                    <span
+                      key={index}
+                      className={`h-4 w-1 rounded-sm ${code === 'o' ? 'bg-green-500' : code === 'd' ? 'bg-yellow-500' : 'bg-red-500'}`}
+                    />
+                  ))}
+                </div>
+                <span className={`w-12 text-right font-semibold ${record.offline ? 'text-red-500' : ''}`}>
+                  {Math.round(uptime * 100)}%
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UptimeCharts;
@@ -1,17 +1,31 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Play, Pause, VolumeX, Volume2, Maximize, Minimize, Loader2, AlertCircle, RotateCcw, Settings, PictureInPicture2, Subtitles, Rewind, FastForward, ChevronRight, Volume1, Music, Check, ArrowLeft, Share2 } from 'lucide-react';
+import { Play, Pause, VolumeX, Volume2, Maximize, Minimize, Loader2, AlertCircle, RotateCcw, Settings, PictureInPicture2, Subtitles, Rewind, FastForward, ChevronRight, Volume1, Music, Check, ArrowLeft, Share2, Keyboard, Activity } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
 import shaka from 'shaka-player/dist/shaka-player.compiled.js';
+import { getOriginalUrl } from '@/lib/urlEncryption';
+import { DrmConfig, LowLatencyConfig } from '@/types';
+import { getPlayerShortcut, isFocusedControlKey, PLAYER_SHORTCUT_HELP } from '@/lib/playerShortcuts';
+import { collectStreamStats, getLivePosition, LivePosition, MAX_PLAYER_EVENTS, PlayerEngine, PlayerEvent } from '@/lib/streamStats';
+import { formatLiveOffset, getHlsLatencyConfig, getShakaStreamingConfig, isAtLiveEdge } from '@/lib/liveLatency';
+import StreamStatsOverlay from '@/components/StreamStatsOverlay';
 
 interface VideoPlayerProps {
   streamUrl: string;
   channelName: string;
+  drm?: DrmConfig;
+  lowLatency?: LowLatencyConfig; // Live streams only; aims for its target latency and catches up
+  streamType?: 'hls' | 'dash' | 'native';
   autoPlay?: boolean;
   muted?: boolean;
   className?: string;
+  startPosition?: number; // Seconds to seek to once an on-demand stream has loaded
+  onTimeUpdate?: (currentTime: number, duration: number) => void; // On-demand streams only
   onError?: () => void;
   onBack?: () => void;
   onShare?: () => void;
+  // Channel up/down keys; without these the keys do nothing
+  onPreviousChannel?: () => void;
+  onNextChannel?: () => void;
 }
 
 interface QualityLevel {
@@ -34,16 +48,33 @@ interface AudioTrack {
 
 const PLAYER_LOAD_TIMEOUT = 15000;
 const CONTROLS_HIDE_DELAY = 4000;
+const KEY_HINT_DURATION = 800;
+const VOLUME_STEP = 10;
+// Live windows shorter than this are only the last few segments, not a DVR window worth scrubbing
+const MIN_DVR_WINDOW = 60;
+
+// Whether the progress bar can seek: on-demand streams, and live streams with a DVR window
+const canScrub = (duration: number, startTime: number, isLive: boolean) =>
+  isFinite(duration) && duration > 0 && (!isLive || duration - startTime >= MIN_DVR_WINDOW);
+
+const formatClock = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
 const VideoPlayer: React.FC<VideoPlayerProps> = ({
   streamUrl,
   channelName,
+  drm,
+  lowLatency,
+  streamType,
   autoPlay = true,
   muted = true,
   className = "",
+  startPosition,
+  onTimeUpdate,
   onError,
   onBack,
-  onShare
+  onShare,
+  onPreviousChannel,
+  onNextChannel
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -63,6 +94,19 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   const wasPlayingBeforeSeekRef = useRef(false);
   const seekTimeRef = useRef(0);
   const rafRef = useRef<number | null>(null);
+  const startAppliedRef = useRef(false);
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  onTimeUpdateRef.current = onTimeUpdate;
+  // Parents pass inline handlers; a new one must not restart the stream
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  // One failed load reports once, however many handlers see it; failover counts these
+  const errorReportedRef = useRef(false);
+  const reportError = useCallback(() => {
+    if (errorReportedRef.current) return;
+    errorReportedRef.current = true;
+    onErrorRef.current?.();
+  }, []);
 
   const isMobile = useIsMobile();
   const [isLandscape, setIsLandscape] = useState(false);
@@ -71,6 +115,12 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
 
   const [sheetDragY, setSheetDragY] = useState(0);
   const touchStartYRef = useRef<number | null>(null);
+
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const playerEventsRef = useRef<PlayerEvent[]>([]);
+  const [keyHint, setKeyHint] = useState<string | null>(null);
+  const keyHintTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   
   const [playerState, setPlayerState] = useState({
     isPlaying: false,
@@ -94,15 +144,25 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     isSeeking: false,
     isPipActive: false,
     isLive: false,
+    livePosition: null as LivePosition | null,
   });
 
+  const recordPlayerEvent = useCallback((engine: PlayerEngine, kind: PlayerEvent['kind'], message: string) => {
+    playerEventsRef.current = [...playerEventsRef.current, { at: Date.now(), engine, kind, message }].slice(-MAX_PLAYER_EVENTS);
+  }, []);
+
+  const readStreamStats = useCallback(() => (videoRef.current ? collectStreamStats(videoRef.current, playerTypeRef.current, hlsRef.current, shakaPlayerRef.current) : null), []);
+  const readPlayerEvents = useCallback(() => playerEventsRef.current, []);
+
   const getTimeStats = useCallback((video: HTMLVideoElement | null) => {
-    if (!video) return { currentTime: 0, duration: 0, startTime: 0, isLive: false };
+    if (!video) return { currentTime: 0, duration: 0, startTime: 0, isLive: false, livePosition: null };
 
     let currentTime = video.currentTime;
     let duration = video.duration;
     let startTime = 0;
-    let isLive = !isFinite(duration);
+    // A live stream's seekable range is its DVR window, kept in startTime..duration
+    const livePosition = getLivePosition(video, playerTypeRef.current, hlsRef.current, shakaPlayerRef.current);
+    let isLive = livePosition !== null || !isFinite(duration);
 
     if (playerTypeRef.current === 'shaka' && shakaPlayerRef.current) {
       try {
@@ -111,7 +171,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
           startTime = range.start;
           if (isFinite(range.end) && range.end > 0) {
             duration = range.end;
-            isLive = false; 
+            isLive = livePosition !== null;
           }
         }
       } catch (e) { /* ignore */ }
@@ -121,7 +181,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         const end = video.seekable.end(video.seekable.length - 1);
         if (isFinite(end) && end > 0) {
           duration = end;
-          isLive = false;
+          isLive = livePosition !== null;
         }
       } catch (e) { /* ignore */ }
     }
@@ -129,33 +189,17 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     if (!isFinite(startTime) || startTime < 0) startTime = 0;
     if (!isFinite(duration) || isNaN(duration)) duration = 0;
 
-    return { currentTime, duration, startTime, isLive };
+    return { currentTime, duration, startTime, isLive, livePosition };
   }, []);
 
-  const detectStreamType = useCallback((url: string): { type: 'hls' | 'dash' | 'native'; cleanUrl: string; drmInfo?: any } => {
-    let cleanUrl = url;
-    let drmInfo = null;
-    if (url.includes('?|')) {
-      const [baseUrl, drmParams] = url.split('?|');
-      cleanUrl = baseUrl;
-      if (drmParams) {
-        const params = new URLSearchParams(drmParams);
-        const drmScheme = params.get('drmScheme');
-        const drmLicense = params.get('drmLicense');
-        const token = params.get('token') || params.get('authToken');
-        if (drmScheme && drmLicense) {
-          drmInfo = { scheme: drmScheme, license: drmLicense, token };
-        } else if (token) {
-          drmInfo = { token };
-        }
-      }
-    }
-    const urlLower = cleanUrl.toLowerCase();
-    if (urlLower.includes('.m3u8') || urlLower.includes('/hls/') || urlLower.includes('hls') || urlLower.includes('/api/m3u8-proxy')) return { type: 'hls', cleanUrl, drmInfo };
-    if (urlLower.includes('.mpd') || urlLower.includes('/dash/') || urlLower.includes('dash')) return { type: 'dash', cleanUrl, drmInfo };
-    if (urlLower.includes('.mp4') || urlLower.includes('.webm') || urlLower.includes('.mov')) return { type: 'native', cleanUrl, drmInfo };
-    if (urlLower.includes('manifest') || drmInfo) return { type: 'dash', cleanUrl, drmInfo };
-    return { type: 'hls', cleanUrl, drmInfo };
+  const detectStreamType = useCallback((url: string): 'hls' | 'dash' | 'native' => {
+    // Detect on the upstream URL when the stream is proxied
+    const urlLower = (getOriginalUrl(url) || url).toLowerCase();
+    if (urlLower.includes('.m3u8') || urlLower.includes('/hls/') || urlLower.includes('hls') || urlLower.includes('/api/m3u8-proxy') || urlLower.includes('/api/stalker')) return 'hls';
+    if (urlLower.includes('.mpd') || urlLower.includes('/dash/') || urlLower.includes('dash')) return 'dash';
+    if (urlLower.includes('.mp4') || urlLower.includes('.webm') || urlLower.includes('.mov')) return 'native';
+    if (urlLower.includes('manifest')) return 'dash';
+    return 'hls';
   }, []);
 
   const destroyPlayer = useCallback(() => {
@@ -186,159 +230,169 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
 
     const video = videoRef.current;
     destroyPlayer();
-    setPlayerState(prev => ({ ...prev, isLoading: true, error: null, isPlaying: false, showSettings: false, showControls: false }));
+    startAppliedRef.current = false;
+    errorReportedRef.current = false;
+    setPlayerState(prev => ({ ...prev, isLoading: true, error: null, isPlaying: false, showSettings: false, showControls: false, livePosition: null }));
 
     loadingTimeoutRef.current = setTimeout(() => {
       if (isMountedRef.current) {
         setPlayerState(prev => ({ ...prev, isLoading: false, error: "Stream took too long to load. Please try again.", showControls: false }));
-        if (onError) onError(); 
+        reportError(); 
         destroyPlayer();
       }
     }, PLAYER_LOAD_TIMEOUT);
 
     try {
-      const { type, cleanUrl, drmInfo } = detectStreamType(streamUrl);
+      // DRM-protected streams always go through Shaka, which also handles HLS
+      const type = drm ? 'dash' : streamType || detectStreamType(streamUrl);
       if (type === 'dash') {
         playerTypeRef.current = 'shaka';
-        await initShakaPlayer(cleanUrl, video, drmInfo);
+        await initShakaPlayer(streamUrl, video, drm, lowLatency, streamType === 'hls' ? 'application/x-mpegurl' : undefined);
       } else if (type === 'hls') {
         playerTypeRef.current = 'hls';
-        await initHlsPlayer(cleanUrl, video);
+        await initHlsPlayer(streamUrl, video, lowLatency);
       } else {
         playerTypeRef.current = 'native';
-        initNativePlayer(cleanUrl, video);
+        initNativePlayer(streamUrl, video);
       }
     } catch (error) {
       if (loadingTimeoutRef.current) clearTimeout(loadingTimeoutRef.current);
       setPlayerState(prev => ({ ...prev, isLoading: false, error: error instanceof Error ? error.message : 'Failed to initialize player', showControls: false }));
-      if (onError) onError(); 
+      reportError(); 
     }
-  }, [streamUrl, autoPlay, muted, destroyPlayer, detectStreamType, onError]);
+  }, [streamUrl, drm, lowLatency, streamType, autoPlay, muted, destroyPlayer, detectStreamType, reportError]);
 
-  const initHlsPlayer = async (url: string, video: HTMLVideoElement) => {
-    try {
-      const Hls = (await import('hls.js')).default;
-      if (Hls && Hls.isSupported()) {
-        const hls = new Hls({ enableWorker: true, debug: false, capLevelToPlayerSize: true, maxLoadingDelay: 4, maxBufferLength: 30, maxBufferSize: 60 * 1000 * 1000, fragLoadingTimeOut: 20000, manifestLoadingTimeOut: 10000, startLevel: -1, startPosition: -1, xhrSetup: (xhr: XMLHttpRequest) => { xhr.withCredentials = false; } });
-        hlsRef.current = hls;
-        
-        let retryCount = 0; const maxRetries = 3;
-        let mediaRecoveryAttempts = 0; 
+  const initHlsPlayer = async (url: string, video: HTMLVideoElement, lowLatencyConfig?: LowLatencyConfig) => {
+    const Hls = (await import('hls.js')).default;
+    if (Hls && Hls.isSupported()) {
+      const hls = new Hls({ enableWorker: true, debug: false, capLevelToPlayerSize: true, maxLoadingDelay: 4, ...getHlsLatencyConfig(lowLatencyConfig), maxBufferSize: 60 * 1000 * 1000, fragLoadingTimeOut: 20000, manifestLoadingTimeOut: 10000, startLevel: -1, startPosition: -1, xhrSetup: (xhr: XMLHttpRequest) => { xhr.withCredentials = false; } });
+      hlsRef.current = hls;
+      
+      let retryCount = 0; const maxRetries = 3;
+      let mediaRecoveryAttempts = 0; 
 
-        hls.on(Hls.Events.ERROR, (_, data) => {
-          if (!isMountedRef.current) return;
-          if (data.fatal) {
-            if (loadingTimeoutRef.current) clearTimeout(loadingTimeoutRef.current);
-            
-            if (data.type === Hls.ErrorTypes.NETWORK_ERROR) {
-                if (retryCount < maxRetries) { 
-                    retryCount++; 
-                    console.log(`HLS Network Error, retrying (${retryCount}/${maxRetries})...`);
-                    setTimeout(() => { hls.startLoad(); }, 1000 * retryCount); 
-                } else { 
-                    setPlayerState(prev => ({ ...prev, isLoading: false, error: 'Network error: Unable to load stream', showControls: false })); 
-                    if (onError) onError(); 
-                    destroyPlayer(); 
-                }
-            } else if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
-                if (mediaRecoveryAttempts < 2) {
-                    mediaRecoveryAttempts++;
-                    console.log(`HLS Media Error, recovering (${mediaRecoveryAttempts}/2)...`);
-                    hls.recoverMediaError();
-                } else {
-                    setPlayerState(prev => ({ ...prev, isLoading: false, error: 'Media error: Unable to play stream', showControls: false }));
-                    if (onError) onError();
-                    destroyPlayer();
-                }
-            } else { 
-                setPlayerState(prev => ({ ...prev, isLoading: false, error: 'Playback error occurred', showControls: false })); 
-                if (onError) onError(); 
-                destroyPlayer(); 
-            }
-          }
-        });
-        
-        hls.loadSource(url); hls.attachMedia(video);
-        hls.on(Hls.Events.MANIFEST_PARSED, () => {
-          if (!isMountedRef.current) return;
+      hls.on(Hls.Events.ERROR, (_, data) => {
+        if (!isMountedRef.current) return;
+        recordPlayerEvent('hls', data.fatal ? 'error' : 'warning', `${data.details}${data.response?.code ? ` (HTTP ${data.response.code})` : ''}`);
+        if (data.fatal) {
           if (loadingTimeoutRef.current) clearTimeout(loadingTimeoutRef.current);
-          const levels: QualityLevel[] = hls.levels.map((level: any, index: number) => ({ height: level.height || 0, bitrate: Math.round(level.bitrate / 1000), id: index }));
-          let audioTracks: AudioTrack[] = [];
-          if (hls.audioTracks && hls.audioTracks.length > 0) { audioTracks = hls.audioTracks.map((track: any, index: number) => ({ id: index, label: track.name || track.lang || `Audio ${index + 1}`, language: track.lang || 'unknown' })); } else { audioTracks = [{ id: 0, label: 'Default', language: 'und' }]; }
-          video.muted = muted;
-          if (autoPlay) { video.play().catch(() => { setPlayerState(prev => ({ ...prev, isPlaying: false })); }); }
-
-          const { currentTime, duration, startTime, isLive } = getTimeStats(video);
           
-          setPlayerState(prev => ({ ...prev, isLoading: false, error: null, availableQualities: levels, availableAudioTracks: audioTracks, currentQuality: hls.currentLevel, currentAudioTrack: hls.audioTrack || 0, isMuted: video.muted, isPlaying: !video.paused, showControls: true, isLive, currentTime, duration, startTime }));
-          updateCurrentQualityHeight(); startControlsTimer();
-        });
-        hls.on(Hls.Events.LEVEL_SWITCHED, () => { updateCurrentQualityHeight(); });
-      } else if (video.canPlayType('application/vnd.apple.mpegurl')) { initNativePlayer(url, video); } else { throw new Error('HLS is not supported in this browser'); }
-    } catch (error) { if (onError) onError(); throw error; }
-  };
-
-  const initShakaPlayer = async (url: string, video: HTMLVideoElement, drmInfo?: any) => {
-    try {
-      if (shaka.polyfill) shaka.polyfill.installAll();
-      const Player = shaka.Player;
-      if (!Player || !Player.isBrowserSupported()) throw new Error('This browser is not supported by Shaka Player');
-      if (shakaPlayerRef.current) await shakaPlayerRef.current.destroy();
-      const player = new Player(video);
-      shakaPlayerRef.current = player;
+          if (data.type === Hls.ErrorTypes.NETWORK_ERROR) {
+              if (retryCount < maxRetries) { 
+                  retryCount++; 
+                  recordPlayerEvent('hls', 'retry', `Reloading after network error (${retryCount}/${maxRetries})`);
+                  console.log(`HLS Network Error, retrying (${retryCount}/${maxRetries})...`);
+                  setTimeout(() => { hls.startLoad(); }, 1000 * retryCount); 
+              } else { 
+                  setPlayerState(prev => ({ ...prev, isLoading: false, error: 'Network error: Unable to load stream', showControls: false })); 
+                  reportError(); 
+                  destroyPlayer(); 
+              }
+          } else if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+              if (mediaRecoveryAttempts < 2) {
+                  mediaRecoveryAttempts++;
+                  recordPlayerEvent('hls', 'retry', `Recovering from media error (${mediaRecoveryAttempts}/2)`);
+                  console.log(`HLS Media Error, recovering (${mediaRecoveryAttempts}/2)...`);
+                  hls.recoverMediaError();
+              } else {
+                  setPlayerState(prev => ({ ...prev, isLoading: false, error: 'Media error: Unable to play stream', showControls: false }));
+                  reportError();
+                  destroyPlayer();
+              }
+          } else { 
+              setPlayerState(prev => ({ ...prev, isLoading: false, error: 'Playback error occurred', showControls: false })); 
+              reportError(); 
+              destroyPlayer(); 
+          }
+        }
+      });
       
-      player.configure({ 
-        streaming: { bufferingGoal: 15, rebufferingGoal: 8, bufferBehind: 30, retryParameters: { timeout: 8000, maxAttempts: 3, baseDelay: 1000, backoffFactor: 2 }, useNativeHlsOnSafari: true, jumpLargeGaps: true, inbandTextTracks: true },
-        manifest: { retryParameters: { timeout: 8000, maxAttempts: 3, baseDelay: 1000, backoffFactor: 2 }, dash: { clockSyncUri: '', ignoreDrmInfo: false, sequenceMode: false, timeShiftBufferDepth: 60 } },
-        abr: { enabled: true, defaultBandwidthEstimate: 1500000, bandwidthUpgradeSeconds: 5, bandwidthDowngradeSeconds: 10 },
-        drm: { retryParameters: { timeout: 5000, maxAttempts: 2 }, servers: {}, advanced: {} },
-        networking: { requestFilter: drmInfo && drmInfo.token ? (type: any, request: any) => { request.headers['Authorization'] = `Bearer ${drmInfo.token}`; } : undefined },
+      hls.loadSource(url); hls.attachMedia(video);
+      hls.on(Hls.Events.MANIFEST_PARSED, () => {
+        if (!isMountedRef.current) return;
+        if (loadingTimeoutRef.current) clearTimeout(loadingTimeoutRef.current);
+        const levels: QualityLevel[] = hls.levels.map((level: any, index: number) => ({ height: level.height || 0, bitrate: Math.round(level.bitrate / 1000), id: index }));
+        let audioTracks: AudioTrack[] = [];
+        if (hls.audioTracks && hls.audioTracks.length > 0) { audioTracks = hls.audioTracks.map((track: any, index: number) => ({ id: index, label: track.name || track.lang || `Audio ${index + 1}`, language: track.lang || 'unknown' })); } else { audioTracks = [{ id: 0, label: 'Default', language: 'und' }]; }
+        video.muted = muted;
+        if (autoPlay) { video.play().catch(() => { setPlayerState(prev => ({ ...prev, isPlaying: false })); }); }
+
+        const { currentTime, duration, startTime, isLive } = getTimeStats(video);
+        
+        setPlayerState(prev => ({ ...prev, isLoading: false, error: null, availableQualities: levels, availableAudioTracks: audioTracks, currentQuality: hls.currentLevel, currentAudioTrack: hls.audioTrack || 0, isMuted: video.muted, isPlaying: !video.paused, showControls: true, isLive, currentTime, duration, startTime }));
+        updateCurrentQualityHeight(); startControlsTimer();
       });
+      hls.on(Hls.Events.LEVEL_SWITCHED, () => { updateCurrentQualityHeight(); });
+    } else if (video.canPlayType('application/vnd.apple.mpegurl')) { initNativePlayer(url, video); } else { throw new Error('HLS is not supported in this browser'); }
+  };
 
-      if (drmInfo) {
-         if (drmInfo.scheme === 'clearkey') {
-            if (drmInfo.license && drmInfo.license.includes(':')) { const [keyId, key] = drmInfo.license.split(':'); player.configure({ drm: { clearKeys: { [keyId]: key } } }); } 
-            else if (drmInfo.token) { player.configure({ drm: { servers: { 'com.widevine.alpha': 'https://your-license-server.com/clearkey' }, advanced: { 'com.widevine.alpha': { requestType: 1, serverCertificate: undefined } } } }); player.getNetworkingEngine().registerRequestFilter((type: any, request: any) => { if (type === shaka.net.NetworkingEngine.RequestType.LICENSE) { request.headers['Authorization'] = `Bearer ${drmInfo.token}`; request.body = JSON.stringify({ kids: [], type: 'temporary' }); } }); }
-          } else { if (drmInfo.licenseServer) { player.configure({ drm: { servers: { [drmInfo.scheme]: drmInfo.licenseServer } } }); } }
-      }
+  const initShakaPlayer = async (url: string, video: HTMLVideoElement, drmConfig?: DrmConfig, lowLatencyConfig?: LowLatencyConfig, mimeType?: string) => {
+    if (shaka.polyfill) shaka.polyfill.installAll();
+    const Player = shaka.Player;
+    if (!Player || !Player.isBrowserSupported()) throw new Error('This browser is not supported by Shaka Player');
+    if (shakaPlayerRef.current) await shakaPlayerRef.current.destroy();
+    const player = new Player(video);
+    shakaPlayerRef.current = player;
+    
+    player.configure({ 
+      streaming: { ...getShakaStreamingConfig(lowLatencyConfig), bufferBehind: 30, retryParameters: { timeout: 8000, maxAttempts: 3, baseDelay: 1000, backoffFactor: 2 }, useNativeHlsOnSafari: true, jumpLargeGaps: true, inbandTextTracks: true },
+      manifest: { retryParameters: { timeout: 8000, maxAttempts: 3, baseDelay: 1000, backoffFactor: 2 }, dash: { clockSyncUri: '', ignoreDrmInfo: false, sequenceMode: false, timeShiftBufferDepth: 60 } },
+      abr: { enabled: true, defaultBandwidthEstimate: 1500000, bandwidthUpgradeSeconds: 5, bandwidthDowngradeSeconds: 10 },
+      drm: { retryParameters: { timeout: 5000, maxAttempts: 2 }, servers: {}, advanced: {} },
+    });
 
-      const onErrorHandler = (event: any) => {
-        if (loadingTimeoutRef.current) clearTimeout(loadingTimeoutRef.current);
-        const errorCode = event.detail.code;
-        let errorMessage = `Stream error occurred`;
-        if (errorCode >= 6000 && errorCode < 7000) errorMessage = 'Network error: Unable to load stream';
-        else if (errorCode >= 4000 && errorCode < 5000) errorMessage = 'Manifest parse failed';
-        else if (errorCode >= 1000 && errorCode < 2000) errorMessage = 'DRM error';
-        else if (errorCode === 1003) errorMessage = 'No playable streams';
-        
-        setPlayerState(prev => ({ ...prev, isLoading: false, error: errorMessage, showControls: false }));
-        
-        // Only retry internally if needed, but here we let Shaka fail after its own retries
-        if (onError) onError();
-        destroyPlayer();
-      };
-      
-      player.addEventListener('error', onErrorHandler);
-      await player.load(url);
+    if (drmConfig) {
+      const { keySystem, licenseUrl, licenseHeaders, serverCertificateUrl, clearKeys } = drmConfig;
+      player.configure({
+        drm: {
+          ...(clearKeys && { clearKeys }),
+          ...(licenseUrl && { servers: { [keySystem]: licenseUrl } }),
+          advanced: { [keySystem]: { headers: licenseHeaders || {}, serverCertificateUri: serverCertificateUrl || '' } },
+        },
+      });
+    }
+
+    const onErrorHandler = (event: any) => {
       if (loadingTimeoutRef.current) clearTimeout(loadingTimeoutRef.current);
+      const errorCode = event.detail.code;
+      recordPlayerEvent('shaka', event.detail.severity === shaka.util.Error.Severity.CRITICAL ? 'error' : 'warning', `Error ${errorCode} (category ${event.detail.category})`);
+      let errorMessage = `Stream error occurred`;
+      if (errorCode >= 6000 && errorCode < 7000) errorMessage = 'Network error: Unable to load stream';
+      else if (errorCode >= 4000 && errorCode < 5000) errorMessage = 'Manifest parse failed';
+      else if (errorCode >= 1000 && errorCode < 2000) errorMessage = 'DRM error';
+      else if (errorCode === 1003) errorMessage = 'No playable streams';
       
-      const tracks = player.getVariantTracks();
-      const qualities: QualityLevel[] = tracks.map(track => ({ height: track.height || 0, bitrate: Math.round(track.bandwidth / 1000), id: track.id }));
-      const textTracks = player.getTextTracks();
-      const subtitles: SubtitleTrack[] = textTracks.map(track => ({ id: track.id.toString(), label: track.label || track.language || 'Unknown', language: track.language || 'unknown' }));
-      let audioTracks: AudioTrack[] = [];
-      const audioInfos = player.getAudioLanguagesAndRoles();
-      if (audioInfos && audioInfos.length > 0) { audioTracks = audioInfos.map((audioInfo: any, index: number) => ({ id: index, label: audioInfo.language || `Audio ${index + 1}`, language: audioInfo.language || 'unknown' })); } else { audioTracks = [{ id: 0, label: 'Default', language: 'und' }]; }
+      setPlayerState(prev => ({ ...prev, isLoading: false, error: errorMessage, showControls: false }));
       
-      video.muted = muted;
-      if (autoPlay) video.play().catch(() => {});
+      // Only retry internally if needed, but here we let Shaka fail after its own retries
+      reportError();
+      destroyPlayer();
+    };
+    
+    player.addEventListener('error', onErrorHandler);
+    player.getNetworkingEngine()?.addEventListener('retry', (event: Event & { error?: { code?: number } }) => {
+      recordPlayerEvent('shaka', 'retry', `Retrying request${event.error?.code ? ` after error ${event.error.code}` : ''}`);
+    });
+    // Proxied URLs hide their extension, so tell Shaka when the source is HLS
+    await player.load(url, null, mimeType);
+    if (loadingTimeoutRef.current) clearTimeout(loadingTimeoutRef.current);
+    
+    const tracks = player.getVariantTracks();
+    const qualities: QualityLevel[] = tracks.map(track => ({ height: track.height || 0, bitrate: Math.round(track.bandwidth / 1000), id: track.id }));
+    const textTracks = player.getTextTracks();
+    const subtitles: SubtitleTrack[] = textTracks.map(track => ({ id: track.id.toString(), label: track.label || track.language || 'Unknown', language: track.language || 'unknown' }));
+    let audioTracks: AudioTrack[] = [];
+    const audioInfos = player.getAudioLanguagesAndRoles();
+    if (audioInfos && audioInfos.length > 0) { audioTracks = audioInfos.map((audioInfo: any, index: number) => ({ id: index, label: audioInfo.language || `Audio ${index + 1}`, language: audioInfo.language || 'unknown' })); } else { audioTracks = [{ id: 0, label: 'Default', language: 'und' }]; }
+    
+    video.muted = muted;
+    if (autoPlay) video.play().catch(() => {});
 
-      const { currentTime, duration, startTime, isLive } = getTimeStats(video);
-      
-      setPlayerState(prev => ({ ...prev, isLoading: false, error: null, availableQualities: qualities, availableSubtitles: subtitles, availableAudioTracks: audioTracks, currentQuality: -1, currentAudioTrack: 0, isMuted: video.muted, isPlaying: true, showControls: true, isLive, currentTime, duration, startTime }));
-      updateCurrentQualityHeight(); startControlsTimer();
-      return () => player.removeEventListener('error', onErrorHandler);
-    } catch (error) { if (onError) onError(); throw error; }
+    const { currentTime, duration, startTime, isLive } = getTimeStats(video);
+    
+    setPlayerState(prev => ({ ...prev, isLoading: false, error: null, availableQualities: qualities, availableSubtitles: subtitles, availableAudioTracks: audioTracks, currentQuality: -1, currentAudioTrack: 0, isMuted: video.muted, isPlaying: true, showControls: true, isLive, currentTime, duration, startTime }));
+    updateCurrentQualityHeight(); startControlsTimer();
+    return () => player.removeEventListener('error', onErrorHandler);
   };
 
   const initNativePlayer = (url: string, video: HTMLVideoElement) => {
@@ -357,8 +411,9 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     const onErrorHandler = () => {
       if (!isMountedRef.current) return;
       if (loadingTimeoutRef.current) clearTimeout(loadingTimeoutRef.current);
+      recordPlayerEvent('native', 'error', video.error?.message || `Media error ${video.error?.code ?? ''}`.trim());
       setPlayerState(prev => ({ ...prev, isLoading: false, error: 'Failed to load stream with native player', showControls: false }));
-      if (onError) onError();
+      reportError();
     };
     video.addEventListener('loadedmetadata', onLoadedMetadata, { once: true });
     video.addEventListener('error', onErrorHandler, { once: true });
@@ -427,8 +482,9 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     const updateStateWithTime = () => {
         if (!isMountedRef.current || !video) return;
         const buffered = video.buffered.length > 0 ? video.buffered.end(video.buffered.length - 1) : 0;
-        const { currentTime, duration, startTime, isLive } = getTimeStats(video);
-        setPlayerState(prev => ({ ...prev, currentTime, duration, startTime, buffered, isLive }));
+        const { currentTime, duration, startTime, isLive, livePosition } = getTimeStats(video);
+        setPlayerState(prev => ({ ...prev, currentTime, duration, startTime, buffered, isLive, livePosition }));
+        if (!isLive) onTimeUpdateRef.current?.(currentTime, duration);
     };
 
     const handleTimeUpdate = () => { if (playerState.isSeeking) return; updateStateWithTime(); };
@@ -448,6 +504,15 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     video.removeEventListener('volumechange', handleVolumeChange); video.removeEventListener('enterpictureinpicture', handleEnterPip); video.removeEventListener('leavepictureinpicture', handleLeavePip); document.removeEventListener('fullscreenchange', handleFullscreenChange); };
   }, [playerState.isSeeking, resetControlsTimer, getTimeStats]);
 
+  // Resume an on-demand stream where it was left, once per load and only once its length is known
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || startAppliedRef.current || !startPosition || playerState.isLoading || playerState.isLive) return;
+    if (!isFinite(playerState.duration) || playerState.duration <= 0) return;
+    startAppliedRef.current = true;
+    if (startPosition < playerState.duration) video.currentTime = startPosition;
+  }, [startPosition, playerState.isLoading, playerState.isLive, playerState.duration]);
+
   useEffect(() => { if (!playerState.showSettings && playerState.isPlaying && !playerState.isSeeking) { startControlsTimer(); } }, [playerState.showSettings, playerState.isPlaying, playerState.isSeeking, startControlsTimer]);
 
   useEffect(() => {
@@ -465,7 +530,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
 
   const calculateNewTime = useCallback((clientX: number): number | null => {
     const video = videoRef.current; const progressBar = progressRef.current; 
-    if (!video || !progressBar || !isFinite(playerState.duration) || playerState.duration <= 0 || playerState.isLive) return null; 
+    if (!video || !progressBar || !canScrub(playerState.duration, playerState.startTime, playerState.isLive)) return null; 
     const rect = progressBar.getBoundingClientRect(); 
     const clickX = Math.max(0, Math.min(clientX - rect.left, rect.width)); 
     const percentage = clickX / rect.width; 
@@ -475,7 +540,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
 
   const throttledUpdate = useCallback((updateFn: () => void) => { if (rafRef.current) cancelAnimationFrame(rafRef.current); rafRef.current = requestAnimationFrame(updateFn); }, []);
 
-  const handleDragStart = useCallback((e: React.MouseEvent) => { e.stopPropagation(); const video = videoRef.current; if (!video || !isFinite(playerState.duration) || playerState.duration <= 0 || playerState.isLive) return; wasPlayingBeforeSeekRef.current = !video.paused; dragStartRef.current = { isDragging: true }; setPlayerState(prev => ({ ...prev, isSeeking: true, showControls: true })); video.pause(); lastActivityRef.current = Date.now(); }, [playerState.isLive, playerState.duration]);
+  const handleDragStart = useCallback((e: React.MouseEvent) => { e.stopPropagation(); const video = videoRef.current; if (!video || !canScrub(playerState.duration, playerState.startTime, playerState.isLive)) return; wasPlayingBeforeSeekRef.current = !video.paused; dragStartRef.current = { isDragging: true }; setPlayerState(prev => ({ ...prev, isSeeking: true, showControls: true })); video.pause(); lastActivityRef.current = Date.now(); }, [playerState.isLive, playerState.duration, playerState.startTime]);
 
   const handleDragMove = useCallback((e: MouseEvent) => { if (!dragStartRef.current?.isDragging) return; e.preventDefault(); throttledUpdate(() => { const newTime = calculateNewTime(e.clientX); if (newTime !== null) { setPlayerState(prev => ({ ...prev, currentTime: newTime, showControls: true })); seekTimeRef.current = newTime; } lastActivityRef.current = Date.now(); }); }, [calculateNewTime, throttledUpdate]);
 
@@ -486,7 +551,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
     e.stopPropagation();
     const video = videoRef.current;
-    if (!video || !isFinite(playerState.duration) || playerState.duration <= 0 || playerState.isLive) return;
+    if (!video || !canScrub(playerState.duration, playerState.startTime, playerState.isLive)) return;
     wasPlayingBeforeSeekRef.current = !video.paused;
     const rect = progressRef.current?.getBoundingClientRect();
     if (!rect) return;
@@ -523,39 +588,112 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   const toggleMute = useCallback(() => { const video = videoRef.current; if (video) { video.muted = !video.muted; setPlayerState(prev => ({ ...prev, showControls: true })); lastActivityRef.current = Date.now(); } }, []);
   const handleVolumeChange = useCallback((newVolume: number) => { const video = videoRef.current; if (video) { video.volume = newVolume / 100; video.muted = newVolume === 0; setVolume(newVolume); setPlayerState(prev => ({ ...prev, isMuted: newVolume === 0, showControls: true })); lastActivityRef.current = Date.now(); } }, []);
 
+  const jumpToLive = useCallback(() => {
+    const video = videoRef.current; if (!video) return;
+    const hls = hlsRef.current;
+    if (playerTypeRef.current === 'shaka' && shakaPlayerRef.current) { shakaPlayerRef.current.goToLive(); }
+    else if (hls && hls.liveSyncPosition !== null) { video.currentTime = hls.liveSyncPosition; }
+    else if (video.seekable.length > 0) { video.currentTime = video.seekable.end(video.seekable.length - 1); }
+    if (video.paused) video.play().catch(console.error);
+    setPlayerState(prev => ({ ...prev, showControls: true })); lastActivityRef.current = Date.now();
+  }, []);
+
   const seekBackward = useCallback(() => {
     const video = videoRef.current; if (!video) return;
-    if (playerState.isLive && shakaPlayerRef.current) {
-      const liveEdge = shakaPlayerRef.current.getPlayheadTimeAsDate();
-      if (liveEdge) { const newTime = new Date(liveEdge.getTime() - 10000); shakaPlayerRef.current.seek(newTime); }
-    } else { 
-        video.currentTime = Math.max(playerState.startTime, video.currentTime - 10); 
-    }
+    video.currentTime = Math.max(playerState.startTime, video.currentTime - 10);
     setPlayerState(prev => ({ ...prev, showControls: true })); lastActivityRef.current = Date.now();
-  }, [playerState.isLive, playerState.startTime]);
+  }, [playerState.startTime]);
 
   const seekForward = useCallback(() => {
     const video = videoRef.current; if (!video) return;
-    if (playerState.isLive && shakaPlayerRef.current) {
-      const liveEdge = shakaPlayerRef.current.getPlayheadTimeAsDate(); const currentTime = shakaPlayerRef.current.getPlayheadTimeAsDate();
-      if (liveEdge && currentTime) { const newTime = new Date(Math.min(liveEdge.getTime(), currentTime.getTime() + 10000)); shakaPlayerRef.current.seek(newTime); }
-    } else { 
-        video.currentTime = Math.min(playerState.duration, video.currentTime + 10); 
-    }
+    // Seeking past where the engine plays live from would only stall; go live instead
+    if (playerState.livePosition && video.currentTime + 10 >= playerState.duration - playerState.livePosition.target) { jumpToLive(); return; }
+    video.currentTime = Math.min(playerState.duration, video.currentTime + 10);
     setPlayerState(prev => ({ ...prev, showControls: true })); lastActivityRef.current = Date.now();
-  }, [playerState.isLive, playerState.duration]);
+  }, [playerState.livePosition, playerState.duration, jumpToLive]);
 
   const toggleFullscreen = useCallback(async () => { const container = containerRef.current; if (!container) return; try { if (document.fullscreenElement) { await document.exitFullscreen(); if (screen.orientation && 'unlock' in screen.orientation) { try { (screen.orientation as any).unlock(); } catch (e) { } } } else { await container.requestFullscreen(); if (screen.orientation && 'lock' in screen.orientation && isMobile) { try { await (screen.orientation as any).lock('landscape').catch(() => {}); } catch (e) { } } } } catch (error) { } setPlayerState(prev => ({ ...prev, showControls: true })); lastActivityRef.current = Date.now(); }, [isMobile]);
   const togglePip = useCallback(async () => { const video = videoRef.current; if (!video || !document.pictureInPictureEnabled) return; try { if (document.pictureInPictureElement) { await document.exitPictureInPicture(); } else { await video.requestPictureInPicture(); } } catch (error) { } setPlayerState(prev => ({ ...prev, showControls: true })); lastActivityRef.current = Date.now(); }, []);
   const handleMouseMove = useCallback(() => { if (!playerState.showSettings) resetControlsTimer(); }, [playerState.showSettings, resetControlsTimer]);
   const handlePlayerClick = useCallback(() => { if (playerState.showSettings) { setPlayerState(prev => ({ ...prev, showSettings: false })); setExpandedSettingItem(null); } else { if (playerState.showControls) { setPlayerState(prev => ({ ...prev, showControls: false })); if (controlsTimeoutRef.current) clearTimeout(controlsTimeoutRef.current); } else { resetControlsTimer(); } } }, [playerState.showSettings, playerState.showControls, resetControlsTimer]);
   const handleSettingsToggle = (e: React.MouseEvent) => { e.stopPropagation(); setPlayerState(prev => { const newShowSettings = !prev.showSettings; if (!newShowSettings) { setExpandedSettingItem(null); } return { ...prev, showSettings: newShowSettings, showControls: true }; }); lastActivityRef.current = Date.now(); };
+  const toggleStats = () => { setShowStats(open => !open); setPlayerState(prev => ({ ...prev, showSettings: false })); setExpandedSettingItem(null); };
   const handleSettingClick = (setting: string) => { setExpandedSettingItem(expandedSettingItem === setting ? null : setting); };
 
   const getCurrentQualityLabel = () => { const height = playerState.currentQualityHeight; if (playerState.currentQuality === -1) return `Auto (${height}p)`; const quality = playerState.availableQualities.find(q => q.id === playerState.currentQuality); return quality ? `${quality.height}p` : `${height}p`; };
   const getCurrentAudioLabel = () => { const track = playerState.availableAudioTracks.find(a => a.id === playerState.currentAudioTrack); return track ? track.label : 'Default'; };
   const getCurrentSpeedLabel = () => { const speed = videoRef.current?.playbackRate || 1; return speed === 1 ? 'Normal' : `${speed}x`; };
 
+  const showKeyHint = useCallback((hint: string) => {
+    setKeyHint(hint);
+    if (keyHintTimeoutRef.current) clearTimeout(keyHintTimeoutRef.current);
+    keyHintTimeoutRef.current = setTimeout(() => { if (isMountedRef.current) setKeyHint(null); }, KEY_HINT_DURATION);
+  }, []);
+
+  // Rebuilt on every render so it sees the current state; the listener is only added once
+  const handleKeyDownRef = useRef<(event: KeyboardEvent) => void>();
+  handleKeyDownRef.current = (event: KeyboardEvent) => {
+    if (event.defaultPrevented || isFocusedControlKey(event)) return;
+    const shortcut = getPlayerShortcut(event);
+    if (!shortcut) return;
+    // Scrolled out of view, the arrow keys and space scroll the page as usual
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.bottom <= 0 || rect.top >= window.innerHeight) return;
+    const video = videoRef.current;
+
+    switch (shortcut.action) {
+      case 'toggleHelp': setShowShortcuts(open => !open); break;
+      case 'back':
+        // Only closes the player's own overlays; otherwise the page or TV app handles it
+        if (!showShortcuts && !playerState.showSettings) return;
+        setShowShortcuts(false); setPlayerState(prev => ({ ...prev, showSettings: false })); setExpandedSettingItem(null);
+        break;
+      case 'previousChannel': if (!onPreviousChannel) return; onPreviousChannel(); break;
+      case 'nextChannel': if (!onNextChannel) return; onNextChannel(); break;
+      default: {
+        if (!video || playerState.error) return;
+        switch (shortcut.action) {
+          case 'togglePlay': showKeyHint(video.paused ? 'Play' : 'Pause'); togglePlay(); break;
+          case 'play': if (video.paused) togglePlay(); break;
+          case 'pause': if (!video.paused) togglePlay(); break;
+          case 'seekBackward': seekBackward(); showKeyHint('-10s'); break;
+          case 'seekForward': seekForward(); showKeyHint('+10s'); break;
+          case 'volumeUp':
+          case 'volumeDown': {
+            const current = video.muted ? 0 : Math.round(video.volume * 100);
+            const next = Math.max(0, Math.min(100, current + (shortcut.action === 'volumeUp' ? VOLUME_STEP : -VOLUME_STEP)));
+            handleVolumeChange(next); showKeyHint(`Volume ${next}%`);
+            break;
+          }
+          case 'toggleMute': showKeyHint(video.muted ? 'Unmuted' : 'Muted'); toggleMute(); break;
+          case 'toggleFullscreen': toggleFullscreen(); break;
+          case 'togglePip': togglePip(); break;
+          case 'toggleSubtitles': {
+            const [firstSubtitle] = playerState.availableSubtitles;
+            if (!firstSubtitle) { showKeyHint('No subtitles'); break; }
+            const next = playerState.currentSubtitle ? '' : firstSubtitle.id;
+            changeSubtitle(next); showKeyHint(next ? `Subtitles: ${firstSubtitle.label}` : 'Subtitles off');
+            break;
+          }
+          case 'seekPercent': {
+            if (!canScrub(playerState.duration, playerState.startTime, playerState.isLive)) return;
+            video.currentTime = playerState.startTime + (playerState.duration - playerState.startTime) * (shortcut.percent / 100);
+            showKeyHint(`${shortcut.percent}%`);
+            break;
+          }
+        }
+        resetControlsTimer();
+      }
+    }
+    event.preventDefault();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => handleKeyDownRef.current?.(event);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => { document.removeEventListener('keydown', handleKeyDown); if (keyHintTimeoutRef.current) clearTimeout(keyHintTimeoutRef.current); };
+  }, []);
+
   useEffect(() => { const handleGlobalMouseMove = (e: MouseEvent) => { if (dragStartRef.current?.isDragging) handleDragMove(e); }; const handleGlobalMouseUp = () => { if (dragStartRef.current?.isDragging) handleDragEnd(); }; document.addEventListener('mousemove', handleGlobalMouseMove); document.addEventListener('mouseup', handleGlobalMouseUp); return () => { document.removeEventListener('mousemove', handleGlobalMouseMove); document.removeEventListener('mouseup', handleGlobalMouseUp); }; }, [handleDragMove, handleDragEnd]);
   useEffect(() => { const handleGlobalTouchEnd = () => { if (touchStartRef.current) handleTouchEnd(); }; document.addEventListener('touchend', handleGlobalTouchEnd, { passive: false }); return () => document.removeEventListener('touchend', handleGlobalTouchEnd); }, [handleTouchEnd]);
 
@@ -570,9 +708,17 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   const relativeCurrent = getRelativeTime();
   const relativeDur = getRelativeDuration();
   
-  const currentTimePercentage = (isFinite(relativeDur) && relativeDur > 0 && !playerState.isLive) 
-    ? (relativeCurrent / relativeDur) * 100 
+  const isScrubbable = canScrub(playerState.duration, playerState.startTime, playerState.isLive);
+  const currentTimePercentage = (isFinite(relativeDur) && relativeDur > 0 && isScrubbable) 
+    ? Math.min(100, (relativeCurrent / relativeDur) * 100) 
     : (playerState.isLive ? 100 : 0);
+  const bufferedPercentage = isFinite(relativeDur) && relativeDur > 0 ? Math.min(100, (Math.max(0, playerState.buffered - playerState.startTime) / relativeDur) * 100) : 0;
+
+  // Live streams get a LIVE button showing how far behind the edge playback is; with a DVR
+  // window the progress bar becomes a timeline of it in wall-clock time
+  const { livePosition } = playerState;
+  const atLiveEdge = !livePosition || isAtLiveEdge(livePosition.behind, livePosition.target);
+  const dvrTimeline = livePosition && isScrubbable ? livePosition : null;
 
   const getControlSizes = () => {
     const isTablet = isMobile && window.innerWidth > 768;
@@ -607,8 +753,10 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
           
           <div className={`absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 via-black/60 to-transparent ${sizes.containerPaddingClass} flex flex-col`} style={{ maxHeight: isMobile ? '35%' : '30%' }}>
             <div className="mb-2 md:mb-3 flex-shrink-0">
-              <div ref={progressRef} className="relative h-2 py-2 -my-2 bg-transparent cursor-pointer group" onClick={handleProgressClick} onTouchMove={handleTouchMove} onTouchEnd={handleTouchEnd}>
-                <div className={`absolute ${sizes.progressInsetClass} top-1/2 -translate-y-1/2 ${sizes.progressBarClass} bg-white/30 rounded-full overflow-hidden`}> <div className="absolute top-0 left-0 h-full bg-white/50 rounded-full transition-all duration-200" style={{ width: isFinite(playerState.duration) && playerState.duration > 0 ? `${(playerState.buffered / playerState.duration) * 100}%` : '0%' }}/> <div className="absolute top-0 left-0 h-full bg-red-600 rounded-full" style={{ width: `${currentTimePercentage}%` }}/> </div>
+              {dvrTimeline && ( <div className="flex justify-between mb-2 text-[11px] text-white/60 pointer-events-none" data-testid="text-dvr-window"> <span>{formatClock(playerState.startTime * 1000 + dvrTimeline.clockOffset)}</span> <span>{formatClock(playerState.duration * 1000 + dvrTimeline.clockOffset)}</span> </div> )}
+              <div ref={progressRef} className={`relative h-2 py-2 -my-2 bg-transparent ${isScrubbable ? 'cursor-pointer' : ''} group`} onClick={handleProgressClick} onTouchMove={handleTouchMove} onTouchEnd={handleTouchEnd}>
+                {dvrTimeline && playerState.isSeeking && ( <div className="absolute bottom-full mb-3 -translate-x-1/2 whitespace-nowrap rounded bg-black/80 px-2 py-1 text-xs text-white pointer-events-none" style={{ left: `${currentTimePercentage}%` }}> {formatClock(playerState.currentTime * 1000 + dvrTimeline.clockOffset)} · {formatLiveOffset(Math.max(0, playerState.duration - playerState.currentTime))} </div> )}
+                <div className={`absolute ${sizes.progressInsetClass} top-1/2 -translate-y-1/2 ${sizes.progressBarClass} bg-white/30 rounded-full overflow-hidden`}> <div className="absolute top-0 left-0 h-full bg-white/50 rounded-full transition-all duration-200" style={{ width: `${bufferedPercentage}%` }}/> <div className="absolute top-0 left-0 h-full bg-red-600 rounded-full" style={{ width: `${currentTimePercentage}%` }}/> </div>
                 <div className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 ${sizes.progressThumbClass} rounded-full bg-red-600 shadow-md transition-all duration-150 ease-out group-hover:scale-150`} style={{ left: `${currentTimePercentage}%` }} onMouseDown={handleDragStart} onClick={(e) => e.stopPropagation()} onTouchStart={handleTouchStart}/>
               </div>
             </div>
@@ -639,7 +787,9 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                   </div>
                   
                   <div className={`text-white ${sizes.textClass} whitespace-nowrap flex-shrink-0 mx-2 font-medium`} data-testid="text-time"> 
-                    {playerState.isLive ? ( 
+                    {livePosition ? (
+                        <button onClick={(e) => { e.stopPropagation(); jumpToLive(); }} className="flex items-center gap-2 hover:text-accent transition-colors" title={atLiveEdge ? 'Playing live' : 'Jump to live'} data-testid="button-live"> <span className={`w-2 h-2 rounded-full ${atLiveEdge ? 'bg-red-600 animate-pulse' : 'bg-white/50'}`}/> LIVE {!atLiveEdge && <span className="text-white/70">{formatLiveOffset(livePosition.behind)}</span>} </button>
+                    ) : playerState.isLive ? ( 
                         <span className="flex items-center gap-2"> <span className="w-2 h-2 rounded-full bg-red-600 animate-pulse"/> LIVE </span> 
                     ) : ( 
                         <>{formatTime(relativeCurrent)} / {formatTime(relativeDur)}</> 
@@ -648,7 +798,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
 
                   <div className="flex items-center gap-1 flex-shrink-0"> <button onClick={(e) => { e.stopPropagation(); seekBackward(); }} className={`text-white hover:text-accent transition-colors ${sizes.paddingClass} flex-shrink-0`} title="Seek backward 10s" data-testid="button-rewind"> <Rewind size={sizes.iconSmall} /> </button> <button onClick={(e) => { e.stopPropagation(); togglePlay(); }} className={`text-white hover:text-accent transition-colors ${sizes.paddingClass} flex-shrink-0`} data-testid="button-play-pause"> {playerState.isPlaying ? <Pause size={sizes.iconMedium} /> : <Play size={sizes.iconMedium} />} </button> <button onClick={(e) => { e.stopPropagation(); seekForward(); }} className={`text-white hover:text-accent transition-colors ${sizes.paddingClass} flex-shrink-0`} title="Seek forward 10s" data-testid="button-forward"> <FastForward size={sizes.iconSmall} /> </button> </div>
                   <div className="flex-1 min-w-4"></div>
-                  <div className="flex items-center gap-1 flex-shrink-0"> {document.pictureInPictureEnabled && ( <button onClick={(e) => { e.stopPropagation(); togglePip(); }} className={`text-white hover:text-accent transition-colors ${sizes.paddingClass} flex-shrink-0`} title="Picture-in-picture" data-testid="button-pip"> <PictureInPicture2 size={sizes.iconSmall} /> </button> )} <button onClick={handleSettingsToggle} className={`text-white hover:text-accent transition-colors ${sizes.paddingClass} flex-shrink-0`} title="Settings" data-testid="button-settings"> <Settings size={sizes.iconSmall} /> </button> <button onClick={(e) => { e.stopPropagation(); toggleFullscreen(); }} className={`text-white hover:text-accent transition-colors ${sizes.paddingClass} flex-shrink-0`} title="Fullscreen" data-testid="button-fullscreen"> {playerState.isFullscreen ? <Minimize size={sizes.iconSmall} /> : <Maximize size={sizes.iconSmall} />} </button> </div>
+                  <div className="flex items-center gap-1 flex-shrink-0"> {document.pictureInPictureEnabled && ( <button onClick={(e) => { e.stopPropagation(); togglePip(); }} className={`text-white hover:text-accent transition-colors ${sizes.paddingClass} flex-shrink-0`} title="Picture-in-picture" data-testid="button-pip"> <PictureInPicture2 size={sizes.iconSmall} /> </button> )} <button onClick={(e) => { e.stopPropagation(); setShowShortcuts(true); }} className={`text-white hover:text-accent transition-colors ${sizes.paddingClass} flex-shrink-0`} title="Keyboard shortcuts (?)" data-testid="button-shortcuts"> <Keyboard size={sizes.iconSmall} /> </button> <button onClick={handleSettingsToggle} className={`text-white hover:text-accent transition-colors ${sizes.paddingClass} flex-shrink-0`} title="Settings" data-testid="button-settings"> <Settings size={sizes.iconSmall} /> </button> <button onClick={(e) => { e.stopPropagation(); toggleFullscreen(); }} className={`text-white hover:text-accent transition-colors ${sizes.paddingClass} flex-shrink-0`} title="Fullscreen" data-testid="button-fullscreen"> {playerState.isFullscreen ? <Minimize size={sizes.iconSmall} /> : <Maximize size={sizes.iconSmall} />} </button> </div>
                 </div>
               )}
               
@@ -657,7 +807,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                   <div className={`flex items-center ${sizes.gapClass} flex-shrink-0`}> 
                     <button onClick={(e) => { e.stopPropagation(); toggleMute(); }} className={`text-white hover:text-accent transition-colors ${sizes.paddingClass} flex-shrink-0`} data-testid="button-volume-mobile"> {playerState.isMuted ? <VolumeX size={sizes.iconSmall} /> : <Volume2 size={sizes.iconSmall} />} </button> 
                     <div className={`text-white ${sizes.textClass} whitespace-nowrap flex-shrink-0 mx-1 font-medium`} data-testid="text-time-mobile"> 
-                        {playerState.isLive ? ( <span className="flex items-center gap-1.5 text-red-500 font-bold"> <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse"/> LIVE </span> ) : ( <>{formatTime(relativeCurrent)} / {formatTime(relativeDur)}</> )} 
+                        {livePosition ? ( <button onClick={(e) => { e.stopPropagation(); jumpToLive(); }} className={`flex items-center gap-1.5 font-bold ${atLiveEdge ? 'text-red-500' : 'text-white'}`} data-testid="button-live-mobile"> <span className={`w-1.5 h-1.5 rounded-full ${atLiveEdge ? 'bg-red-500 animate-pulse' : 'bg-white/50'}`}/> LIVE {!atLiveEdge && <span className="font-medium text-white/70">{formatLiveOffset(livePosition.behind)}</span>} </button> ) : playerState.isLive ? ( <span className="flex items-center gap-1.5 text-red-500 font-bold"> <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse"/> LIVE </span> ) : ( <>{formatTime(relativeCurrent)} / {formatTime(relativeDur)}</> )} 
                     </div> 
                   </div>
                   <div className={`flex items-center ${sizes.gapClass} flex-shrink-0`}> <button onClick={(e) => { e.stopPropagation(); seekBackward(); }} className={`text-white hover:text-accent transition-colors ${sizes.paddingClass} flex-shrink-0`} data-testid="button-rewind-mobile"> <Rewind size={sizes.iconSmall} /> </button> <button onClick={(e) => { e.stopPropagation(); seekForward(); }} className={`text-white hover:text-accent transition-colors ${sizes.paddingClass} flex-shrink-0`} data-testid="button-forward-mobile"> <FastForward size={sizes.iconSmall} /> </button> </div>
@@ -685,7 +835,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
               ) : expandedSettingItem === 'speed' ? (
                 <div> <button onClick={() => setExpandedSettingItem(null)} className="w-full flex items-center gap-3 px-4 py-3 text-white"> <ChevronRight size={18} className="rotate-180" /> <span className="text-sm">Playback speed</span> </button> {[0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2].map(speed => ( <button key={speed} onClick={() => { changePlaybackSpeed(speed); }} className={`w-full text-left px-12 py-2 text-sm text-white transition-colors flex items-center justify-between ${videoRef.current?.playbackRate === speed ? 'bg-white/20' : 'hover:bg-white/10'}`}> <span>{speed === 1 ? 'Normal' : `${speed}x`}</span> {videoRef.current?.playbackRate === speed && <Check size={16} className="text-green-500 ml-auto" />} </button> ))} </div>
               ) : expandedSettingItem === 'more' ? (
-                <div> <button onClick={() => setExpandedSettingItem(null)} className="w-full flex items-center gap-3 px-4 py-3 text-white"> <ChevronRight size={18} className="rotate-180" /> <span className="text-sm">More</span> </button> {playerState.availableSubtitles.length > 0 && ( <button onClick={() => handleSettingClick('captions')} className="w-full flex items-center justify-between px-12 py-2 text-sm text-white hover:bg-white/10 transition-colors"> <div className="flex items-center gap-3"> <Subtitles size={16} /> <span>Captions</span> </div> <ChevronRight size={14} className="text-white/70" /> </button> )} <button onClick={() => handleSettingClick('audio')} className="w-full flex items-center justify-between px-12 py-2 text-sm text-white hover:bg-white/10 transition-colors"> <div className="flex items-center gap-3"> <Music size={16} /> <span>Audio</span> </div> <ChevronRight size={14} className="text-white/70" /> </button> </div>
+                <div> <button onClick={() => setExpandedSettingItem(null)} className="w-full flex items-center gap-3 px-4 py-3 text-white"> <ChevronRight size={18} className="rotate-180" /> <span className="text-sm">More</span> </button> {playerState.availableSubtitles.length > 0 && ( <button onClick={() => handleSettingClick('captions')} className="w-full flex items-center justify-between px-12 py-2 text-sm text-white hover:bg-white/10 transition-colors"> <div className="flex items-center gap-3"> <Subtitles size={16} /> <span>Captions</span> </div> <ChevronRight size={14} className="text-white/70" /> </button> )} <button onClick={() => handleSettingClick('audio')} className="w-full flex items-center justify-between px-12 py-2 text-sm text-white hover:bg-white/10 transition-colors"> <div className="flex items-center gap-3"> <Music size={16} /> <span>Audio</span> </div> <ChevronRight size={14} className="text-white/70" /> </button> <button onClick={toggleStats} className="w-full flex items-center justify-between px-12 py-2 text-sm text-white hover:bg-white/10 transition-colors" data-testid="button-stats"> <div className="flex items-center gap-3"> <Activity size={16} /> <span>Stats for nerds</span> </div> {showStats && <Check size={14} className="text-green-500" />} </button> </div>
               ) : expandedSettingItem === 'captions' ? (
                 <div> <button onClick={() => handleSettingClick('more')} className="w-full flex items-center gap-3 px-4 py-3 text-white"> <ChevronRight size={18} className="rotate-180" /> <span className="text-sm">Captions</span> </button> <button onClick={() => { changeSubtitle(''); }} className={`w-full text-left px-12 py-2 text-sm text-white transition-colors flex items-center justify-between ${playerState.currentSubtitle === '' ? 'bg-white/20' : 'hover:bg-white/10'}`}> <span>Off</span> {playerState.currentSubtitle === '' && <Check size={16} className="text-green-500 ml-auto" />} </button> {playerState.availableSubtitles.map((subtitle) => ( <button key={subtitle.id} onClick={() => { changeSubtitle(subtitle.id); }} className={`w-full text-left px-12 py-2 text-sm text-white transition-colors flex items-center justify-between ${playerState.currentSubtitle === subtitle.id ? 'bg-white/20' : 'hover:bg-white/10'}`}> <span>{subtitle.label}</span> {playerState.currentSubtitle === subtitle.id && <Check size={16} className="text-green-500 ml-auto" />} </button> ))} </div>
               ) : expandedSettingItem === 'audio' ? (
@@ -707,7 +857,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                   {playerState.availableQualities.length > 0 && ( <button onClick={() => handleSettingClick('quality')} className="w-full flex items-center justify-between py-4 text-white border-b border-white/10"> <span className="text-base">Quality</span> <div className="flex items-center gap-2"> <span className="text-sm text-white/60">{getCurrentQualityLabel()}</span> <ChevronRight size={16} /> </div> </button> )}
                   <button onClick={() => handleSettingClick('speed')} className="w-full flex items-center justify-between py-4 text-white border-b border-white/10"> <span className="text-base">Playback Speed</span> <div className="flex items-center gap-2"> <span className="text-sm text-white/60">{getCurrentSpeedLabel()}</span> <ChevronRight size={16} /> </div> </button>
                   {playerState.availableSubtitles.length > 0 && ( <button onClick={() => handleSettingClick('captions')} className="w-full flex items-center justify-between py-4 text-white border-b border-white/10"> <span className="text-base">Subtitles</span> <div className="flex items-center gap-2"> <span className="text-sm text-white/60"> {playerState.currentSubtitle === '' ? 'Off' : playerState.availableSubtitles.find(s => s.id === playerState.currentSubtitle)?.label || 'Off'} </span> <ChevronRight size={16} /> </div> </button> )}
-                  <button onClick={() => handleSettingClick('audio')} className="w-full flex items-center justify-between py-4 text-white"> <span className="text-base">Audio</span> <div className="flex items-center gap-2"> <span className="text-sm text-white/60">{getCurrentAudioLabel()}</span> <ChevronRight size={16} /> </div> </button>
+                  <button onClick={() => handleSettingClick('audio')} className="w-full flex items-center justify-between py-4 text-white border-b border-white/10"> <span className="text-base">Audio</span> <div className="flex items-center gap-2"> <span className="text-sm text-white/60">{getCurrentAudioLabel()}</span> <ChevronRight size={16} /> </div> </button>
+                  <button onClick={toggleStats} className="w-full flex items-center justify-between py-4 text-white" data-testid="button-stats-mobile"> <span className="text-base">Stats for nerds</span> <span className="text-sm text-white/60">{showStats ? 'On' : 'Off'}</span> </button>
                 </div>
               ) : expandedSettingItem === 'quality' ? (
                 <div className="px-4"> <button onClick={() => setExpandedSettingItem(null)} className="w-full flex items-center gap-3 py-3 text-white mb-2"> <ChevronRight size={18} className="rotate-180" /> Back </button> <button onClick={() => { changeQuality(-1); }} className="w-full flex items-center justify-between py-3 text-white"> <span>Auto</span> {playerState.currentQuality === -1 && <Check size={16} className="text-green-500" />} </button> {playerState.availableQualities.map((quality) => ( <button key={quality.id} onClick={() => { changeQuality(quality.id); }} className="w-full flex items-center justify-between py-3 text-white"> <span>{quality.height}p</span> {playerState.currentQuality === quality.id && <Check size={16} className="text-green-500" />} </button> ))} </div>
@@ -722,6 +873,27 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
           </div>
         </>
       )}
+
+      {showStats && ( <StreamStatsOverlay channelName={channelName} readStats={readStreamStats} readEvents={readPlayerEvents} onClose={() => setShowStats(false)} /> )}
+
+      {keyHint && !showShortcuts && ( <div className="absolute top-1/4 left-1/2 -translate-x-1/2 z-30 px-4 py-2 rounded-lg bg-black/70 text-white text-sm font-medium pointer-events-none" data-testid="text-key-hint"> {keyHint} </div> )}
+
+      {showShortcuts && (
+        <div className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center p-4" onClick={(e) => { e.stopPropagation(); setShowShortcuts(false); }}>
+          <div className="bg-black/90 backdrop-blur-md rounded-lg p-4 w-full max-w-md max-h-full overflow-y-auto text-white" onClick={(e) => e.stopPropagation()} data-testid="panel-shortcuts">
+            <div className="flex items-center justify-between mb-3"> <h3 className="font-semibold flex items-center gap-2"> <Keyboard size={18} /> Keyboard shortcuts </h3> <span className="text-xs text-white/50">Press ? or Esc to close</span> </div>
+            <div className="space-y-2">
+              {PLAYER_SHORTCUT_HELP.filter(shortcut => !shortcut.channels || onPreviousChannel || onNextChannel).map(shortcut => (
+                <div key={shortcut.description} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="text-white/80">{shortcut.description}</span>
+                  <span className="flex items-center gap-1 flex-shrink-0"> {shortcut.keys.map(key => ( <kbd key={key} className="min-w-[1.75rem] px-1.5 py-0.5 rounded border border-white/20 bg-white/10 text-xs text-center font-mono">{key}</kbd> ))} </span>
+                </div>
+              ))}
+            </div>
+            <p className="mt-3 text-xs text-white/50">TV remotes: the D-pad seeks and changes volume, OK plays or pauses, and the media and channel keys work as labelled.</p>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,6 +1,7 @@
 // /src/contexts/FavoritesContext.tsx
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { FavoriteChannel } from '@/types';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { FavoriteChannel, PublicChannel } from '@/types';
+import { isLegacyChannelId, resolveLegacyChannel } from '@/lib/playlist';
 import { toast } from "@/components/ui/sonner";
 
 interface FavoritesContextType {
@@ -8,6 +9,7 @@ interface FavoritesContextType {
   addFavorite: (channel: Omit<FavoriteChannel, 'addedAt'>) => void;
   removeFavorite: (channelId: string) => void;
   isFavorite: (channelId: string) => boolean;
+  migrateLegacyFavorites: (channels: PublicChannel[]) => void;
 }
 
 const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
@@ -32,7 +34,9 @@ export const FavoritesProvider: React.FC<FavoritesProviderProps> = ({ children }
     const saved = localStorage.getItem('iptv-favorites');
     if (saved) {
       try {
-        setFavorites(JSON.parse(saved));
+        // Older favorites kept the stream URL, which is now a proxy URL that expires
+        const stored: (FavoriteChannel & { streamUrl?: string })[] = JSON.parse(saved);
+        setFavorites(stored.map(({ streamUrl, ...favorite }) => favorite));
       } catch (error) {
         console.error('Error loading favorites:', error);
       }
@@ -46,7 +50,12 @@ export const FavoritesProvider: React.FC<FavoritesProviderProps> = ({ children }
 
   const addFavorite = (channel: Omit<FavoriteChannel, 'addedAt'>) => {
     const newFavorite: FavoriteChannel = {
-      ...channel,
+      id: channel.id,
+      name: channel.name,
+      logoUrl: channel.logoUrl,
+      categoryName: channel.categoryName,
+      ...(channel.streamKey && { streamKey: channel.streamKey }),
+      ...(channel.tvgId && { tvgId: channel.tvgId }),
       addedAt: Date.now(),
     };
     setFavorites(prev => [...prev.filter(fav => fav.id !== channel.id), newFavorite]);
@@ -79,12 +88,41 @@ export const FavoritesProvider: React.FC<FavoritesProviderProps> = ({ children }
     return favorites.some(fav => fav.id === channelId);
   };
 
+  // Move favorites saved under old position-based playlist IDs onto the
+  // stable IDs of freshly loaded channels, keeping when they were added
+  const migrateLegacyFavorites = useCallback((channels: PublicChannel[]) => {
+    setFavorites(prev => {
+      if (!prev.some(fav => isLegacyChannelId(fav.id))) return prev;
+
+      let changed = false;
+      const migrated = prev.map(fav => {
+        if (!isLegacyChannelId(fav.id)) return fav;
+        const match = resolveLegacyChannel(fav.id, fav, channels);
+        if (!match || prev.some(other => other.id === match.id)) return fav;
+
+        changed = true;
+        return {
+          id: match.id,
+          name: match.name,
+          logoUrl: match.logoUrl,
+          categoryName: match.categoryName,
+          ...(match.streamKey && { streamKey: match.streamKey }),
+          ...(match.tvgId && { tvgId: match.tvgId }),
+          addedAt: fav.addedAt,
+        };
+      });
+
+      return changed ? migrated : prev;
+    });
+  }, []);
+
   return (
     <FavoritesContext.Provider value={{
       favorites,
       addFavorite,
       removeFavorite,
       isFavorite,
+      migrateLegacyFavorites,
     }}>
       {children}
     </FavoritesContext.Provider>
@@ -0,0 +1,68 @@
+// /src/hooks/useEpg.ts
+import { useState, useEffect } from 'react';
+import { PublicChannel, Programme } from '@/types';
+import { fetchChannelProgrammes, getNowNext, hasGuide } from '@/lib/epg';
+
+const TICK_MS = 30 * 1000;
+
+// One clock for every card on the page instead of a timer each
+const listeners = new Set<(now: number) => void>();
+let clock: ReturnType<typeof setInterval> | null = null;
+
+const subscribeToClock = (listener: (now: number) => void) => {
+  listeners.add(listener);
+  if (!clock) {
+    clock = setInterval(() => {
+      const now = Date.now();
+      listeners.forEach(notify => notify(now));
+    }, TICK_MS);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && clock) {
+      clearInterval(clock);
+      clock = null;
+    }
+  };
+};
+
+/**
+ * The current time, updated every 30 seconds
+ */
+export const useNow = (enabled = true) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!enabled) return;
+    setNow(Date.now());
+    return subscribeToClock(setNow);
+  }, [enabled]);
+
+  return now;
+};
+
+/**
+ * What is on now and next on a playlist channel, kept current as programmes end
+ */
+export const useEpg = (channel: PublicChannel | null) => {
+  const [programmes, setProgrammes] = useState<Programme[]>([]);
+  const enabled = hasGuide(channel);
+  const now = useNow(enabled);
+
+  useEffect(() => {
+    setProgrammes([]);
+    if (!channel || !enabled) return;
+
+    let cancelled = false;
+    fetchChannelProgrammes(channel).then(result => {
+      if (!cancelled) setProgrammes(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [channel, enabled]);
+
+  return { programmes, ...getNowNext(programmes, now) };
+};
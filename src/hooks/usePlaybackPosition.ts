@@ -0,0 +1,92 @@
+// /src/hooks/usePlaybackPosition.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getWatchProgress, isResumable, saveWatchProgress, WatchProgressItem } from '@/lib/watchProgress';
+
+// How often the position is written while playing
+const SAVE_INTERVAL_MS = 10 * 1000;
+
+/**
+ * Remember where an on-demand stream was left and offer to resume it. Wire
+ * `startPosition` and `handleTimeUpdate` into VideoPlayer; while the resume
+ * prompt is open nothing is saved, so playing from the start does not
+ * overwrite the position on offer.
+ */
+export const usePlaybackPosition = (item: WatchProgressItem | null) => {
+  const [resumeFrom, setResumeFrom] = useState<number | null>(null);
+  const [startPosition, setStartPosition] = useState<number | undefined>();
+  const [watched, setWatched] = useState(false);
+
+  const itemRef = useRef(item);
+  itemRef.current = item;
+  // The item being saved; itemRef moves on before the previous item's cleanup runs
+  const activeItemRef = useRef<WatchProgressItem | null>(null);
+  if (item && item.id === activeItemRef.current?.id) activeItemRef.current = item;
+  const promptOpenRef = useRef(false);
+  const lastSavedRef = useRef(0);
+  const latestRef = useRef<{ position: number; duration: number } | null>(null);
+
+  const itemId = item?.id;
+
+  const flush = useCallback(() => {
+    const current = activeItemRef.current;
+    const latest = latestRef.current;
+    if (!current || !latest || promptOpenRef.current) return;
+    saveWatchProgress(current, latest.position, latest.duration);
+    lastSavedRef.current = Date.now();
+    setWatched(!!getWatchProgress(current.id)?.watched);
+  }, []);
+
+  useEffect(() => {
+    activeItemRef.current = itemRef.current;
+    setStartPosition(undefined);
+    latestRef.current = null;
+    lastSavedRef.current = 0;
+    if (!itemId) {
+      setResumeFrom(null);
+      setWatched(false);
+      promptOpenRef.current = false;
+      return;
+    }
+
+    const progress = getWatchProgress(itemId);
+    const resumable = isResumable(progress);
+    setResumeFrom(resumable ? progress.position : null);
+    setWatched(!!progress?.watched);
+    promptOpenRef.current = resumable;
+
+    // Keep the last position when leaving the page or switching titles
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [itemId, flush]);
+
+  const handleTimeUpdate = useCallback((currentTime: number, duration: number) => {
+    latestRef.current = { position: currentTime, duration };
+    if (promptOpenRef.current) return;
+    // Save right away near the end so finishing is never missed
+    if (Date.now() - lastSavedRef.current < SAVE_INTERVAL_MS && currentTime < duration - 1) return;
+    flush();
+  }, [flush]);
+
+  const resume = useCallback(() => {
+    promptOpenRef.current = false;
+    setStartPosition(resumeFrom ?? undefined);
+    setResumeFrom(null);
+  }, [resumeFrom]);
+
+  const startOver = useCallback(() => {
+    promptOpenRef.current = false;
+    setResumeFrom(null);
+  }, []);
+
+  return {
+    startPosition,
+    resumeFrom, // Position on offer while the prompt is open
+    watched,
+    resume,
+    startOver,
+    handleTimeUpdate,
+  };
+};
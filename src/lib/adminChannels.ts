@@ -0,0 +1,71 @@
+// src/lib/adminChannels.ts - Manual channels as the admin panel reads and writes them
+import { collection, deleteField, doc, getDocs, orderBy, query, writeBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { AdminChannel, AdminChannelSecrets } from '@/types';
+
+// Stream URLs and request headers, readable by admins and the server only
+const SECRETS_COLLECTION = 'channelSecrets';
+
+/**
+ * Every manual channel by name, with its secrets filled in. Channels saved
+ * before secrets moved out still carry them on the channel document.
+ */
+export const loadAdminChannels = async (): Promise<AdminChannel[]> => {
+  const [channels, secrets] = await Promise.all([
+    getDocs(query(collection(db, 'channels'), orderBy('name'))),
+    getDocs(collection(db, SECRETS_COLLECTION)),
+  ]);
+  const secretsById = new Map(secrets.docs.map(secret => [secret.id, secret.data() as AdminChannelSecrets]));
+
+  return channels.docs.map(channelDoc => {
+    const channel = { id: channelDoc.id, ...channelDoc.data() } as AdminChannel;
+    const secret = secretsById.get(channel.id);
+    if (!secret) return channel;
+
+    const { sources: secretSources = [], ...fields } = secret;
+    return {
+      ...channel,
+      ...fields,
+      sources: (channel.sources || []).map((source, index) => ({ ...source, ...secretSources[index] })),
+    };
+  });
+};
+
+/**
+ * Save a channel: its public fields to the channel document and its stream URLs
+ * and request headers, backups' by index, to its secrets. Both land together.
+ */
+export const saveAdminChannel = async (id: string | null, channel: Omit<AdminChannel, 'id'>): Promise<void> => {
+  const { streamUrl, authCookie, referer, userAgent, sources = [], ...fields } = channel;
+  const channelRef = id ? doc(db, 'channels', id) : doc(collection(db, 'channels'));
+  const publicData = { ...fields, sources: sources.map(({ label, drm }) => ({ label, drm })) };
+
+  const batch = writeBatch(db);
+  batch.set(doc(db, SECRETS_COLLECTION, channelRef.id), {
+    streamUrl,
+    authCookie,
+    referer,
+    userAgent,
+    sources: sources.map(({ streamUrl, authCookie, referer, userAgent }) => ({ streamUrl, authCookie, referer, userAgent })),
+  });
+  if (id) {
+    // Drop the copies older channels kept on the public document
+    batch.update(channelRef, {
+      ...publicData,
+      streamUrl: deleteField(),
+      authCookie: deleteField(),
+      referer: deleteField(),
+      userAgent: deleteField(),
+    });
+  } else {
+    batch.set(channelRef, publicData);
+  }
+  await batch.commit();
+};
+
+export const deleteAdminChannel = async (id: string): Promise<void> => {
+  const batch = writeBatch(db);
+  batch.delete(doc(db, 'channels', id));
+  batch.delete(doc(db, SECRETS_COLLECTION, id));
+  await batch.commit();
+};
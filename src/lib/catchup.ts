@@ -0,0 +1,49 @@
+// src/lib/catchup.ts - Catch-up (timeshift) stream URLs for playlist channels
+//
+// Follows the conventions of the Kodi IPTV Simple client, which most playlists
+// are written for: catchup="default|append|shift|flussonic|xc", an optional
+// catchup-source template and catchup-days. The page only holds proxy URLs, so
+// the server interprets these settings: it lists channels with their resolved
+// mode and days, and builds catch-up URLs from the settings sealed in a stream's token.
+import { PublicChannel } from '@/types';
+
+export interface CatchupWindow {
+  start: number; // ms
+  duration: number; // ms
+}
+
+const PROXY_URL = '/api/m3u8-proxy';
+
+export const getCatchupDays = (channel: PublicChannel): number => channel.catchupDays || 0;
+
+// Playlists only list catch-up settings the server can build URLs from
+export const supportsCatchup = (channel: PublicChannel | null | undefined): boolean =>
+  !!channel?.catchup && getCatchupDays(channel) > 0;
+
+/**
+ * Ask the proxy for a URL that plays a stream from `window.start` for
+ * `window.duration`. Returns null when the stream has no catch-up.
+ */
+export const fetchCatchupUrl = async (streamUrl: string, window: CatchupWindow): Promise<string | null> => {
+  const token = new URL(streamUrl, location.origin).searchParams.get('t');
+  if (!token) return null;
+
+  const response = await fetch(PROXY_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token, start: window.start, duration: window.duration }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Proxy returned ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.url || null;
+};
+
+/**
+ * Earliest start time a channel can be rewound to
+ */
+export const getEarliestCatchupStart = (channel: PublicChannel, now = Date.now()): number =>
+  now - getCatchupDays(channel) * 24 * 60 * 60 * 1000;
@@ -0,0 +1,56 @@
+// src/lib/channelSources.ts - The streams a channel can play from, in failover order
+import { Category, ChannelSource, PublicChannel } from '@/types';
+import { fetchCategoryPlaylist, hasPlaylistSource } from '@/lib/playlist';
+
+/**
+ * A channel's own stream followed by its configured backups
+ */
+export const getChannelSources = (channel: PublicChannel): ChannelSource[] => [
+  {
+    label: 'Main',
+    streamUrl: channel.streamUrl,
+    streamKey: channel.streamKey,
+    drm: channel.drm,
+    manifestType: channel.manifestType,
+  },
+  ...(channel.sources || []),
+];
+
+/**
+ * The same channel in other playlists, matched by tvg-id, as further backups.
+ * This loads every playlist, so players only look once the known sources have
+ * failed. Streams the channel already has are left out; playlists that fail
+ * to load are skipped.
+ */
+export const findMatchingSources = async (
+  channel: PublicChannel,
+  categories: Category[],
+  known: ChannelSource[] = getChannelSources(channel)
+): Promise<ChannelSource[]> => {
+  const tvgId = channel.tvgId?.trim().toLowerCase();
+  if (!tvgId) return [];
+
+  const playlists = await Promise.allSettled(
+    categories.filter(hasPlaylistSource).map(category => fetchCategoryPlaylist(category))
+  );
+
+  const seenIds = new Set([channel.id]);
+  // Every mint of a stream gives a new URL; the key stays the same
+  const streamOf = (source: { streamUrl: string; streamKey?: string }) => source.streamKey || source.streamUrl;
+  const seenStreams = new Set(known.map(streamOf));
+  return playlists
+    .flatMap(result => (result.status === 'fulfilled' ? result.value.channels : []))
+    .filter(match => {
+      if (match.tvgId?.trim().toLowerCase() !== tvgId || seenIds.has(match.id) || seenStreams.has(streamOf(match))) return false;
+      seenIds.add(match.id);
+      seenStreams.add(streamOf(match));
+      return true;
+    })
+    .map(match => ({
+      label: `${match.categoryName}${match.name !== channel.name ? ` · ${match.name}` : ''}`,
+      streamUrl: match.streamUrl,
+      streamKey: match.streamKey,
+      drm: match.drm,
+      manifestType: match.manifestType,
+    }));
+};
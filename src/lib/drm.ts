@@ -0,0 +1,137 @@
+// src/lib/drm.ts - DRM settings of channels, backup sources and event links
+import { DrmConfig, DrmKeySystem } from '@/types';
+
+export const DRM_KEY_SYSTEMS: { value: DrmKeySystem; label: string }[] = [
+  { value: 'org.w3.clearkey', label: 'ClearKey' },
+  { value: 'com.widevine.alpha', label: 'Widevine' },
+  { value: 'com.microsoft.playready', label: 'PlayReady' },
+];
+
+// Names used by playlists, Kodi and older saved settings
+const KEY_SYSTEM_ALIASES: Record<string, DrmKeySystem> = {
+  'clearkey': 'org.w3.clearkey',
+  'org.w3.clearkey': 'org.w3.clearkey',
+  'widevine': 'com.widevine.alpha',
+  'com.widevine.alpha': 'com.widevine.alpha',
+  'playready': 'com.microsoft.playready',
+  'com.microsoft.playready': 'com.microsoft.playready',
+};
+
+const toKeySystem = (name: string): DrmKeySystem | null =>
+  KEY_SYSTEM_ALIASES[name.trim().toLowerCase()] || null;
+
+const isUrl = (value: string) => /^https?:\/\//i.test(value);
+
+// Key IDs are sometimes written as UUIDs; Shaka wants plain hex
+const toHex = (value: string) => value.trim().replace(/-/g, '').toLowerCase();
+
+/**
+ * Read ClearKey pairs from "kid:key" entries separated by commas, spaces or
+ * new lines, or from a {"kid": "key"} JSON object.
+ */
+export const parseClearKeys = (text: string): Record<string, string> | undefined => {
+  const keys: Record<string, string> = {};
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{')) {
+    try {
+      Object.entries(JSON.parse(trimmed)).forEach(([kid, key]) => {
+        if (typeof key === 'string' && kid && key) keys[toHex(kid)] = toHex(key);
+      });
+    } catch {
+      return undefined;
+    }
+  } else {
+    trimmed.split(/[\s,]+/).forEach(pair => {
+      const [kid, key] = pair.split(':');
+      if (kid && key) keys[toHex(kid)] = toHex(key);
+    });
+  }
+
+  return Object.keys(keys).length > 0 ? keys : undefined;
+};
+
+export const formatClearKeys = (keys?: Record<string, string>): string =>
+  Object.entries(keys || {}).map(([kid, key]) => `${kid}:${key}`).join('\n');
+
+// "Name: value" lines, as typed in the admin forms
+export const parseHeaderLines = (text: string): Record<string, string> | undefined => {
+  const headers: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+    const name = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (name && value) headers[name] = value;
+  });
+  return Object.keys(headers).length > 0 ? headers : undefined;
+};
+
+export const formatHeaderLines = (headers?: Record<string, string>): string =>
+  Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+/**
+ * A stored DRM setting in the current shape. Also accepts the older
+ * { licenseType, licenseKey } pair, where the key is "kid:key" for ClearKey and
+ * the license server URL otherwise.
+ */
+const normalizeDrm = (value: unknown): DrmConfig | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const data = value as Record<string, unknown>;
+
+  if (typeof data.keySystem === 'string') {
+    const keySystem = toKeySystem(data.keySystem);
+    return keySystem ? { ...(data as unknown as DrmConfig), keySystem } : undefined;
+  }
+
+  if (typeof data.licenseType !== 'string' || typeof data.licenseKey !== 'string') return undefined;
+  const keySystem = toKeySystem(data.licenseType);
+  const licenseKey = data.licenseKey.trim();
+  if (!keySystem || !licenseKey) return undefined;
+
+  if (keySystem === 'org.w3.clearkey' && !isUrl(licenseKey)) {
+    const clearKeys = parseClearKeys(licenseKey);
+    return clearKeys ? { keySystem, clearKeys } : undefined;
+  }
+  return { keySystem, licenseUrl: licenseKey.split('|')[0] };
+};
+
+/**
+ * Strip the old "url?|drmScheme=...&drmLicense=...&token=..." suffix from a
+ * stream URL, returning the DRM setting it described. The token becomes a
+ * bearer Authorization header on license requests; a token without a scheme
+ * has no license server to go to, so it is dropped.
+ */
+const splitLegacyDrmUrl = (url: string): { url: string; drm?: DrmConfig } => {
+  const separator = url.indexOf('?|');
+  if (separator === -1) return { url };
+
+  const params = new URLSearchParams(url.slice(separator + 2));
+  const scheme = params.get('drmScheme');
+  const license = params.get('drmLicense');
+  const token = params.get('token') || params.get('authToken');
+  const drm = scheme && license ? normalizeDrm({ licenseType: scheme, licenseKey: license }) : undefined;
+
+  if (drm && token) drm.licenseHeaders = { Authorization: `Bearer ${token}` };
+  return { url: url.slice(0, separator), ...(drm && { drm }) };
+};
+
+/**
+ * A stored stream URL and DRM setting, upgrading settings saved in the older
+ * shapes. The stored setting wins over one found in the URL.
+ */
+export const resolveStreamDrm = (url: string, drm?: unknown): { url: string; drm?: DrmConfig } => {
+  const legacy = splitLegacyDrmUrl(url);
+  const resolved = normalizeDrm(drm) || legacy.drm;
+  return { url: legacy.url, ...(resolved && { drm: resolved }) };
+};
+
+// Why a DRM setting cannot play anything, for the admin forms
+export const getDrmError = (drm: DrmConfig): string | null => {
+  if (drm.licenseUrl && !isUrl(drm.licenseUrl)) return 'The license URL must start with http:// or https://';
+  if (drm.serverCertificateUrl && !isUrl(drm.serverCertificateUrl)) return 'The server certificate URL must start with http:// or https://';
+  if (drm.keySystem === 'org.w3.clearkey') {
+    return drm.clearKeys || drm.licenseUrl ? null : 'ClearKey needs key pairs or a license URL';
+  }
+  return drm.licenseUrl ? null : 'Widevine and PlayReady need a license URL';
+};
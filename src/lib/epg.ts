@@ -0,0 +1,170 @@
+// src/lib/epg.ts - Programme guide data from the /api/epg endpoint
+import { PublicChannel, Programme } from '@/types';
+
+// How long a channel's programmes are reused before asking the server again
+const CACHE_MS = 5 * 60 * 1000;
+// Channels asked for in the same tick share one request per guide
+const BATCH_DELAY_MS = 20;
+const BATCH_SIZE = 500;
+
+interface PendingRequest {
+  channel: PublicChannel;
+  resolve: (programmes: Programme[]) => void;
+}
+
+const cache = new Map<string, { programmes: Programme[]; expires: number }>();
+const inflight = new Map<string, Promise<Programme[]>>();
+const queues = new Map<string, PendingRequest[]>();
+
+export const hasGuide = (channel: PublicChannel | null | undefined): boolean =>
+  !!channel?.epgUrls?.length;
+
+const toGuideChannel = (channel: PublicChannel) => ({
+  id: channel.id,
+  tvgId: channel.tvgId,
+  tvgName: channel.tvgName,
+  name: channel.name,
+});
+
+/**
+ * Ask the server for programmes of several channels from one guide. Channels
+ * the guide has nothing for are simply missing from the result.
+ */
+export const fetchGuideProgrammes = async (
+  epgUrl: string,
+  channels: PublicChannel[],
+  from?: number,
+  to?: number
+): Promise<Record<string, Programme[]>> => {
+  const response = await fetch('/api/epg', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ epgUrl, channels: channels.map(toGuideChannel), from, to }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to fetch programme guide');
+  }
+
+  const data = await response.json();
+  return data.programmes || {};
+};
+
+/**
+ * Programmes between `from` and `to` for many channels, as the guide grid needs.
+ * Channels are grouped by guide; ones their first guide does not know are
+ * retried against the playlist's other guides.
+ */
+export const fetchGuideWindow = async (
+  channels: PublicChannel[],
+  from: number,
+  to: number
+): Promise<Record<string, Programme[]>> => {
+  const result: Record<string, Programme[]> = {};
+  let remaining = channels.filter(hasGuide);
+
+  for (let attempt = 0; remaining.length > 0; attempt++) {
+    const byGuide = new Map<string, PublicChannel[]>();
+    remaining.forEach(channel => {
+      const epgUrl = channel.epgUrls?.[attempt];
+      if (!epgUrl) return;
+      byGuide.set(epgUrl, [...(byGuide.get(epgUrl) || []), channel]);
+    });
+    if (byGuide.size === 0) break;
+
+    await Promise.all(Array.from(byGuide, async ([epgUrl, guideChannels]) => {
+      for (let i = 0; i < guideChannels.length; i += BATCH_SIZE) {
+        try {
+          const programmes = await fetchGuideProgrammes(epgUrl, guideChannels.slice(i, i + BATCH_SIZE), from, to);
+          Object.assign(result, programmes);
+        } catch (error) {
+          console.error('Error fetching programme guide:', error instanceof Error ? error.message : error);
+        }
+      }
+    }));
+
+    remaining = remaining.filter(channel => !result[channel.id]);
+  }
+
+  return result;
+};
+
+const flushQueue = async (epgUrl: string) => {
+  const queue = queues.get(epgUrl) || [];
+  queues.delete(epgUrl);
+
+  for (let i = 0; i < queue.length; i += BATCH_SIZE) {
+    const batch = queue.slice(i, i + BATCH_SIZE);
+    let programmes: Record<string, Programme[]> = {};
+    try {
+      programmes = await fetchGuideProgrammes(epgUrl, batch.map(request => request.channel));
+    } catch (error) {
+      console.error('Error fetching programme guide:', error instanceof Error ? error.message : error);
+    }
+    batch.forEach(request => request.resolve(programmes[request.channel.id] || []));
+  }
+};
+
+const queueRequest = (epgUrl: string, channel: PublicChannel): Promise<Programme[]> =>
+  new Promise(resolve => {
+    const queue = queues.get(epgUrl);
+    if (queue) {
+      queue.push({ channel, resolve });
+      return;
+    }
+    queues.set(epgUrl, [{ channel, resolve }]);
+    setTimeout(() => flushQueue(epgUrl), BATCH_DELAY_MS);
+  });
+
+const loadChannelProgrammes = async (channel: PublicChannel): Promise<Programme[]> => {
+  // A playlist may name several guides; use the first one that knows the channel
+  for (const epgUrl of channel.epgUrls || []) {
+    const programmes = await queueRequest(epgUrl, channel);
+    if (programmes.length > 0) return programmes;
+  }
+  return [];
+};
+
+/**
+ * Upcoming programmes (including the one on now) for a playlist channel.
+ * Requests from many channel cards are batched into one call per guide.
+ */
+export const fetchChannelProgrammes = (channel: PublicChannel): Promise<Programme[]> => {
+  if (!hasGuide(channel)) return Promise.resolve([]);
+
+  const cached = cache.get(channel.id);
+  if (cached && cached.expires > Date.now()) return Promise.resolve(cached.programmes);
+
+  const pending = inflight.get(channel.id);
+  if (pending) return pending;
+
+  const request = loadChannelProgrammes(channel)
+    .then(programmes => {
+      cache.set(channel.id, { programmes, expires: Date.now() + CACHE_MS });
+      return programmes;
+    })
+    .finally(() => inflight.delete(channel.id));
+  inflight.set(channel.id, request);
+  return request;
+};
+
+/**
+ * The programme on air at `now`, the one after it, and how far through the
+ * current one we are (0-100)
+ */
+export const getNowNext = (programmes: Programme[], now: number) => {
+  const index = programmes.findIndex(programme => programme.start <= now && programme.stop > now);
+  const current = index === -1 ? null : programmes[index];
+  const next = index === -1
+    ? programmes.find(programme => programme.start > now) || null
+    : programmes[index + 1] || null;
+  const progress = current
+    ? Math.min(100, Math.max(0, ((now - current.start) / (current.stop - current.start)) * 100))
+    : 0;
+
+  return { current, next, progress };
+};
+
+export const formatProgrammeTime = (time: number): string =>
+  new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
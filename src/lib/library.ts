@@ -0,0 +1,142 @@
+// src/lib/library.ts - Movies and series from category sources
+//
+// M3U playlists return their VOD entries along with the channels, so the
+// library reuses the playlist request. Xtream servers list VOD separately, and
+// only for categories the admin opted in; their episodes load per series.
+import { Category, Episode, Movie, Series } from '@/types';
+import { fetchCategoryPlaylist, getAuthHeaders } from '@/lib/playlist';
+
+export interface LibraryResult {
+  movies: Movie[];
+  series: Series[];
+}
+
+// Containers the browser can play without a streaming player
+const PROGRESSIVE_CONTAINERS = ['mp4', 'm4v', 'webm', 'mov'];
+
+const inflightLibraries = new Map<string, Promise<LibraryResult>>();
+const episodeCache = new Map<string, Promise<Episode[]>>();
+
+/**
+ * Whether a category can have movies or series
+ */
+export const hasLibrary = (category: Category): boolean => {
+  switch (category.sourceType) {
+    case 'xtream':
+      return !!category.xtream?.source && !!category.xtream.includeVod;
+    case 'stalker':
+      return false;
+    default:
+      return !!category.m3uUrl;
+  }
+};
+
+/**
+ * The category a movie, series or episode came from; their IDs start with it
+ */
+export const findItemCategory = (itemId: string, categories: Category[]): Category | undefined =>
+  categories.find(category => itemId.startsWith(`${category.id}_`));
+
+/**
+ * How the player should load a title. Proxied URLs hide their extension, so go
+ * by the container the source reported.
+ */
+export const getVodStreamType = (item: { containerExtension?: string }): 'hls' | 'native' | undefined => {
+  if (!item.containerExtension) return undefined;
+  if (item.containerExtension === 'm3u8') return 'hls';
+  return PROGRESSIVE_CONTAINERS.includes(item.containerExtension) ? 'native' : undefined;
+};
+
+const requestXtreamLibrary = async (category: Category): Promise<LibraryResult> => {
+  const response = await fetch('/api/xtream', {
+    method: 'POST',
+    headers: await getAuthHeaders(false),
+    body: JSON.stringify({
+      action: 'library',
+      categoryId: category.id,
+      categoryName: category.name,
+      source: category.xtream?.source,
+    }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch library');
+  }
+  return { movies: data.movies || [], series: data.series || [] };
+};
+
+/**
+ * Fetch the movies and series of one category
+ */
+export const fetchCategoryLibrary = async (category: Category): Promise<LibraryResult> => {
+  if (!hasLibrary(category)) return { movies: [], series: [] };
+
+  if (category.sourceType !== 'xtream') {
+    const { movies, series } = await fetchCategoryPlaylist(category);
+    return { movies, series };
+  }
+
+  const key = `${category.id}|${category.name}|${category.xtream?.source}`;
+  const pending = inflightLibraries.get(key);
+  if (pending) return pending;
+
+  const request = requestXtreamLibrary(category).finally(() => inflightLibraries.delete(key));
+  inflightLibraries.set(key, request);
+  return request;
+};
+
+/**
+ * The library of every category that has one. Categories that fail to load
+ * are left out rather than failing the whole library.
+ */
+export const loadLibrary = async (categories: Category[]): Promise<LibraryResult & { failed: number }> => {
+  const sources = categories.filter(hasLibrary);
+  const results = await Promise.allSettled(sources.map(fetchCategoryLibrary));
+
+  const library = { movies: [] as Movie[], series: [] as Series[], failed: 0 };
+  results.forEach(result => {
+    if (result.status === 'rejected') {
+      library.failed++;
+      return;
+    }
+    library.movies.push(...result.value.movies);
+    library.series.push(...result.value.series);
+  });
+  return library;
+};
+
+/**
+ * Episodes of a series, in season and episode order. M3U series come with
+ * theirs; Xtream series ask the server, once per page load.
+ */
+export const fetchSeriesEpisodes = (category: Category, series: Series): Promise<Episode[]> => {
+  if (series.episodes) return Promise.resolve(series.episodes);
+
+  const cached = episodeCache.get(series.id);
+  if (cached) return cached;
+
+  const request = (async () => {
+    const response = await fetch('/api/xtream', {
+      method: 'POST',
+      headers: await getAuthHeaders(false),
+      body: JSON.stringify({
+        action: 'series',
+        categoryId: category.id,
+        source: category.xtream?.source,
+        seriesId: series.id,
+      }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to fetch episodes');
+    }
+    return (data.episodes || []) as Episode[];
+  })();
+
+  // Forget failures so the next visit tries again
+  request.catch(() => episodeCache.delete(series.id));
+  episodeCache.set(series.id, request);
+  return request;
+};
@@ -0,0 +1,53 @@
+// src/lib/liveLatency.ts - Low-latency live mode of channels and events
+import { LowLatencyConfig } from '@/types';
+
+export const DEFAULT_TARGET_LATENCY = 3; // seconds
+export const MIN_TARGET_LATENCY = 1;
+export const MAX_TARGET_LATENCY = 30;
+
+// Fastest playback used to catch up with the target; faster than this, commentary sounds rushed
+const MAX_CATCH_UP_RATE = 1.25;
+
+// How far past its target latency playback may drift and still count as live
+const LIVE_EDGE_TOLERANCE = 3;
+
+export const clampTargetLatency = (seconds: number): number =>
+  isFinite(seconds) ? Math.min(MAX_TARGET_LATENCY, Math.max(MIN_TARGET_LATENCY, seconds)) : DEFAULT_TARGET_LATENCY;
+
+// A stored setting, or undefined when the mode is off
+export const normalizeLowLatency = (value: unknown): LowLatencyConfig | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const { targetLatency } = value as Record<string, unknown>;
+  return { targetLatency: clampTargetLatency(Number(targetLatency ?? DEFAULT_TARGET_LATENCY)) };
+};
+
+/**
+ * hls.js options. In low-latency mode the player loads LL-HLS parts, aims for
+ * the target latency and plays slightly faster while it is behind; otherwise
+ * it keeps the full 30 second buffer.
+ */
+export const getHlsLatencyConfig = (lowLatency?: LowLatencyConfig) => (lowLatency
+  ? { lowLatencyMode: true, liveSyncDuration: lowLatency.targetLatency, maxLiveSyncPlaybackRate: MAX_CATCH_UP_RATE, maxBufferLength: 10 }
+  : { lowLatencyMode: false, maxBufferLength: 30 });
+
+// Shaka streaming options, the same behaviour for LL-DASH and LL-HLS
+export const getShakaStreamingConfig = (lowLatency?: LowLatencyConfig) => (lowLatency
+  ? {
+      lowLatencyMode: true,
+      bufferingGoal: Math.max(2, lowLatency.targetLatency),
+      rebufferingGoal: 1,
+      liveSync: { enabled: true, targetLatency: lowLatency.targetLatency, maxPlaybackRate: MAX_CATCH_UP_RATE },
+    }
+  : { lowLatencyMode: false, bufferingGoal: 15, rebufferingGoal: 8 });
+
+export const isAtLiveEdge = (behind: number, target: number): boolean => behind <= target + LIVE_EDGE_TOLERANCE;
+
+// "-12s", "-4:05" or "-1:02:30" behind the live edge
+export const formatLiveOffset = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h > 0) return `-${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+  return m > 0 ? `-${m}:${String(s).padStart(2, '0')}` : `-${s}s`;
+};
@@ -0,0 +1,108 @@
+// src/lib/playerShortcuts.ts - Keyboard and TV remote controls of the video player
+
+export type PlayerAction =
+  | 'togglePlay'
+  | 'play'
+  | 'pause'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'toggleMute'
+  | 'toggleFullscreen'
+  | 'togglePip'
+  | 'toggleSubtitles'
+  | 'seekPercent'
+  | 'previousChannel'
+  | 'nextChannel'
+  | 'toggleHelp'
+  | 'back';
+
+export interface PlayerShortcut {
+  action: PlayerAction;
+  percent?: number; // seekPercent only, 0-90
+}
+
+const KEY_ACTIONS: Record<string, PlayerAction> = {
+  ' ': 'togglePlay',
+  'k': 'togglePlay',
+  'Enter': 'togglePlay', // The OK button of a D-pad
+  'ArrowLeft': 'seekBackward',
+  'ArrowRight': 'seekForward',
+  'ArrowUp': 'volumeUp',
+  'ArrowDown': 'volumeDown',
+  'f': 'toggleFullscreen',
+  'm': 'toggleMute',
+  'p': 'togglePip',
+  'c': 'toggleSubtitles',
+  'PageUp': 'previousChannel',
+  'PageDown': 'nextChannel',
+  '?': 'toggleHelp',
+  'Escape': 'back',
+  // Media keys of keyboards and Android TV remotes
+  'MediaPlayPause': 'togglePlay',
+  'MediaPlay': 'play',
+  'MediaPause': 'pause',
+  'MediaRewind': 'seekBackward',
+  'MediaFastForward': 'seekForward',
+  'MediaTrackPrevious': 'previousChannel',
+  'MediaTrackNext': 'nextChannel',
+  'ChannelUp': 'previousChannel',
+  'ChannelDown': 'nextChannel',
+  'AudioVolumeMute': 'toggleMute',
+  'GoBack': 'back',
+  'BrowserBack': 'back',
+};
+
+// TV browsers (Tizen, webOS, older Android TV WebViews) that only report key codes
+const KEY_CODE_ACTIONS: Record<number, PlayerAction> = {
+  10252: 'togglePlay',
+  179: 'togglePlay',
+  415: 'play',
+  19: 'pause',
+  412: 'seekBackward',
+  417: 'seekForward',
+  427: 'previousChannel',
+  428: 'nextChannel',
+  10009: 'back',
+  461: 'back',
+};
+
+/**
+ * The player action for a key press, or null when the key is not a player
+ * control. Presses with Ctrl, Alt or Meta are left to the browser.
+ */
+export const getPlayerShortcut = (event: KeyboardEvent): PlayerShortcut | null => {
+  if (event.ctrlKey || event.altKey || event.metaKey) return null;
+
+  if (/^[0-9]$/.test(event.key)) return { action: 'seekPercent', percent: Number(event.key) * 10 };
+
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  const action = KEY_ACTIONS[event.key] || KEY_ACTIONS[key] || KEY_CODE_ACTIONS[event.keyCode];
+  return action ? { action } : null;
+};
+
+/**
+ * Whether a key press belongs to the focused element instead: typing in a
+ * field, or Space/Enter pressing a focused button or link.
+ */
+export const isFocusedControlKey = (event: KeyboardEvent): boolean => {
+  const target = event.target;
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return true;
+  return (event.key === ' ' || event.key === 'Enter') && ['BUTTON', 'A'].includes(target.tagName);
+};
+
+// Listed in the "?" overlay; channel keys only appear where there is a channel list
+export const PLAYER_SHORTCUT_HELP: { keys: string[]; description: string; channels?: boolean }[] = [
+  { keys: ['Space', 'K', 'OK'], description: 'Play / pause' },
+  { keys: ['←', '→'], description: 'Seek 10 seconds' },
+  { keys: ['↑', '↓'], description: 'Volume' },
+  { keys: ['M'], description: 'Mute' },
+  { keys: ['F'], description: 'Fullscreen' },
+  { keys: ['P'], description: 'Picture-in-picture' },
+  { keys: ['C'], description: 'Subtitles on / off' },
+  { keys: ['0', '–', '9'], description: 'Jump to 0% – 90%' },
+  { keys: ['Page Up', 'Page Down'], description: 'Previous / next channel', channels: true },
+  { keys: ['?'], description: 'Show / hide shortcuts' },
+];
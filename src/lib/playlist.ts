@@ -0,0 +1,346 @@
+// src/lib/playlist.ts
+import { auth } from '@/lib/firebase';
+import { normalizeLowLatency } from '@/lib/liveLatency';
+import { Category, Movie, PublicChannel, PlaylistGroup, Series, StalkerSource, XtreamSource } from '@/types';
+
+export interface PlaylistResult {
+  channels: PublicChannel[];
+  groups: PlaylistGroup[];
+  epgUrls: string[];
+  // VOD entries of M3U playlists; Xtream servers list theirs through the library
+  movies: Movie[];
+  series: Series[];
+}
+
+export interface CategoryChannelsResult {
+  channels: PublicChannel[];
+  playlistError: boolean;
+}
+
+export interface XtreamLogin {
+  server: string;
+  username: string;
+  password: string;
+}
+
+export interface StalkerLogin {
+  portal: string;
+  mac: string;
+}
+
+// What the admin picks from after connecting to an Xtream server or Stalker portal
+export interface SourceCategory {
+  id: string;
+  name: string;
+}
+
+export interface XtreamConnection {
+  source: XtreamSource;
+  categories: SourceCategory[];
+  expiresAt: number | null;
+}
+
+export interface StalkerConnection {
+  source: StalkerSource;
+  categories: SourceCategory[];
+}
+
+export interface FetchPlaylistOptions {
+  refresh?: boolean; // Bypass the server cache (admin only)
+  preview?: boolean; // Load the category's unsaved playlist URL (admin only)
+}
+
+// Pages often ask for the same playlist several times at once; share one request
+const inflightPlaylists = new Map<string, Promise<PlaylistResult>>();
+
+/**
+ * Whether a category pulls channels from a playlist source (M3U, Xtream or Stalker)
+ */
+export const hasPlaylistSource = (category: Category): boolean => {
+  switch (category.sourceType) {
+    case 'xtream':
+      return !!category.xtream?.source;
+    case 'stalker':
+      return !!category.stalker?.source;
+    default:
+      return !!category.m3uUrl;
+  }
+};
+
+/**
+ * The endpoint serving a category's playlist source and what to post to it
+ */
+const getPlaylistRequest = (category: Category, options: FetchPlaylistOptions): { endpoint: string; body: Record<string, unknown> } => {
+  switch (category.sourceType) {
+    case 'xtream':
+      return {
+        endpoint: '/api/xtream',
+        body: {
+          action: 'channels',
+          source: category.xtream?.source,
+          categoryIds: category.xtream?.categoryIds,
+        },
+      };
+    case 'stalker':
+      return {
+        endpoint: '/api/stalker',
+        body: {
+          action: 'channels',
+          source: category.stalker?.source,
+          categoryIds: category.stalker?.categoryIds,
+        },
+      };
+    default:
+      // The server reads stored playlist URLs itself; only previews send one
+      return { endpoint: '/api/parse-m3u', body: options.preview ? { m3uUrl: category.m3uUrl } : {} };
+  }
+};
+
+export const getAuthHeaders = async (withToken: boolean): Promise<Record<string, string>> => {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (withToken && auth.currentUser) {
+    headers['Authorization'] = `Bearer ${await auth.currentUser.getIdToken()}`;
+  }
+  return headers;
+};
+
+const requestPlaylist = async (category: Category, options: FetchPlaylistOptions): Promise<PlaylistResult> => {
+  const { endpoint, body } = getPlaylistRequest(category, options);
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: await getAuthHeaders(!!(options.refresh || options.preview)),
+    body: JSON.stringify({
+      categoryId: category.id,
+      categoryName: category.name,
+      ...body,
+      ...(options.refresh && { refresh: true }),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to fetch playlist');
+  }
+
+  const data = await response.json();
+  const epgUrls: string[] = data.epgUrls || [];
+  const channels: PublicChannel[] = data.channels || [];
+  return {
+    // Channels carry their guide with them, since group mappings move them between categories
+    channels: epgUrls.length > 0 ? channels.map(channel => ({ ...channel, epgUrls })) : channels,
+    groups: data.groups || [],
+    epgUrls,
+    movies: data.movies || [],
+    series: data.series || [],
+  };
+};
+
+/**
+ * Fetch a category's channels from its playlist source: an M3U playlist through
+ * the server-side parser, an Xtream Codes server or a Stalker portal. All of
+ * them cache upstream responses on the server and return the same channel shape.
+ */
+export const fetchCategoryPlaylist = (category: Category, options: FetchPlaylistOptions = {}): Promise<PlaylistResult> => {
+  if (options.refresh || options.preview) return requestPlaylist(category, options);
+
+  const { endpoint, body } = getPlaylistRequest(category, options);
+  const key = `${category.id}|${category.name}|${endpoint}|${JSON.stringify(body)}`;
+  const pending = inflightPlaylists.get(key);
+  if (pending) return pending;
+
+  const request = requestPlaylist(category, options).finally(() => inflightPlaylists.delete(key));
+  inflightPlaylists.set(key, request);
+  return request;
+};
+
+// Connecting seals credentials on the server, which only admins may do
+const postConnect = async (endpoint: string, login: object, failure: string) => {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: await getAuthHeaders(true),
+    body: JSON.stringify({ action: 'connect', ...login }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || failure);
+  }
+  return data;
+};
+
+/**
+ * Log in to an Xtream Codes server as an admin. The server seals the credentials
+ * and returns them with the live categories on offer.
+ */
+export const connectXtreamSource = async (login: XtreamLogin): Promise<XtreamConnection> => {
+  const data = await postConnect('/api/xtream', login, 'Failed to connect to Xtream server');
+  return {
+    source: { server: data.server, source: data.source, categoryIds: [], includeVod: false },
+    categories: data.categories || [],
+    expiresAt: data.expiresAt ?? null,
+  };
+};
+
+/**
+ * Register with a Stalker portal as an admin. The server checks the MAC address,
+ * seals it with the portal URL and returns the portal's genres.
+ */
+export const connectStalkerSource = async (login: StalkerLogin): Promise<StalkerConnection> => {
+  const data = await postConnect('/api/stalker', login, 'Failed to connect to Stalker portal');
+  return {
+    source: { portal: data.portal, source: data.source, categoryIds: [] },
+    categories: data.categories || [],
+  };
+};
+
+/**
+ * Order categories as the admin arranged them, falling back to their names
+ */
+export const sortCategories = (categories: Category[]): Category[] =>
+  [...categories].sort((a, b) => {
+    if (a.order !== undefined && b.order !== undefined) {
+      return a.order - b.order;
+    }
+    return a.name.localeCompare(b.name);
+  });
+
+/**
+ * Re-stamp playlist channels whose group an admin mapped onto another category
+ */
+export const applyGroupMappings = (
+  channels: PublicChannel[],
+  sourceCategory: Category,
+  categories: Category[]
+): PublicChannel[] => {
+  if (!sourceCategory.groupMappings?.length) return channels;
+
+  return channels.map(channel => {
+    const mapping = sourceCategory.groupMappings?.find(m => m.group === channel.groupTitle);
+    if (!mapping || mapping.categoryId === sourceCategory.id) return channel;
+
+    const target = categories.find(cat => cat.id === mapping.categoryId);
+    if (!target) return channel;
+
+    return { ...channel, categoryId: target.id, categoryName: target.name };
+  });
+};
+
+// Playlist channel IDs used to be "<category>_<name with underscores>_<position>",
+// which changed whenever the playlist was reordered
+const LEGACY_CHANNEL_ID = /^[^_]+_[a-z0-9_]*_\d+$/;
+
+export const isLegacyChannelId = (id: string): boolean => LEGACY_CHANNEL_ID.test(id);
+
+/**
+ * Find the current channel for an old position-based ID. What we still know about
+ * the channel (a favorite keeps its name, stream key and tvg-id) beats the ID itself,
+ * since the position it encodes may now point at a different channel.
+ */
+export const resolveLegacyChannel = (
+  legacyId: string,
+  known: { name?: string; streamKey?: string; tvgId?: string },
+  channels: PublicChannel[]
+): PublicChannel | null => {
+  const prefix = `${legacyId.split('_')[0]}_`;
+  const candidates = channels.filter(ch => ch.legacyId && ch.id.startsWith(prefix));
+
+  if (known.streamKey) {
+    const byStream = candidates.find(ch => ch.streamKey === known.streamKey);
+    if (byStream) return byStream;
+  }
+
+  const tvgId = known.tvgId?.trim().toLowerCase();
+  if (tvgId) {
+    const byTvgId = candidates.filter(ch => ch.tvgId?.trim().toLowerCase() === tvgId);
+    if (byTvgId.length === 1) return byTvgId[0];
+  }
+
+  if (known.name) {
+    const byName = candidates.filter(ch => ch.name === known.name);
+    if (byName.length === 1) return byName[0];
+  }
+
+  return candidates.find(ch => ch.legacyId === legacyId) || null;
+};
+
+// Low-latency settings arrive as stored, so they are normalized here like every other one
+const toPublicChannel = (channel: PublicChannel): PublicChannel => {
+  const { lowLatency: stored, ...rest } = channel;
+  const lowLatency = normalizeLowLatency(stored);
+  return { ...rest, ...(lowLatency && { lowLatency }) };
+};
+
+const postChannels = async (body: Record<string, string>) => {
+  const response = await fetch('/api/channels', {
+    method: 'POST',
+    headers: await getAuthHeaders(false),
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json();
+  if (!response.ok && response.status !== 404) {
+    throw new Error(data.error || 'Failed to fetch channels');
+  }
+  return data;
+};
+
+/**
+ * Fetch the manually added channels of a category. The server mints their
+ * stream URLs, with stored request headers sealed inside.
+ */
+export const fetchManualChannels = async (categoryId: string): Promise<PublicChannel[]> => {
+  const { channels = [] } = await postChannels({ categoryId });
+  return channels.map(toPublicChannel);
+};
+
+/**
+ * Fetch one manually added channel, or null when there is none with this ID
+ */
+export const fetchManualChannel = async (channelId: string): Promise<PublicChannel | null> => {
+  const { channel } = await postChannels({ channelId });
+  return channel ? toPublicChannel(channel) : null;
+};
+
+/**
+ * Assemble every channel shown in a category: its own playlist (minus groups
+ * mapped elsewhere), groups mapped in from other playlists, and manual channels
+ */
+export const loadCategoryChannels = async (
+  category: Category,
+  categories: Category[]
+): Promise<CategoryChannelsResult> => {
+  let channels: PublicChannel[] = [];
+  let playlistError = false;
+
+  const sources = categories.filter(cat =>
+    hasPlaylistSource(cat) && (
+      cat.id === category.id ||
+      cat.groupMappings?.some(mapping => mapping.categoryId === category.id)
+    )
+  );
+  if (hasPlaylistSource(category) && !sources.some(cat => cat.id === category.id)) {
+    sources.unshift(category);
+  }
+
+  const results = await Promise.allSettled(sources.map(source => fetchCategoryPlaylist(source)));
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      // Only our own playlist failing is worth surfacing to the viewer
+      if (sources[index].id === category.id) playlistError = true;
+      return;
+    }
+    const mapped = applyGroupMappings(result.value.channels, sources[index], categories);
+    channels = [...channels, ...mapped.filter(ch => ch.categoryId === category.id)];
+  });
+
+  try {
+    const manualChannels = await fetchManualChannels(category.id);
+    channels = [...channels, ...manualChannels];
+  } catch (firestoreError) {
+    console.error('Error fetching manual channels');
+  }
+
+  return { channels, playlistError };
+};
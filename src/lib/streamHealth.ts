@@ -0,0 +1,188 @@
+// src/lib/streamHealth.ts - Server-side stream checks for the admin health report
+import { resolveStreamDrm } from '@/lib/drm';
+import { loadAdminChannels } from '@/lib/adminChannels';
+import { AdminChannel, Category, CategorySourceType, ChannelHealthRecord, HealthRun, PublicChannel, StreamHealth } from '@/types';
+import { fetchCategoryPlaylist, getAuthHeaders, hasPlaylistSource } from '@/lib/playlist';
+
+export interface StreamCheck {
+  id: string;
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface HealthCheckOptions {
+  onProgress?: (results: Record<string, StreamHealth>, checked: number) => void;
+  shouldStop?: () => boolean;
+}
+
+export interface HealthHistory {
+  channels: Record<string, ChannelHealthRecord>;
+  runs: HealthRun[];
+  updatedAt: number;
+}
+
+// The probe endpoint takes at most this many streams per request
+const BATCH_SIZE = 20;
+// The scheduled check runs every few minutes, so the offline list is reused for a while
+const OFFLINE_TTL = 5 * 60 * 1000;
+
+let offlineCache: { ids: Promise<Set<string>>; expires: number } | null = null;
+
+const postProbe = async (streams: StreamCheck[]): Promise<Record<string, StreamHealth>> => {
+  const response = await fetch('/api/probe', {
+    method: 'POST',
+    headers: await getAuthHeaders(true),
+    body: JSON.stringify({ streams }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to check streams');
+  }
+  return data.results || {};
+};
+
+/**
+ * Check one stream: its manifest, bitrate ladder and first segment
+ */
+export const checkStream = async (url: string, headers?: Record<string, string>): Promise<StreamHealth> => {
+  const results = await postProbe([{ id: 'stream', url, headers }]);
+  return results.stream;
+};
+
+/**
+ * Check many streams a batch at a time, reporting results as they come in
+ */
+export const checkStreams = async (
+  streams: StreamCheck[],
+  options: HealthCheckOptions = {}
+): Promise<Record<string, StreamHealth>> => {
+  const results: Record<string, StreamHealth> = {};
+
+  for (let i = 0; i < streams.length; i += BATCH_SIZE) {
+    if (options.shouldStop?.()) break;
+    Object.assign(results, await postProbe(streams.slice(i, i + BATCH_SIZE)));
+    options.onProgress?.({ ...results }, Math.min(i + BATCH_SIZE, streams.length));
+  }
+
+  return results;
+};
+
+export interface HealthCheckChannel {
+  channel: PublicChannel;
+  source: 'manual' | CategorySourceType;
+  // Manual channels are read unminted, so their stored headers go to the probe
+  headers?: Record<string, string>;
+}
+
+// Stored auth cookie, referer and user agent as request headers for the probe
+const toRequestHeaders = (data: AdminChannel): Record<string, string> | undefined => {
+  const headers: Record<string, string> = {};
+  if (data.authCookie) headers['Cookie'] = data.authCookie;
+  if (data.referer) headers['Referer'] = data.referer;
+  if (data.userAgent) headers['User-Agent'] = data.userAgent;
+  return Object.keys(headers).length > 0 ? headers : undefined;
+};
+
+const toManualTarget = (data: AdminChannel): HealthCheckChannel => {
+  const headers = toRequestHeaders(data);
+  return {
+    channel: {
+      id: data.id,
+      name: data.name || 'Unknown Channel',
+      logoUrl: data.logoUrl || '/channel-placeholder.svg',
+      // Older channels may carry a "?|drmScheme=..." suffix meant for the player
+      streamUrl: resolveStreamDrm(data.streamUrl || '', data.drm).url,
+      categoryId: data.categoryId || '',
+      categoryName: data.categoryName || 'Unknown Category',
+    },
+    source: 'manual',
+    ...(headers && { headers }),
+  };
+};
+
+/**
+ * Every channel worth checking: all manual channels and the channels of every
+ * playlist source, each once
+ */
+export const collectHealthCheckChannels = async (categories: Category[]): Promise<HealthCheckChannel[]> => {
+  const playlistCategories = categories.filter(hasPlaylistSource);
+  const lists = await Promise.allSettled([
+    loadAdminChannels().then(channels => channels.map(toManualTarget)),
+    ...playlistCategories.map(async (category): Promise<HealthCheckChannel[]> => {
+      const { channels } = await fetchCategoryPlaylist(category);
+      return channels.map(channel => ({ channel, source: category.sourceType || 'm3u' }));
+    }),
+  ]);
+
+  // Manual channels come first, so they win over playlist duplicates
+  const seen = new Set<string>();
+  return lists
+    .flatMap(result => (result.status === 'fulfilled' ? result.value : []))
+    .filter(({ channel }) => {
+      if (!channel.streamUrl || seen.has(channel.id)) return false;
+      seen.add(channel.id);
+      return true;
+    });
+};
+
+/**
+ * Highest rung of a bitrate ladder, e.g. "1080p · 5.2 Mbps"
+ */
+export const describeTopVariant = (health: StreamHealth): string | null => {
+  const top = health.variants[health.variants.length - 1];
+  if (!top) return null;
+  const parts = [];
+  if (top.height) parts.push(`${top.height}p`);
+  if (top.bandwidth) parts.push(`${(top.bandwidth / 1_000_000).toFixed(1)} Mbps`);
+  return parts.join(' · ') || null;
+};
+
+/**
+ * IDs of channels the scheduled health check has marked offline. Fails open:
+ * when the list cannot be loaded, no channel is offline.
+ */
+export const fetchOfflineChannelIds = (): Promise<Set<string>> => {
+  if (offlineCache && offlineCache.expires > Date.now()) return offlineCache.ids;
+
+  const ids = fetch('/api/health', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'offline' }),
+  })
+    .then(async response => {
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      return new Set<string>(data.offline || []);
+    })
+    .catch(error => {
+      console.warn('Could not load offline channels:', error);
+      return new Set<string>();
+    });
+
+  offlineCache = { ids, expires: Date.now() + OFFLINE_TTL };
+  return ids;
+};
+
+/**
+ * Uptime history of every channel and the totals of each scheduled run (admin)
+ */
+export const fetchHealthHistory = async (): Promise<HealthHistory> => {
+  const response = await fetch('/api/health', {
+    method: 'POST',
+    headers: await getAuthHeaders(true),
+    body: JSON.stringify({ action: 'history' }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load stream health history');
+  }
+  return { channels: data.channels || {}, runs: data.runs || [], updatedAt: data.updatedAt || 0 };
+};
+
+/**
+ * Share of a channel's kept checks that passed, 0-1
+ */
+export const getUptime = (record: ChannelHealthRecord): number =>
+  record.history ? record.history.split('').filter(code => code === 'o').length / record.history.length : 0;
@@ -0,0 +1,197 @@
+// src/lib/streamStats.ts - "Stats for nerds" readings of the video player
+
+export type PlayerEngine = 'hls' | 'shaka' | 'native';
+
+// Something the player engines reported while playing, newest last
+export interface PlayerEvent {
+  at: number; // ms
+  engine: PlayerEngine;
+  kind: 'error' | 'warning' | 'retry';
+  message: string;
+}
+
+export interface StreamStats {
+  engine: PlayerEngine | null;
+  width: number;
+  height: number;
+  bitrate: number | null; // bits/s of the playing rendition
+  bandwidth: number | null; // bits/s, the engine's estimate
+  bufferAhead: number; // seconds
+  droppedFrames: number | null;
+  totalFrames: number | null;
+  liveLatency: number | null; // seconds behind real time, from program date times
+  liveEdgeDistance: number | null; // seconds behind the newest available media
+  videoCodec: string | null;
+  audioCodec: string | null;
+}
+
+// Kept for the life of the player, across retries; older events drop off the front
+export const MAX_PLAYER_EVENTS = 30;
+
+// The parts of hls.js and Shaka the readings use
+interface HlsLevel {
+  bitrate: number;
+  videoCodec?: string;
+  audioCodec?: string;
+}
+
+interface HlsReadings {
+  levels: HlsLevel[];
+  currentLevel: number;
+  bandwidthEstimate: number;
+  latency: number;
+  targetLatency: number | null;
+  liveSyncPosition: number | null;
+  playingDate: Date | null;
+}
+
+interface ShakaTrack {
+  active: boolean;
+  videoCodec: string | null;
+  audioCodec: string | null;
+}
+
+interface ShakaReadings {
+  getStats: () => { streamBandwidth: number; estimatedBandwidth: number; liveLatency: number };
+  getVariantTracks: () => ShakaTrack[];
+  isLive: () => boolean;
+  seekRange: () => { start: number; end: number };
+  getConfiguration: () => { streaming: { liveSync: { enabled: boolean; targetLatency: number } } };
+  getPlayheadTimeAsDate: () => Date | null;
+}
+
+// Where a live stream's playhead is; the player's LIVE button and DVR timeline show it
+export interface LivePosition {
+  behind: number; // seconds behind the newest available media
+  target: number; // seconds behind it the engine aims to play
+  clockOffset: number; // ms; media time t was broadcast at t * 1000 + clockOffset
+}
+
+const finiteOrNull = (value: number | null | undefined) =>
+  typeof value === 'number' && isFinite(value) && value > 0 ? value : null;
+
+// Seconds buffered past the playhead, in the range the playhead is in
+export const getBufferAhead = (video: HTMLVideoElement): number => {
+  const { buffered, currentTime } = video;
+  for (let i = 0; i < buffered.length; i++) {
+    if (buffered.start(i) <= currentTime + 0.1 && currentTime <= buffered.end(i)) {
+      return Math.max(0, buffered.end(i) - currentTime);
+    }
+  }
+  return 0;
+};
+
+/**
+ * How far the playhead is behind the live edge, or null when the stream is not
+ * live. Native playback reports no target latency, so it is measured against
+ * the end of the seekable range. Wall-clock times come from the stream's
+ * program date times; without them the live edge is taken to be now.
+ */
+export const getLivePosition = (
+  video: HTMLVideoElement,
+  engine: PlayerEngine | null,
+  hls: HlsReadings | null,
+  shaka: ShakaReadings | null
+): LivePosition | null => {
+  let edge: number;
+  let target = 0;
+  let playheadDate: Date | null = null;
+
+  if (engine === 'hls' && hls) {
+    if (hls.liveSyncPosition === null) return null;
+    edge = video.currentTime + hls.latency;
+    target = hls.targetLatency ?? 0;
+    playheadDate = hls.playingDate;
+  } else if (engine === 'shaka' && shaka) {
+    if (!shaka.isLive()) return null;
+    const { liveSync } = shaka.getConfiguration().streaming;
+    edge = shaka.seekRange().end;
+    target = liveSync.enabled ? liveSync.targetLatency : 0;
+    playheadDate = shaka.getPlayheadTimeAsDate();
+  } else if (video.duration === Infinity && video.seekable.length > 0) {
+    edge = video.seekable.end(video.seekable.length - 1);
+  } else {
+    return null;
+  }
+
+  const clockOffset = playheadDate && isFinite(playheadDate.getTime())
+    ? playheadDate.getTime() - video.currentTime * 1000
+    : Date.now() - edge * 1000;
+  return { behind: Math.max(0, edge - video.currentTime), target, clockOffset };
+};
+
+export const collectStreamStats = (
+  video: HTMLVideoElement,
+  engine: PlayerEngine | null,
+  hls: HlsReadings | null,
+  shaka: ShakaReadings | null
+): StreamStats => {
+  const quality = typeof video.getVideoPlaybackQuality === 'function' ? video.getVideoPlaybackQuality() : null;
+  const stats: StreamStats = {
+    engine,
+    width: video.videoWidth,
+    height: video.videoHeight,
+    bitrate: null,
+    bandwidth: null,
+    bufferAhead: getBufferAhead(video),
+    droppedFrames: quality ? quality.droppedVideoFrames : null,
+    totalFrames: quality ? quality.totalVideoFrames : null,
+    liveLatency: null,
+    liveEdgeDistance: finiteOrNull(getLivePosition(video, engine, hls, shaka)?.behind),
+    videoCodec: null,
+    audioCodec: null,
+  };
+
+  if (engine === 'hls' && hls) {
+    const level = hls.levels[hls.currentLevel];
+    stats.bitrate = finiteOrNull(level?.bitrate);
+    stats.bandwidth = finiteOrNull(hls.bandwidthEstimate);
+    stats.videoCodec = level?.videoCodec || null;
+    stats.audioCodec = level?.audioCodec || null;
+    if (hls.liveSyncPosition !== null && hls.playingDate) {
+      stats.liveLatency = finiteOrNull((Date.now() - hls.playingDate.getTime()) / 1000);
+    }
+  } else if (engine === 'shaka' && shaka) {
+    const shakaStats = shaka.getStats();
+    const track = shaka.getVariantTracks().find(variant => variant.active);
+    stats.bitrate = finiteOrNull(shakaStats.streamBandwidth);
+    stats.bandwidth = finiteOrNull(shakaStats.estimatedBandwidth);
+    stats.videoCodec = track?.videoCodec || null;
+    stats.audioCodec = track?.audioCodec || null;
+    if (shaka.isLive()) stats.liveLatency = finiteOrNull(shakaStats.liveLatency);
+  }
+
+  return stats;
+};
+
+export const formatBitrate = (bits: number | null): string => {
+  if (bits === null) return '–';
+  return bits >= 1e6 ? `${(bits / 1e6).toFixed(2)} Mbps` : `${Math.round(bits / 1e3)} kbps`;
+};
+
+// Label/value rows, shared by the overlay and the copied report
+export const describeStreamStats = (stats: StreamStats): [string, string][] => [
+  ['Engine', stats.engine === 'hls' ? 'hls.js' : stats.engine === 'shaka' ? 'Shaka Player' : stats.engine === 'native' ? 'Native' : '–'],
+  ['Resolution', stats.width && stats.height ? `${stats.width}x${stats.height}` : '–'],
+  ['Bitrate', formatBitrate(stats.bitrate)],
+  ['Bandwidth estimate', formatBitrate(stats.bandwidth)],
+  ['Buffer', `${stats.bufferAhead.toFixed(1)} s`],
+  ['Dropped frames', stats.droppedFrames === null ? '–' : `${stats.droppedFrames} / ${stats.totalFrames}`],
+  ['Live latency', stats.liveLatency === null ? '–' : `${stats.liveLatency.toFixed(1)} s`],
+  ['Behind live edge', stats.liveEdgeDistance === null ? '–' : `${stats.liveEdgeDistance.toFixed(1)} s`],
+  ['Video codec', stats.videoCodec || '–'],
+  ['Audio codec', stats.audioCodec || '–'],
+];
+
+export const formatPlayerEvent = (event: PlayerEvent): string =>
+  `${new Date(event.at).toLocaleTimeString()} ${event.engine} ${event.kind}: ${event.message}`;
+
+// Plain text for bug reports
+export const formatStreamReport = (channelName: string, stats: StreamStats, events: PlayerEvent[]): string => [
+  `Channel: ${channelName}`,
+  `Time: ${new Date().toISOString()}`,
+  `User agent: ${navigator.userAgent}`,
+  ...describeStreamStats(stats).map(([label, value]) => `${label}: ${value}`),
+  `Recent events (${events.length}):`,
+  ...(events.length > 0 ? events.map(formatPlayerEvent) : ['none']),
+].join('\n');
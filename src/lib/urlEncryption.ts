@@ -1,19 +1,25 @@
-// src/lib/urlEncryption.ts - FIXED VERSION
+// src/lib/urlEncryption.ts - Signed proxy URLs minted by the server
+import { getAuthHeaders } from '@/lib/playlist';
+
 const PROXY_URL = '/api/m3u8-proxy';
 
+// Proxy tokens are opaque, so remember which upstream URL each one was minted for.
+// Only used client-side for stream type detection.
+const originalUrls = new Map<string, string>();
+
 /**
  * Check if a URL needs proxying based on its format
  */
 function needsProxying(url: string): boolean {
   if (!url) return false;
-  
+
   const urlLower = url.toLowerCase();
-  
+
   // Check if URL is already proxied
   if (urlLower.includes('/api/m3u8-proxy')) {
     return false;
   }
-  
+
   // Check if it's a stream that needs proxying
   return (
     urlLower.includes('.m3u8') ||
@@ -21,63 +27,85 @@ function needsProxying(url: string): boolean {
     urlLower.includes('/hls/') ||
     urlLower.includes('m3u8') ||
     urlLower.includes('.ts') || // Transport stream segments
+    urlLower.includes('.mpd') || // DASH manifests
     urlLower.includes('manifest')
   );
 }
 
 /**
- * Get proxied URL for streams that need CORS bypass
+ * Ask the proxy to mint a signed, expiring URL. The upstream URL and any
+ * per-channel request headers are encrypted server-side, so neither sits
+ * in plain text in the page. Channel listings arrive minted already; minting
+ * any other URL is for admins only.
+ */
+async function mintProxyUrl(originalUrl: string, headers?: Record<string, string>): Promise<string> {
+  const response = await fetch(PROXY_URL, {
+    method: 'POST',
+    headers: await getAuthHeaders(true),
+    body: JSON.stringify({ url: originalUrl, headers }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Proxy returned ${response.status}`);
+  }
+
+  const data = await response.json();
+  originalUrls.set(data.url, originalUrl);
+  return data.url;
+}
+
+/**
+ * Get proxied URL for streams that need CORS bypass.
+ * Streams with per-channel request headers always go through the proxy,
+ * since the browser cannot set Referer, User-Agent or Cookie itself.
  */
-export function getProxiedUrl(originalUrl: string): string {
+export async function getProxiedUrl(originalUrl: string, headers?: Record<string, string>): Promise<string> {
   if (!originalUrl) {
     console.warn('getProxiedUrl: Empty URL provided');
     return originalUrl;
   }
-  
-  // Clean URL if it's already proxied
-  if (originalUrl.includes('/api/m3u8-proxy?url=')) {
+
+  // Already signed by the proxy
+  if (originalUrl.includes('/api/m3u8-proxy?t=')) {
+    console.log('URL already proxied, returning as-is');
+    return originalUrl;
+  }
+
+  // Stalker portal links resolve and redirect to the proxy themselves
+  if (originalUrl.startsWith('/api/stalker?')) {
+    return originalUrl;
+  }
+
+  const hasHeaders = !!headers && Object.keys(headers).length > 0;
+
+  // CRITICAL FIX: Always proxy HLS/M3U8 and DASH streams for manual channels
+  // The needsProxying check ensures we only proxy the right content
+  if (hasHeaders || needsProxying(originalUrl)) {
     try {
-      const urlObj = new URL(originalUrl, window.location.origin);
-      const encodedUrl = urlObj.searchParams.get('url');
-      if (encodedUrl) {
-        console.log('URL already proxied, returning as-is');
-        return originalUrl;
-      }
+      const proxiedUrl = await mintProxyUrl(originalUrl, hasHeaders ? headers : undefined);
+      console.log('Proxying stream URL:', {
+        original: originalUrl.substring(0, 50) + '...',
+        proxied: proxiedUrl.substring(0, 50) + '...'
+      });
+      return proxiedUrl;
     } catch (e) {
-      console.warn('Error parsing already-proxied URL:', e);
+      console.error('Error minting proxy URL, using direct URL:', e);
+      return originalUrl;
     }
   }
-  
-  // CRITICAL FIX: Always proxy HLS/M3U8 streams for manual channels
-  // The needsProxying check ensures we only proxy the right content
-  if (needsProxying(originalUrl)) {
-    const proxiedUrl = `${PROXY_URL}?url=${encodeURIComponent(originalUrl)}`;
-    console.log('Proxying stream URL:', {
-      original: originalUrl.substring(0, 50) + '...',
-      proxied: proxiedUrl.substring(0, 50) + '...'
-    });
-    return proxiedUrl;
-  }
-  
+
   // Return original URL for direct streams (MP4, etc.)
   console.log('Stream does not need proxying, using direct URL');
   return originalUrl;
 }
 
 /**
- * Extract original URL from proxied URL
+ * Look up the upstream URL a proxy URL was minted for
  */
 export function getOriginalUrl(proxiedUrl: string): string | null {
-  if (!proxiedUrl || !proxiedUrl.includes('/api/m3u8-proxy?url=')) {
-    return null;
-  }
-  
-  try {
-    const urlObj = new URL(proxiedUrl, window.location.origin);
-    const originalUrl = urlObj.searchParams.get('url');
-    return originalUrl ? decodeURIComponent(originalUrl) : null;
-  } catch (e) {
-    console.error('Error extracting original URL:', e);
+  if (!proxiedUrl || !proxiedUrl.includes('/api/m3u8-proxy?t=')) {
     return null;
   }
+
+  return originalUrls.get(proxiedUrl) || null;
 }
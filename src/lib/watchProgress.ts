@@ -0,0 +1,101 @@
+// src/lib/watchProgress.ts - Where viewers left off in movies, episodes and catch-up
+//
+// Kept in localStorage alongside favorites and recents, keyed by movie or
+// episode ID (catch-up by channel and programme start). Entries carry enough
+// to list them without loading the library. Old entries expire and the store
+// is capped, dropping the least recently watched first.
+const STORAGE_KEY = 'iptv-watch-progress';
+
+// Positions this close to either end are not worth resuming from
+const MIN_RESUME_SECS = 30;
+const FINISHED_RATIO = 0.95;
+const MAX_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 300;
+
+export type WatchProgressKind = 'movie' | 'episode' | 'catchup';
+
+export interface WatchProgress {
+  id: string;
+  kind: WatchProgressKind;
+  name: string;
+  posterUrl?: string;
+  seriesId?: string; // Episodes only
+  position: number; // seconds
+  duration: number; // seconds
+  watched?: boolean; // Played to the end
+  updatedAt: number;
+}
+
+export type WatchProgressItem = Omit<WatchProgress, 'position' | 'duration' | 'watched' | 'updatedAt'>;
+
+const prune = (entries: Record<string, WatchProgress>): Record<string, WatchProgress> => {
+  const cutoff = Date.now() - MAX_AGE_MS;
+  const kept = Object.values(entries)
+    .filter(entry => entry && entry.updatedAt > cutoff)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_ENTRIES);
+  return Object.fromEntries(kept.map(entry => [entry.id, entry]));
+};
+
+const readAll = (): Record<string, WatchProgress> => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? prune(JSON.parse(saved)) : {};
+  } catch (error) {
+    console.error('Error loading watch progress');
+    return {};
+  }
+};
+
+const writeAll = (entries: Record<string, WatchProgress>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(prune(entries)));
+  } catch (error) {
+    console.error('Error saving watch progress');
+  }
+};
+
+export const isResumable = (progress: WatchProgress | null | undefined): progress is WatchProgress =>
+  !!progress && !progress.watched && progress.position >= MIN_RESUME_SECS && progress.position < progress.duration * FINISHED_RATIO;
+
+export const getWatchProgress = (id: string): WatchProgress | null => readAll()[id] || null;
+
+export const isWatched = (id: string): boolean => !!getWatchProgress(id)?.watched;
+
+/**
+ * Record a position. Reaching the end marks the title watched, which drops it
+ * out of "Continue watching" until it is played again.
+ */
+export const saveWatchProgress = (item: WatchProgressItem, position: number, duration: number) => {
+  if (!isFinite(duration) || duration <= 0) return;
+  const entries = readAll();
+  const finished = position >= duration * FINISHED_RATIO;
+  entries[item.id] = {
+    ...item,
+    position: finished ? 0 : position,
+    duration,
+    watched: finished || (entries[item.id]?.watched && position < MIN_RESUME_SECS) || undefined,
+    updatedAt: Date.now(),
+  };
+  writeAll(entries);
+};
+
+/**
+ * Movies and episodes started but not finished, most recent first
+ */
+export const getContinueWatching = (limit = 20): WatchProgress[] =>
+  Object.values(readAll())
+    .filter(entry => entry.kind !== 'catchup' && isResumable(entry))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, limit);
+
+/**
+ * 754 -> "12:34", 3723 -> "1:02:03"
+ */
+export const formatPlaybackTime = (secs: number): string => {
+  const total = Math.max(0, Math.floor(secs));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
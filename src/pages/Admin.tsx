@@ -1,12 +1,18 @@
 // src/pages/Admin.tsx
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Route, Link, useLocation, Switch } from 'wouter';
 import { signInWithEmailAndPassword, signOut } from 'firebase/auth';
-import { collection, getDocs, addDoc, updateDoc, deleteDoc, doc, query, orderBy, writeBatch } from 'firebase/firestore';
+import { collection, getDocs, getDoc, addDoc, updateDoc, setDoc, deleteDoc, doc, query, orderBy, writeBatch } from 'firebase/firestore';
 import { auth, db } from '@/lib/firebase';
 import { useAuth } from '@/hooks/useAuth';
-import { Category, AdminChannel, LiveEvent, LiveEventLink } from '@/types';
-import { Shield, LogOut, Plus, Edit, Trash2, Save, X, Link as LinkIcon, Tv, Users, BarChart3, CheckCircle, XCircle, Loader2, ArrowUp, ArrowDown, Calendar, Trophy } from 'lucide-react';
+import { Category, AdminChannel, AdminChannelSource, DrmConfig, DrmKeySystem, LiveEvent, LiveEventLink, LowLatencyConfig, CategoryGroupMapping, CategorySourceType, PlaylistGroup, ProxySettings, StalkerSource, StreamHealth, XtreamSource } from '@/types';
+import { fetchCategoryPlaylist, hasPlaylistSource, connectXtreamSource, connectStalkerSource, SourceCategory } from '@/lib/playlist';
+import { DRM_KEY_SYSTEMS, formatClearKeys, formatHeaderLines, getDrmError, parseClearKeys, parseHeaderLines, resolveStreamDrm } from '@/lib/drm';
+import { clampTargetLatency, DEFAULT_TARGET_LATENCY, MAX_TARGET_LATENCY, MIN_TARGET_LATENCY, normalizeLowLatency } from '@/lib/liveLatency';
+import { loadAdminChannels, saveAdminChannel, deleteAdminChannel } from '@/lib/adminChannels';
+import { checkStream, checkStreams, collectHealthCheckChannels, describeTopVariant, fetchHealthHistory, HealthCheckChannel, HealthHistory } from '@/lib/streamHealth';
+import UptimeCharts from '@/components/UptimeCharts';
+import { Shield, LogOut, Plus, Edit, Trash2, Save, X, Link as LinkIcon, Tv, Users, BarChart3, CheckCircle, XCircle, Loader2, ArrowUp, ArrowDown, Calendar, Trophy, Layers, Settings, RefreshCw, Activity } from 'lucide-react';
 import { toast } from "@/components/ui/sonner";
 
 // --- Admin Login Component ---
@@ -89,17 +95,34 @@ const AdminLogin = () => {
 };
 
 // --- Categories Manager Component ---
+const EMPTY_CATEGORY_FORM = {
+  name: '',
+  slug: '',
+  iconUrl: '',
+  sourceType: 'm3u' as CategorySourceType,
+  m3uUrl: '',
+  xtream: null as XtreamSource | null,
+  stalker: null as StalkerSource | null,
+  groupMappings: [] as CategoryGroupMapping[],
+};
+
+const EMPTY_XTREAM_LOGIN = { server: '', username: '', password: '' };
+
+const EMPTY_STALKER_LOGIN = { portal: '', mac: '' };
+
 const CategoriesManager = () => {
   const [categories, setCategories] = useState<Category[]>([]);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
-  const [newCategory, setNewCategory] = useState({ 
-    name: '', 
-    slug: '', 
-    iconUrl: '', 
-    m3uUrl: '' 
-  });
+  const [newCategory, setNewCategory] = useState(EMPTY_CATEGORY_FORM);
+  const [xtreamLogin, setXtreamLogin] = useState(EMPTY_XTREAM_LOGIN);
+  const [stalkerLogin, setStalkerLogin] = useState(EMPTY_STALKER_LOGIN);
+  const [sourceCategories, setSourceCategories] = useState<SourceCategory[]>([]);
+  const [connecting, setConnecting] = useState(false);
   const [loading, setLoading] = useState(false);
   const [validationStatus, setValidationStatus] = useState<'idle' | 'validating' | 'valid' | 'invalid'>('idle');
+  const [playlistGroups, setPlaylistGroups] = useState<PlaylistGroup[]>([]);
+  const [loadingGroups, setLoadingGroups] = useState(false);
+  const [refreshingId, setRefreshingId] = useState<string | null>(null);
 
   // Helper function to generate slug from name
   const generateSlug = (name: string): string => {
@@ -152,20 +175,21 @@ const CategoriesManager = () => {
       return true; 
     }
     
-    if (!url.toLowerCase().includes('.m3u8') && !url.toLowerCase().includes('.m3u')) {
-      setValidationStatus('invalid');
-      toast.warning("URL may not be a valid M3U playlist.");
-      return true; 
-    }
-    
+    // Load the playlist through the server, the way viewers will get it
     setValidationStatus('validating');
     try {
-      await fetch(url, { method: 'HEAD', mode: 'no-cors' });
+      const { channels, movies, series } = await fetchCategoryPlaylist({ id: 'preview', name: 'Preview', slug: '', m3uUrl: url }, { preview: true });
+      if (channels.length + movies.length + series.length === 0) {
+        setValidationStatus('invalid');
+        toast.warning("The playlist loaded but contains no streams.");
+        return false;
+      }
       setValidationStatus('valid');
       return true;
     } catch (error) {
       console.error("URL validation error:", error);
       setValidationStatus('invalid');
+      toast.warning(error instanceof Error ? error.message : "Could not load the playlist.");
       return false;
     }
   };
@@ -174,6 +198,138 @@ const CategoriesManager = () => {
     validateM3UUrl(e.target.value);
   };
 
+  const isXtream = newCategory.sourceType === 'xtream';
+  const isStalker = newCategory.sourceType === 'stalker';
+  // Xtream servers and Stalker portals are connected once, then narrowed to some of their categories
+  const remoteSource = isXtream ? newCategory.xtream : isStalker ? newCategory.stalker : null;
+  const formHasSource = isXtream || isStalker ? !!remoteSource : !!newCategory.m3uUrl.trim();
+
+  const handleLoadGroups = async () => {
+    if (!formHasSource) return;
+    setLoadingGroups(true);
+    try {
+      const { groups } = await fetchCategoryPlaylist({
+        id: editingCategory?.id || 'preview',
+        name: newCategory.name || 'Preview',
+        slug: newCategory.slug,
+        sourceType: newCategory.sourceType,
+        m3uUrl: newCategory.m3uUrl.trim(),
+        xtream: newCategory.xtream || undefined,
+        stalker: newCategory.stalker || undefined,
+      }, { preview: true });
+      setPlaylistGroups(groups);
+      if (groups.length === 0) toast.info("This playlist has no group-title groups");
+    } catch (error) {
+      console.error('Error loading playlist groups:', error);
+      toast.error("Failed to load playlist groups");
+    } finally {
+      setLoadingGroups(false);
+    }
+  };
+
+  const handleRefreshPlaylist = async (category: Category) => {
+    setRefreshingId(category.id);
+    try {
+      const { channels } = await fetchCategoryPlaylist(category, { refresh: true });
+      toast.success(`Playlist refreshed`, { description: `${category.name}: ${channels.length} channels` });
+    } catch (error) {
+      console.error('Error refreshing playlist:', error);
+      toast.error("Refresh Failed");
+    } finally {
+      setRefreshingId(null);
+    }
+  };
+
+  const handleConnectXtream = async () => {
+    if (!xtreamLogin.server.trim() || !xtreamLogin.username.trim()) {
+      toast.error("Server and username are required");
+      return;
+    }
+    setConnecting(true);
+    try {
+      const { source, categories: liveCategories, expiresAt } = await connectXtreamSource({
+        server: xtreamLogin.server.trim(),
+        username: xtreamLogin.username.trim(),
+        password: xtreamLogin.password,
+      });
+      setSourceCategories(liveCategories);
+      // Reconnecting keeps the previous selection where those categories still exist
+      setNewCategory(prev => ({
+        ...prev,
+        xtream: {
+          ...source,
+          categoryIds: (prev.xtream?.categoryIds || []).filter(id => liveCategories.some(cat => cat.id === id)),
+          includeVod: prev.xtream?.includeVod || false,
+        },
+      }));
+      setXtreamLogin(prev => ({ ...prev, password: '' }));
+      toast.success("Connected", {
+        description: `${liveCategories.length} live categories` +
+          (expiresAt ? `, account expires ${new Date(expiresAt).toLocaleDateString()}` : ''),
+      });
+    } catch (error) {
+      console.error('Error connecting to Xtream server:', error);
+      toast.error("Connection Failed", { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const handleConnectStalker = async () => {
+    if (!stalkerLogin.portal.trim() || !stalkerLogin.mac.trim()) {
+      toast.error("Portal URL and MAC address are required");
+      return;
+    }
+    setConnecting(true);
+    try {
+      const { source, categories: genres } = await connectStalkerSource({
+        portal: stalkerLogin.portal.trim(),
+        mac: stalkerLogin.mac.trim(),
+      });
+      setSourceCategories(genres);
+      setNewCategory(prev => ({
+        ...prev,
+        stalker: {
+          ...source,
+          categoryIds: (prev.stalker?.categoryIds || []).filter(id => genres.some(genre => genre.id === id)),
+        },
+      }));
+      setStalkerLogin(EMPTY_STALKER_LOGIN);
+      toast.success("Connected", { description: `${genres.length} genres` });
+    } catch (error) {
+      console.error('Error connecting to Stalker portal:', error);
+      toast.error("Connection Failed", { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const handleSourceCategoryToggle = (categoryId: string) => {
+    setNewCategory(prev => {
+      const key = prev.sourceType === 'stalker' ? 'stalker' : 'xtream';
+      const source = prev[key];
+      if (!source) return prev;
+      const categoryIds = source.categoryIds || [];
+      return {
+        ...prev,
+        [key]: {
+          ...source,
+          categoryIds: categoryIds.includes(categoryId)
+            ? categoryIds.filter(id => id !== categoryId)
+            : [...categoryIds, categoryId],
+        },
+      };
+    });
+  };
+
+  const handleGroupMappingChange = (group: string, categoryId: string) => {
+    setNewCategory(prev => {
+      const groupMappings = prev.groupMappings.filter(mapping => mapping.group !== group);
+      if (categoryId) groupMappings.push({ group, categoryId });
+      return { ...prev, groupMappings };
+    });
+  };
+
   const handleSaveCategory = async () => {
     if (!newCategory.name.trim()) {
       toast.error("Category name is required");
@@ -182,7 +338,7 @@ const CategoriesManager = () => {
     
     setLoading(true);
     try {
-      if (newCategory.m3uUrl.trim()) {
+      if (!isXtream && !isStalker && newCategory.m3uUrl.trim()) {
         await validateM3UUrl(newCategory.m3uUrl.trim());
       }
 
@@ -202,7 +358,11 @@ const CategoriesManager = () => {
         name: newCategory.name.trim(),
         slug: finalSlug,
         iconUrl: newCategory.iconUrl.trim() || '',
-        m3uUrl: newCategory.m3uUrl.trim() || '',
+        sourceType: newCategory.sourceType,
+        m3uUrl: isXtream || isStalker ? '' : newCategory.m3uUrl.trim(),
+        xtream: isXtream ? newCategory.xtream : null,
+        stalker: isStalker ? newCategory.stalker : null,
+        groupMappings: formHasSource ? newCategory.groupMappings : [],
         order: editingCategory?.order ?? Math.max(...categories.map(c => c.order ?? 0), -1) + 1,
       };
 
@@ -214,8 +374,7 @@ const CategoriesManager = () => {
         toast.success("Category Added");
       }
       
-      setNewCategory({ name: '', slug: '', iconUrl: '', m3uUrl: '' });
-      setEditingCategory(null);
+      resetForm();
       await fetchCategories();
     } catch (error) {
       console.error('Error saving category:', error);
@@ -231,9 +390,18 @@ const CategoriesManager = () => {
       name: category.name,
       slug: category.slug,
       iconUrl: category.iconUrl || '',
+      sourceType: category.sourceType || 'm3u',
       m3uUrl: category.m3uUrl || '',
+      xtream: category.xtream || null,
+      stalker: category.stalker || null,
+      groupMappings: category.groupMappings || [],
     });
+    // The password is sealed; reconnecting needs it typed again
+    setXtreamLogin({ ...EMPTY_XTREAM_LOGIN, server: category.xtream?.server || '' });
+    setStalkerLogin({ ...EMPTY_STALKER_LOGIN, portal: category.stalker?.portal || '' });
+    setSourceCategories([]);
     setValidationStatus('idle');
+    setPlaylistGroups([]);
   };
 
   const handleDeleteCategory = async (id: string) => {
@@ -273,9 +441,13 @@ const CategoriesManager = () => {
   };
 
   const resetForm = () => {
-    setNewCategory({ name: '', slug: '', iconUrl: '', m3uUrl: '' });
+    setNewCategory(EMPTY_CATEGORY_FORM);
+    setXtreamLogin(EMPTY_XTREAM_LOGIN);
+    setStalkerLogin(EMPTY_STALKER_LOGIN);
+    setSourceCategories([]);
     setEditingCategory(null);
     setValidationStatus('idle');
+    setPlaylistGroups([]);
   };
 
   return (
@@ -321,7 +493,23 @@ const CategoriesManager = () => {
               disabled={loading}
             />
           </div>
-          <div className="relative">
+          <div>
+            <label className="block text-sm font-medium mb-2">Channel Source</label>
+            <select
+              value={newCategory.sourceType}
+              onChange={(e) => {
+                setNewCategory({ ...newCategory, sourceType: e.target.value as CategorySourceType, groupMappings: [] });
+                setPlaylistGroups([]);
+              }}
+              className="form-input"
+              disabled={loading}
+            >
+              <option value="m3u">M3U playlist</option>
+              <option value="xtream">Xtream Codes server</option>
+              <option value="stalker">Stalker portal</option>
+            </select>
+          </div>
+          {!isXtream && !isStalker && <div className="relative">
             <label className="block text-sm font-medium mb-2">
               M3U Playlist URL
               <LinkIcon size={14} className="inline ml-1 text-green-500" />
@@ -342,8 +530,177 @@ const CategoriesManager = () => {
               {validationStatus === 'valid' && <CheckCircle className="h-5 w-5 text-green-500" />}
               {validationStatus === 'invalid' && <XCircle className="h-5 w-5 text-red-500" />}
             </div>
-          </div>
+          </div>}
         </div>
+
+        {(isXtream || isStalker) && (
+          <div className="mt-4 border-t border-border pt-4 space-y-4">
+            {isXtream ? (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Server URL</label>
+                  <input
+                    type="text"
+                    value={xtreamLogin.server}
+                    onChange={(e) => setXtreamLogin({ ...xtreamLogin, server: e.target.value })}
+                    placeholder="http://provider.example:8080"
+                    className="form-input"
+                    disabled={loading || connecting}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Username</label>
+                  <input
+                    type="text"
+                    value={xtreamLogin.username}
+                    onChange={(e) => setXtreamLogin({ ...xtreamLogin, username: e.target.value })}
+                    autoComplete="off"
+                    className="form-input"
+                    disabled={loading || connecting}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Password</label>
+                  <input
+                    type="password"
+                    value={xtreamLogin.password}
+                    onChange={(e) => setXtreamLogin({ ...xtreamLogin, password: e.target.value })}
+                    autoComplete="new-password"
+                    className="form-input"
+                    disabled={loading || connecting}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Portal URL</label>
+                  <input
+                    type="text"
+                    value={stalkerLogin.portal}
+                    onChange={(e) => setStalkerLogin({ ...stalkerLogin, portal: e.target.value })}
+                    placeholder="http://portal.example:8080/c/"
+                    className="form-input"
+                    disabled={loading || connecting}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">MAC Address</label>
+                  <input
+                    type="text"
+                    value={stalkerLogin.mac}
+                    onChange={(e) => setStalkerLogin({ ...stalkerLogin, mac: e.target.value })}
+                    placeholder="00:1A:79:00:00:00"
+                    autoComplete="off"
+                    className="form-input"
+                    disabled={loading || connecting}
+                  />
+                </div>
+              </div>
+            )}
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                onClick={isXtream ? handleConnectXtream : handleConnectStalker}
+                disabled={loading || connecting}
+                className="btn-secondary text-sm py-1.5"
+              >
+                {connecting ? <Loader2 size={14} className="animate-spin" /> : <LinkIcon size={14} />}
+                {remoteSource ? 'Reconnect' : 'Connect'}
+              </button>
+              {remoteSource ? (
+                <span className="text-xs text-green-500 flex items-center gap-1">
+                  <CheckCircle size={14} /> Connected to {newCategory.xtream?.server || newCategory.stalker?.portal}
+                </span>
+              ) : (
+                <span className="text-xs text-text-secondary">Credentials are encrypted by the server before they are saved</span>
+              )}
+            </div>
+            {isXtream && newCategory.xtream && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!!newCategory.xtream.includeVod}
+                  onChange={(e) => setNewCategory(prev => prev.xtream
+                    ? { ...prev, xtream: { ...prev.xtream, includeVod: e.target.checked } }
+                    : prev)}
+                  disabled={loading}
+                />
+                Include movies and series in the library
+              </label>
+            )}
+            {remoteSource && sourceCategories.length > 0 && (
+              <div>
+                <div className="text-sm font-medium mb-2">
+                  {isXtream ? 'Live categories' : 'Genres'}
+                  <span className="text-xs text-text-secondary ml-2">
+                    {remoteSource.categoryIds?.length
+                      ? `${remoteSource.categoryIds.length} selected`
+                      : 'None selected: all are included'}
+                  </span>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-1 max-h-60 overflow-y-auto">
+                  {sourceCategories.map(sourceCategory => (
+                    <label key={sourceCategory.id} className="flex items-center gap-2 text-sm p-1.5 bg-bg-secondary rounded">
+                      <input
+                        type="checkbox"
+                        checked={!!remoteSource.categoryIds?.includes(sourceCategory.id)}
+                        onChange={() => handleSourceCategoryToggle(sourceCategory.id)}
+                        disabled={loading}
+                      />
+                      <span className="truncate">{sourceCategory.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {formHasSource && (
+          <div className="mt-4 border-t border-border pt-4">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-semibold text-sm text-text-secondary flex items-center gap-2">
+                <Layers size={16} />
+                Playlist Groups
+                {newCategory.groupMappings.length > 0 && (
+                  <span className="text-xs text-accent">({newCategory.groupMappings.length} mapped)</span>
+                )}
+              </h4>
+              <button onClick={handleLoadGroups} disabled={loadingGroups || loading} className="btn-secondary text-sm py-1.5">
+                {loadingGroups ? <Loader2 size={14} className="animate-spin" /> : <Layers size={14} />}
+                {playlistGroups.length > 0 ? 'Reload Groups' : 'Load Groups'}
+              </button>
+            </div>
+            {playlistGroups.length > 0 && (
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {playlistGroups.map(group => {
+                  const mapping = newCategory.groupMappings.find(m => m.group === group.name);
+                  return (
+                    <div key={group.name} className="flex items-center justify-between gap-3 p-2 bg-bg-secondary rounded-lg">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium truncate">{group.name}</div>
+                        <div className="text-xs text-text-secondary">{group.count} channel{group.count !== 1 ? 's' : ''}</div>
+                      </div>
+                      <select
+                        value={mapping?.categoryId || ''}
+                        onChange={(e) => handleGroupMappingChange(group.name, e.target.value)}
+                        className="form-input max-w-[200px] text-sm"
+                        disabled={loading}
+                      >
+                        <option value="">Keep in this category</option>
+                        {categories
+                          .filter(cat => cat.id !== editingCategory?.id)
+                          .map(cat => (
+                            <option key={cat.id} value={cat.id}>Move to {cat.name}</option>
+                          ))}
+                      </select>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
         
         <div className="flex gap-2 mt-4">
           <button
@@ -378,7 +735,9 @@ const CategoriesManager = () => {
                 <div>
                   <div className="font-medium flex items-center gap-2">
                     {category.name}
-                    {category.m3uUrl && <span className="text-green-500 text-xs bg-green-500/10 px-2 py-1 rounded">M3U</span>}
+                    {(!category.sourceType || category.sourceType === 'm3u') && category.m3uUrl && <span className="text-green-500 text-xs bg-green-500/10 px-2 py-1 rounded">M3U</span>}
+                    {category.sourceType === 'xtream' && <span className="text-sky-500 text-xs bg-sky-500/10 px-2 py-1 rounded">Xtream</span>}
+                    {category.sourceType === 'stalker' && <span className="text-violet-500 text-xs bg-violet-500/10 px-2 py-1 rounded">Stalker</span>}
                   </div>
                   <div className="text-xs text-text-secondary">/category/{category.slug}</div>
                 </div>
@@ -386,6 +745,11 @@ const CategoriesManager = () => {
               <div className="flex gap-2">
                 <button onClick={() => handleReorderCategory(category.id, 'up')} disabled={index === 0} className="p-2 text-gray-400 hover:text-white disabled:opacity-30"><ArrowUp size={16} /></button>
                 <button onClick={() => handleReorderCategory(category.id, 'down')} disabled={index === categories.length - 1} className="p-2 text-gray-400 hover:text-white disabled:opacity-30"><ArrowDown size={16} /></button>
+                {hasPlaylistSource(category) && (
+                  <button onClick={() => handleRefreshPlaylist(category)} disabled={refreshingId === category.id} className="p-2 text-green-500 hover:text-green-400 disabled:opacity-50" title="Refresh playlist cache">
+                    <RefreshCw size={16} className={refreshingId === category.id ? 'animate-spin' : ''} />
+                  </button>
+                )}
                 <button onClick={() => handleEditCategory(category)} className="p-2 text-blue-400 hover:text-blue-300"><Edit size={16} /></button>
                 <button onClick={() => handleDeleteCategory(category.id)} className="p-2 text-destructive hover:text-red-400"><Trash2 size={16} /></button>
               </div>
@@ -397,6 +761,154 @@ const CategoriesManager = () => {
   );
 };
 
+// --- DRM Fields Component ---
+interface DrmFieldsProps {
+  value?: DrmConfig;
+  onChange: (drm: DrmConfig | undefined) => void;
+  disabled?: boolean;
+}
+
+const sameEntries = (a?: Record<string, string>, b?: Record<string, string>) =>
+  JSON.stringify(a || {}) === JSON.stringify(b || {});
+
+const DrmFields = ({ value, onChange, disabled }: DrmFieldsProps) => {
+  // The text areas keep what was typed; half-written lines do not parse yet
+  const [headersText, setHeadersText] = useState(() => formatHeaderLines(value?.licenseHeaders));
+  const [keysText, setKeysText] = useState(() => formatClearKeys(value?.clearKeys));
+
+  // Follow changes made outside the fields, such as the form being reset
+  useEffect(() => {
+    setHeadersText(text => (sameEntries(parseHeaderLines(text), value?.licenseHeaders) ? text : formatHeaderLines(value?.licenseHeaders)));
+  }, [value?.licenseHeaders]);
+  useEffect(() => {
+    setKeysText(text => (sameEntries(parseClearKeys(text), value?.clearKeys) ? text : formatClearKeys(value?.clearKeys)));
+  }, [value?.clearKeys]);
+
+  // Firestore rejects undefined, so empty settings are left out rather than cleared
+  const update = (changes: Partial<DrmConfig>) => {
+    const next = { ...value, ...changes };
+    (Object.keys(next) as (keyof DrmConfig)[]).forEach(key => {
+      if (next[key] === undefined || next[key] === '') delete next[key];
+    });
+    onChange(next as DrmConfig);
+  };
+
+  const handleKeySystemChange = (keySystem: string) => {
+    if (!keySystem) {
+      onChange(undefined);
+      return;
+    }
+    update({
+      keySystem: keySystem as DrmKeySystem,
+      ...(keySystem !== 'org.w3.clearkey' && { clearKeys: undefined }),
+      ...(keySystem === 'org.w3.clearkey' && { serverCertificateUrl: undefined }),
+    });
+  };
+
+  const isClearKey = value?.keySystem === 'org.w3.clearkey';
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+      <select
+        value={value?.keySystem || ''}
+        onChange={(e) => handleKeySystemChange(e.target.value)}
+        className="form-input"
+        disabled={disabled}
+      >
+        <option value="">No DRM</option>
+        {DRM_KEY_SYSTEMS.map(system => (
+          <option key={system.value} value={system.value}>{system.label}</option>
+        ))}
+      </select>
+      {value && (
+        <input
+          type="url"
+          value={value.licenseUrl || ''}
+          onChange={(e) => update({ licenseUrl: e.target.value.trim() })}
+          placeholder={isClearKey ? 'License URL (optional with keys)' : 'License URL'}
+          className="form-input font-mono text-xs"
+          disabled={disabled}
+        />
+      )}
+      {isClearKey && (
+        <textarea
+          value={keysText}
+          onChange={(e) => {
+            setKeysText(e.target.value);
+            update({ clearKeys: parseClearKeys(e.target.value) });
+          }}
+          placeholder="Keys, one kid:key pair per line (hex)"
+          className="form-input min-h-[60px] font-mono text-xs md:col-span-2"
+          disabled={disabled}
+        />
+      )}
+      {value && (
+        <textarea
+          value={headersText}
+          onChange={(e) => {
+            setHeadersText(e.target.value);
+            update({ licenseHeaders: parseHeaderLines(e.target.value) });
+          }}
+          placeholder={'License request headers, one per line\nAuthorization: Bearer <token>'}
+          className="form-input min-h-[60px] font-mono text-xs md:col-span-2"
+          disabled={disabled}
+        />
+      )}
+      {value && !isClearKey && (
+        <input
+          type="url"
+          value={value.serverCertificateUrl || ''}
+          onChange={(e) => update({ serverCertificateUrl: e.target.value.trim() })}
+          placeholder="Server certificate URL (optional)"
+          className="form-input font-mono text-xs md:col-span-2"
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+};
+
+// --- Low Latency Fields Component ---
+interface LowLatencyFieldsProps {
+  value?: LowLatencyConfig;
+  onChange: (lowLatency: LowLatencyConfig | undefined) => void;
+  disabled?: boolean;
+}
+
+const LowLatencyFields = ({ value, onChange, disabled }: LowLatencyFieldsProps) => (
+  <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+    <label className="flex items-center gap-2 text-sm cursor-pointer select-none">
+      <input
+        type="checkbox"
+        checked={!!value}
+        onChange={(e) => onChange(e.target.checked ? { targetLatency: DEFAULT_TARGET_LATENCY } : undefined)}
+        className="w-4 h-4 cursor-pointer"
+        disabled={disabled}
+      />
+      Low-latency live mode (LL-HLS / LL-DASH)
+    </label>
+    {value && (
+      <label className="flex items-center gap-2 text-sm">
+        Target latency
+        <input
+          type="number"
+          min={MIN_TARGET_LATENCY}
+          max={MAX_TARGET_LATENCY}
+          step={0.5}
+          value={value.targetLatency}
+          onChange={(e) => onChange({ targetLatency: clampTargetLatency(e.target.valueAsNumber) })}
+          className="form-input w-20"
+          disabled={disabled}
+        />
+        seconds
+      </label>
+    )}
+    <p className="w-full text-xs text-text-secondary">
+      Plays close to the live edge and speeds up slightly to catch up after a stall. Needs a stream with short segments or LL parts.
+    </p>
+  </div>
+);
+
 // --- Channels Manager Component ---
 const ChannelsManager = () => {
   const [channels, setChannels] = useState<AdminChannel[]>([]);
@@ -408,14 +920,18 @@ const ChannelsManager = () => {
     streamUrl: '',
     categoryId: '',
     authCookie: '',
+    referer: '',
+    userAgent: '',
+    drm: undefined as DrmConfig | undefined,
+    lowLatency: undefined as LowLatencyConfig | undefined,
+    sources: [] as AdminChannelSource[],
   });
   const [loading, setLoading] = useState(false);
   const [streamValidationStatus, setStreamValidationStatus] = useState<'idle' | 'validating' | 'valid' | 'invalid'>('idle');
 
   useEffect(() => {
     const fetchData = async () => {
-      const chans = await getDocs(query(collection(db, 'channels'), orderBy('name')));
-      setChannels(chans.docs.map(doc => ({ id: doc.id, ...doc.data() } as AdminChannel)));
+      setChannels(await loadAdminChannels());
       const cats = await getDocs(collection(db, 'categories'));
       setCategories(cats.docs.map(doc => ({ id: doc.id, ...doc.data() } as Category)));
     };
@@ -427,18 +943,25 @@ const ChannelsManager = () => {
       setStreamValidationStatus('idle');
       return true;
     }
-    if (!url.toLowerCase().includes('.m3u8') && !url.toLowerCase().includes('.mp4')) {
-      setStreamValidationStatus('invalid');
-      toast.warning("URL may not be a valid stream format.");
-      return true;
-    }
+    // Probe the stream on the server with the headers the proxy will send
+    const headers: Record<string, string> = {};
+    if (newChannel.authCookie.trim()) headers['Cookie'] = newChannel.authCookie.trim();
+    if (newChannel.referer.trim()) headers['Referer'] = newChannel.referer.trim();
+    if (newChannel.userAgent.trim()) headers['User-Agent'] = newChannel.userAgent.trim();
+
     setStreamValidationStatus('validating');
     try {
-      await fetch(url, { method: 'HEAD', mode: 'no-cors' });
+      const health = await checkStream(url, headers);
+      if (health.status !== 'ok') {
+        setStreamValidationStatus('invalid');
+        toast.warning(`Stream ${health.status === 'dead' ? 'is not reachable' : 'does not play'}: ${health.error || 'unknown error'}`);
+        return false;
+      }
       setStreamValidationStatus('valid');
       return true;
     } catch (error) {
       setStreamValidationStatus('invalid');
+      toast.error(error instanceof Error ? error.message : "Failed to check stream");
       return false;
     }
   };
@@ -448,6 +971,13 @@ const ChannelsManager = () => {
       toast.error("Please fill in all required fields");
       return;
     }
+    const drmError = [newChannel.drm, ...newChannel.sources.map(source => source.drm)]
+      .map(drm => drm && getDrmError(drm))
+      .find(Boolean);
+    if (drmError) {
+      toast.error(drmError);
+      return;
+    }
     
     setLoading(true);
     try {
@@ -459,23 +989,31 @@ const ChannelsManager = () => {
         categoryId: newChannel.categoryId,
         categoryName: category?.name || 'Unknown',
         authCookie: newChannel.authCookie.trim() || null,
+        referer: newChannel.referer.trim() || null,
+        userAgent: newChannel.userAgent.trim() || null,
+        drm: newChannel.drm || null,
+        lowLatency: newChannel.lowLatency || null,
+        sources: newChannel.sources
+          .filter(source => source.streamUrl.trim())
+          .map((source, index) => ({
+            label: source.label?.trim() || `Backup ${index + 1}`,
+            streamUrl: source.streamUrl.trim(),
+            authCookie: source.authCookie?.trim() || null,
+            referer: source.referer?.trim() || null,
+            userAgent: source.userAgent?.trim() || null,
+            drm: source.drm || null,
+          })),
       };
 
-      if (editingChannel) {
-        await updateDoc(doc(db, 'channels', editingChannel.id), channelData);
-        toast.success("Channel Updated");
-      } else {
-        await addDoc(collection(db, 'channels'), channelData);
-        toast.success("Channel Added");
-      }
+      await saveAdminChannel(editingChannel?.id || null, channelData);
+      toast.success(editingChannel ? "Channel Updated" : "Channel Added");
       
-      setNewChannel({ name: '', logoUrl: '', streamUrl: '', categoryId: '', authCookie: '' });
+      setNewChannel({ name: '', logoUrl: '', streamUrl: '', categoryId: '', authCookie: '', referer: '', userAgent: '', drm: undefined, lowLatency: undefined, sources: [] });
       setEditingChannel(null);
       setStreamValidationStatus('idle');
       
       // Refresh list
-      const chans = await getDocs(query(collection(db, 'channels'), orderBy('name')));
-      setChannels(chans.docs.map(doc => ({ id: doc.id, ...doc.data() } as AdminChannel)));
+      setChannels(await loadAdminChannels());
     } catch (error) {
       console.error('Error saving channel:', error);
       toast.error("Save Failed");
@@ -484,12 +1022,47 @@ const ChannelsManager = () => {
     }
   };
 
+  // DRM settings saved in older shapes are shown in the current fields
+  const handleEditChannel = (channel: AdminChannel) => {
+    const main = resolveStreamDrm(channel.streamUrl, channel.drm);
+    setEditingChannel(channel);
+    setNewChannel({
+      name: channel.name,
+      logoUrl: channel.logoUrl,
+      streamUrl: main.url,
+      categoryId: channel.categoryId,
+      authCookie: channel.authCookie || '',
+      referer: channel.referer || '',
+      userAgent: channel.userAgent || '',
+      drm: main.drm,
+      lowLatency: normalizeLowLatency(channel.lowLatency),
+      sources: (channel.sources || []).map(source => {
+        const stream = resolveStreamDrm(source.streamUrl, source.drm);
+        return { ...source, streamUrl: stream.url, drm: stream.drm };
+      }),
+    });
+  };
+
+  const updateSource = (index: number, changes: Partial<AdminChannelSource>) => {
+    setNewChannel({
+      ...newChannel,
+      sources: newChannel.sources.map((source, i) => (i === index ? { ...source, ...changes } : source)),
+    });
+  };
+
+  const moveSource = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= newChannel.sources.length) return;
+    const sources = [...newChannel.sources];
+    [sources[index], sources[target]] = [sources[target], sources[index]];
+    setNewChannel({ ...newChannel, sources });
+  };
+
   const handleDeleteChannel = async (id: string) => {
     if (!confirm('Delete channel?')) return;
     try {
-      await deleteDoc(doc(db, 'channels', id));
-      const chans = await getDocs(query(collection(db, 'channels'), orderBy('name')));
-      setChannels(chans.docs.map(doc => ({ id: doc.id, ...doc.data() } as AdminChannel)));
+      await deleteAdminChannel(id);
+      setChannels(await loadAdminChannels());
       toast.success("Channel Deleted");
     } catch (error) {
       toast.error("Delete Failed");
@@ -565,6 +1138,107 @@ const ChannelsManager = () => {
               disabled={loading}
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Referer (Optional)</label>
+            <input
+              type="url"
+              value={newChannel.referer}
+              onChange={(e) => setNewChannel({ ...newChannel, referer: e.target.value })}
+              className="form-input"
+              placeholder="https://example.com/"
+              disabled={loading}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">User-Agent (Optional)</label>
+            <input
+              type="text"
+              value={newChannel.userAgent}
+              onChange={(e) => setNewChannel({ ...newChannel, userAgent: e.target.value })}
+              className="form-input"
+              disabled={loading}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium mb-2">DRM (Optional)</label>
+            <DrmFields value={newChannel.drm} onChange={(drm) => setNewChannel({ ...newChannel, drm })} disabled={loading} />
+          </div>
+          <div className="md:col-span-2">
+            <LowLatencyFields value={newChannel.lowLatency} onChange={(lowLatency) => setNewChannel({ ...newChannel, lowLatency })} disabled={loading} />
+          </div>
+        </div>
+
+        <div className="mt-6 space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h4 className="font-medium">Backup Sources</h4>
+              <p className="text-xs text-text-secondary">Tried in this order when the stream above fails. Viewers can also pick one.</p>
+            </div>
+            <button
+              onClick={() => setNewChannel({ ...newChannel, sources: [...newChannel.sources, { label: '', streamUrl: '' }] })}
+              className="btn-secondary text-sm"
+              disabled={loading}
+            >
+              <Plus size={16} /> Add Source
+            </button>
+          </div>
+          {newChannel.sources.map((source, index) => (
+            <div key={index} className="p-3 bg-bg-secondary rounded-lg space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={source.label}
+                  onChange={(e) => updateSource(index, { label: e.target.value })}
+                  placeholder={`Backup ${index + 1}`}
+                  className="form-input w-40"
+                  disabled={loading}
+                />
+                <input
+                  type="url"
+                  value={source.streamUrl}
+                  onChange={(e) => updateSource(index, { streamUrl: e.target.value })}
+                  placeholder="Stream URL (m3u8/mpd/mp4)"
+                  className="form-input flex-1"
+                  disabled={loading}
+                />
+                <button onClick={() => moveSource(index, -1)} disabled={index === 0} className="p-2 text-text-secondary hover:text-text-primary disabled:opacity-30"><ArrowUp size={16} /></button>
+                <button onClick={() => moveSource(index, 1)} disabled={index === newChannel.sources.length - 1} className="p-2 text-text-secondary hover:text-text-primary disabled:opacity-30"><ArrowDown size={16} /></button>
+                <button
+                  onClick={() => setNewChannel({ ...newChannel, sources: newChannel.sources.filter((_, i) => i !== index) })}
+                  className="p-2 text-destructive hover:text-red-400"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <input
+                  type="url"
+                  value={source.referer || ''}
+                  onChange={(e) => updateSource(index, { referer: e.target.value })}
+                  placeholder="Referer (optional)"
+                  className="form-input"
+                  disabled={loading}
+                />
+                <input
+                  type="text"
+                  value={source.userAgent || ''}
+                  onChange={(e) => updateSource(index, { userAgent: e.target.value })}
+                  placeholder="User-Agent (optional)"
+                  className="form-input"
+                  disabled={loading}
+                />
+                <input
+                  type="text"
+                  value={source.authCookie || ''}
+                  onChange={(e) => updateSource(index, { authCookie: e.target.value })}
+                  placeholder="Auth cookie (optional)"
+                  className="form-input font-mono text-xs"
+                  disabled={loading}
+                />
+              </div>
+              <DrmFields value={source.drm} onChange={(drm) => updateSource(index, { drm })} disabled={loading} />
+            </div>
+          ))}
         </div>
         
         <div className="flex gap-2 mt-4">
@@ -576,7 +1250,7 @@ const ChannelsManager = () => {
             <Save size={16} /> {loading ? 'Saving...' : 'Save'}
           </button>
           {editingChannel && (
-            <button onClick={() => { setEditingChannel(null); setNewChannel({ name: '', logoUrl: '', streamUrl: '', categoryId: '', authCookie: '' }); setStreamValidationStatus('idle'); }} className="btn-secondary">
+            <button onClick={() => { setEditingChannel(null); setNewChannel({ name: '', logoUrl: '', streamUrl: '', categoryId: '', authCookie: '', referer: '', userAgent: '', drm: undefined, lowLatency: undefined, sources: [] }); setStreamValidationStatus('idle'); }} className="btn-secondary">
               <X size={16} /> Cancel
             </button>
           )}
@@ -599,11 +1273,12 @@ const ChannelsManager = () => {
                   <div className="text-sm text-text-secondary flex items-center gap-2">
                     <span>{channel.categoryName}</span>
                     <span className="text-blue-500">• Manual</span>
+                    {channel.sources?.length > 0 && <span>• {channel.sources.length + 1} sources</span>}
                   </div>
                 </div>
               </div>
               <div className="flex gap-2">
-                <button onClick={() => { setEditingChannel(channel); setNewChannel({ name: channel.name, logoUrl: channel.logoUrl, streamUrl: channel.streamUrl, categoryId: channel.categoryId, authCookie: channel.authCookie || '' }); }} className="p-2 text-blue-400 hover:text-blue-300"><Edit size={16} /></button>
+                <button onClick={() => handleEditChannel(channel)} className="p-2 text-blue-400 hover:text-blue-300"><Edit size={16} /></button>
                 <button onClick={() => handleDeleteChannel(channel.id)} className="p-2 text-destructive hover:text-red-400"><Trash2 size={16} /></button>
               </div>
             </div>
@@ -630,10 +1305,11 @@ const LiveEventsManager = () => {
     startTime: '',
     endTime: '', // Added End Time
     isLive: false,
+    lowLatency: undefined as LowLatencyConfig | undefined,
     links: [] as LiveEventLink[],
   });
   
-  const [currentLink, setCurrentLink] = useState({ label: '', url: '' });
+  const [currentLink, setCurrentLink] = useState<LiveEventLink>({ label: '', url: '' });
   const [loading, setLoading] = useState(false);
   const [editingLinkIndex, setEditingLinkIndex] = useState<number | null>(null);
 
@@ -653,18 +1329,29 @@ const LiveEventsManager = () => {
 
   const handleAddLink = () => {
     if (currentLink.label && currentLink.url) {
+      const drmError = currentLink.drm && getDrmError(currentLink.drm);
+      if (drmError) {
+        toast.error(drmError);
+        return;
+      }
+      // Firestore rejects undefined, so a link without DRM has no drm field at all
+      const link: LiveEventLink = {
+        label: currentLink.label,
+        url: currentLink.url,
+        ...(currentLink.drm && { drm: currentLink.drm }),
+      };
       if (editingLinkIndex !== null) {
         // Update existing link
         setNewEvent(prev => {
           const updatedLinks = [...prev.links];
-          updatedLinks[editingLinkIndex] = currentLink;
+          updatedLinks[editingLinkIndex] = link;
           return { ...prev, links: updatedLinks };
         });
         setEditingLinkIndex(null); // Exit edit mode
         toast.success("Link updated");
       } else {
         // Add new link
-        setNewEvent(prev => ({ ...prev, links: [...prev.links, currentLink] }));
+        setNewEvent(prev => ({ ...prev, links: [...prev.links, link] }));
       }
       // Clear inputs
       setCurrentLink({ label: '', url: '' });
@@ -697,6 +1384,7 @@ const LiveEventsManager = () => {
       const eventData = { 
         ...newEvent,
         endTime: newEvent.endTime || null, // Handle optional end time
+        lowLatency: newEvent.lowLatency || null,
         title: `${newEvent.team1Name} vs ${newEvent.team2Name}`,
         description: `${newEvent.league} match between ${newEvent.team1Name} and ${newEvent.team2Name}`,
         bannerUrl: '',
@@ -729,7 +1417,7 @@ const LiveEventsManager = () => {
       team1Name: '', team1Logo: '', 
       team2Name: '', team2Logo: '', 
       startTime: '', endTime: '', // Reset end time
-      isLive: false, links: [] 
+      isLive: false, lowLatency: undefined, links: [] 
     });
     setCurrentLink({ label: '', url: '' });
     setEditingLinkIndex(null);
@@ -747,7 +1435,9 @@ const LiveEventsManager = () => {
       startTime: event.startTime,
       endTime: event.endTime || '', // Load end time
       isLive: event.isLive,
-      links: event.links || [],
+      lowLatency: normalizeLowLatency(event.lowLatency),
+      // DRM settings saved in older shapes are shown in the current fields
+      links: (event.links || []).map(link => ({ label: link.label, ...resolveStreamDrm(link.url, link.drm) })),
     });
     setCurrentLink({ label: '', url: '' });
     setEditingLinkIndex(null);
@@ -828,6 +1518,10 @@ const LiveEventsManager = () => {
               </label>
             </div>
           </div>
+
+          <div className="md:col-span-2">
+            <LowLatencyFields value={newEvent.lowLatency} onChange={lowLatency => setNewEvent({ ...newEvent, lowLatency })} />
+          </div>
           
           {/* Links Section */}
           <div className="md:col-span-2 border-t border-border pt-4 mt-2">
@@ -852,6 +1546,9 @@ const LiveEventsManager = () => {
                 {editingLinkIndex !== null ? <CheckCircle size={16} /> : <Plus size={16} />}
               </button>
             </div>
+            <div className="mb-3">
+              <DrmFields value={currentLink.drm} onChange={drm => setCurrentLink({ ...currentLink, drm })} />
+            </div>
             <div className="flex flex-wrap gap-2">
               {newEvent.links.map((link, i) => (
                 <div key={i} className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm transition-all ${
@@ -860,6 +1557,7 @@ const LiveEventsManager = () => {
                     : 'bg-bg-tertiary border-border'
                 }`}>
                   <span className="font-bold text-accent">{link.label}</span>
+                  {link.drm && <span className="text-xs text-text-secondary">DRM</span>}
                   <button onClick={() => handleEditLink(i)} className="text-text-secondary hover:text-blue-400 ml-2" title="Edit Link">
                     <Edit size={14} />
                   </button>
@@ -918,11 +1616,284 @@ const LiveEventsManager = () => {
   );
 };
 
+// --- Settings Manager Component ---
+const SettingsManager = () => {
+  const [allowlistText, setAllowlistText] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const snapshot = await getDoc(doc(db, 'settings', 'proxy'));
+        const settings = snapshot.data() as ProxySettings | undefined;
+        setAllowlistText((settings?.upstreamAllowlist || []).join('\n'));
+      } catch (error) {
+        console.error('Error loading settings:', error);
+        toast.error("Failed to load settings");
+      }
+    };
+    fetchSettings();
+  }, []);
+
+  const handleSaveSettings = async () => {
+    const hosts = allowlistText
+      .split('\n')
+      .map(line => line.trim().toLowerCase())
+      .filter(Boolean);
+
+    const invalid = hosts.filter(host => !/^(\*\.)?[a-z0-9.-]+$/.test(host));
+    if (invalid.length > 0) {
+      toast.error(`Invalid host: ${invalid[0]}`, { description: "Enter bare host names, e.g. cdn.example.com" });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const settings: ProxySettings = { upstreamAllowlist: Array.from(new Set(hosts)) };
+      await setDoc(doc(db, 'settings', 'proxy'), settings, { merge: true });
+      setAllowlistText(settings.upstreamAllowlist.join('\n'));
+      toast.success("Settings Saved");
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      toast.error("Save Failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold">Settings</h2>
+
+      <div className="bg-card border border-border rounded-lg p-6">
+        <h3 className="text-lg font-semibold mb-2">Upstream Allow-list</h3>
+        <p className="text-sm text-text-secondary mb-4">
+          Hosts the stream proxy and playlist parser may fetch from, one per line. A host also
+          allows its subdomains. Leave empty to allow any public host. Private and local
+          addresses are always blocked. Changes can take a minute to reach the proxy.
+        </p>
+        <textarea
+          value={allowlistText}
+          onChange={(e) => setAllowlistText(e.target.value)}
+          className="form-input min-h-[160px] font-mono text-xs"
+          placeholder={"cdn.example.com\nstreams.example.org"}
+          disabled={loading}
+        />
+        <div className="flex gap-2 mt-4">
+          <button onClick={handleSaveSettings} disabled={loading} className="btn-primary">
+            <Save size={16} /> {loading ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Stream Health Component ---
+type HealthSortKey = 'status' | 'name' | 'category' | 'source' | 'latency' | 'quality';
+
+// Worst first, so an ascending sort puts the problems on top
+const HEALTH_STATUS_RANK: Record<string, number> = { dead: 0, degraded: 1, ok: 2, unchecked: 3 };
+
+const HEALTH_STATUS_STYLES: Record<string, string> = {
+  ok: 'bg-green-500/15 text-green-500',
+  degraded: 'bg-yellow-500/15 text-yellow-500',
+  dead: 'bg-red-500/15 text-red-500',
+  unchecked: 'bg-bg-tertiary text-text-secondary',
+};
+
+const healthStatus = (health?: StreamHealth) => health?.status || 'unchecked';
+const topBandwidth = (health?: StreamHealth) => health?.variants.slice(-1)[0]?.bandwidth ?? -1;
+
+const StreamHealthManager = () => {
+  const [targets, setTargets] = useState<HealthCheckChannel[]>([]);
+  const [results, setResults] = useState<Record<string, StreamHealth>>({});
+  const [loadingChannels, setLoadingChannels] = useState(true);
+  const [checking, setChecking] = useState(false);
+  const [checked, setChecked] = useState(0);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [sort, setSort] = useState<{ key: HealthSortKey; ascending: boolean }>({ key: 'status', ascending: true });
+  const stopRef = useRef(false);
+
+  useEffect(() => {
+    const loadChannels = async () => {
+      try {
+        const cats = await getDocs(collection(db, 'categories'));
+        const categories = cats.docs.map(doc => ({ id: doc.id, ...doc.data() } as Category));
+        setTargets(await collectHealthCheckChannels(categories));
+      } catch (error) {
+        console.error('Error loading channels:', error);
+        toast.error("Failed to load channels");
+      } finally {
+        setLoadingChannels(false);
+      }
+    };
+    loadChannels();
+    return () => {
+      stopRef.current = true;
+    };
+  }, []);
+
+  const handleCheckAll = async () => {
+    stopRef.current = false;
+    setChecking(true);
+    setChecked(0);
+    setResults({});
+    try {
+      const streams = targets.map(({ channel, headers }) => ({ id: channel.id, url: channel.streamUrl, headers }));
+      const final = await checkStreams(streams, {
+        onProgress: (partial, count) => {
+          setResults(partial);
+          setChecked(count);
+        },
+        shouldStop: () => stopRef.current,
+      });
+      const failing = Object.values(final).filter(health => health.status !== 'ok').length;
+      toast.success(stopRef.current ? "Check stopped" : "Check complete", {
+        description: `${Object.keys(final).length} checked, ${failing} with problems`,
+      });
+    } catch (error) {
+      console.error('Error checking streams:', error);
+      toast.error(error instanceof Error ? error.message : "Check Failed");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const counts = { ok: 0, degraded: 0, dead: 0 };
+  Object.values(results).forEach(health => { counts[health.status]++; });
+
+  const rows = useMemo(() => {
+    const compare = (a: HealthCheckChannel, b: HealthCheckChannel): number => {
+      switch (sort.key) {
+        case 'name': return a.channel.name.localeCompare(b.channel.name);
+        case 'category': return a.channel.categoryName.localeCompare(b.channel.categoryName);
+        case 'source': return a.source.localeCompare(b.source);
+        case 'latency': return (results[a.channel.id]?.latencyMs ?? Infinity) - (results[b.channel.id]?.latencyMs ?? Infinity);
+        case 'quality': return topBandwidth(results[a.channel.id]) - topBandwidth(results[b.channel.id]);
+        default: return HEALTH_STATUS_RANK[healthStatus(results[a.channel.id])] - HEALTH_STATUS_RANK[healthStatus(results[b.channel.id])];
+      }
+    };
+    return targets
+      .filter(({ channel }) => !problemsOnly || ['dead', 'degraded'].includes(healthStatus(results[channel.id])))
+      .sort((a, b) => (sort.ascending ? 1 : -1) * (compare(a, b) || a.channel.name.localeCompare(b.channel.name)));
+  }, [targets, results, problemsOnly, sort]);
+
+  const toggleSort = (key: HealthSortKey) => {
+    setSort(current => ({ key, ascending: current.key === key ? !current.ascending : true }));
+  };
+
+  const SortHeader = ({ sortKey, label }: { sortKey: HealthSortKey; label: string }) => (
+    <th className="p-2 font-medium">
+      <button onClick={() => toggleSort(sortKey)} className="flex items-center gap-1 hover:text-text-primary">
+        {label}
+        {sort.key === sortKey && (sort.ascending ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold">Stream Health</h2>
+
+      <div className="bg-card border border-border rounded-lg p-6 space-y-4">
+        <p className="text-sm text-text-secondary">
+          Checks every manual and playlist channel from the server: the manifest must load and the
+          first segment must download. Degraded streams load a manifest but never start playing.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          {checking ? (
+            <button onClick={() => { stopRef.current = true; }} className="btn-secondary">
+              <X size={16} /> Stop
+            </button>
+          ) : (
+            <button onClick={handleCheckAll} disabled={loadingChannels || targets.length === 0} className="btn-primary">
+              <Activity size={16} /> Check all ({targets.length})
+            </button>
+          )}
+          {checking && (
+            <span className="flex items-center gap-2 text-sm text-text-secondary">
+              <Loader2 size={16} className="animate-spin" /> {checked} / {targets.length}
+            </span>
+          )}
+          {loadingChannels && (
+            <span className="flex items-center gap-2 text-sm text-text-secondary">
+              <Loader2 size={16} className="animate-spin" /> Loading channels...
+            </span>
+          )}
+        </div>
+        {Object.keys(results).length > 0 && (
+          <div className="grid grid-cols-3 gap-4">
+            {(['ok', 'degraded', 'dead'] as const).map(status => (
+              <div key={status} className={`rounded-lg p-4 ${HEALTH_STATUS_STYLES[status]}`}>
+                <div className="text-sm font-medium capitalize">{status}</div>
+                <div className="text-2xl font-bold">{counts[status]}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-card border border-border rounded-lg p-6">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h3 className="text-lg font-semibold">Channels ({rows.length})</h3>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={problemsOnly} onChange={(e) => setProblemsOnly(e.target.checked)} />
+            Problems only
+          </label>
+        </div>
+        <div className="max-h-[600px] overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-card text-left text-text-secondary">
+              <tr>
+                <SortHeader sortKey="status" label="Status" />
+                <SortHeader sortKey="name" label="Channel" />
+                <SortHeader sortKey="category" label="Category" />
+                <SortHeader sortKey="source" label="Source" />
+                <SortHeader sortKey="latency" label="Latency" />
+                <SortHeader sortKey="quality" label="Top quality" />
+                <th className="p-2 font-medium">Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ channel, source }) => {
+                const health = results[channel.id];
+                const status = healthStatus(health);
+                return (
+                  <tr key={channel.id} className="border-t border-border">
+                    <td className="p-2">
+                      <span className={`rounded px-2 py-0.5 text-xs font-medium capitalize ${HEALTH_STATUS_STYLES[status]}`}>{status}</span>
+                    </td>
+                    <td className="p-2 font-medium">{channel.name}</td>
+                    <td className="p-2 text-text-secondary">{channel.categoryName}</td>
+                    <td className="p-2 text-text-secondary capitalize">{source}</td>
+                    <td className="p-2 text-text-secondary whitespace-nowrap">
+                      {health?.latencyMs !== undefined ? `${health.latencyMs} ms` : '-'}
+                    </td>
+                    <td className="p-2 text-text-secondary whitespace-nowrap">{(health && describeTopVariant(health)) || '-'}</td>
+                    <td className="p-2 text-red-400 break-all">{health?.error || ''}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {!loadingChannels && rows.length === 0 && (
+            <p className="text-center py-8 text-text-secondary">
+              {problemsOnly ? 'No problems found.' : 'No channels to check.'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // --- Main Admin Dashboard ---
 const AdminDashboard = () => {
   const [location] = useLocation();
   const { user } = useAuth();
   const [stats, setStats] = useState({ categories: 0, channels: 0, events: 0 });
+  const [healthHistory, setHealthHistory] = useState<HealthHistory | null>(null);
 
   useEffect(() => {
     const loadStats = async () => {
@@ -933,7 +1904,13 @@ const AdminDashboard = () => {
         setStats({ categories: cats.size, channels: chans.size, events: evts.size });
       } catch (e) { console.error(e); }
     };
+    const loadHealthHistory = async () => {
+      try {
+        setHealthHistory(await fetchHealthHistory());
+      } catch (e) { console.error(e); }
+    };
     loadStats();
+    loadHealthHistory();
   }, []);
 
   const handleLogout = async () => {
@@ -946,6 +1923,8 @@ const AdminDashboard = () => {
     { path: '/admin/categories', label: 'Categories', icon: Tv },
     { path: '/admin/channels', label: 'Channels', icon: Users },
     { path: '/admin/events', label: 'Live Events', icon: Calendar },
+    { path: '/admin/health', label: 'Stream Health', icon: Activity },
+    { path: '/admin/settings', label: 'Settings', icon: Settings },
   ];
 
   return (
@@ -1014,16 +1993,22 @@ const AdminDashboard = () => {
                   </div>
                 </div>
                 
-                <div className="bg-card border border-border p-8 rounded-lg text-center py-12">
-                  <Shield size={48} className="mx-auto text-accent mb-4 opacity-50" />
-                  <h3 className="font-bold text-xl mb-2">Admin Dashboard</h3>
-                  <p className="text-text-secondary max-w-md mx-auto">Select "Live Events" or other modules from the menu to manage content.</p>
-                </div>
+                {healthHistory ? (
+                  <UptimeCharts history={healthHistory} />
+                ) : (
+                  <div className="bg-card border border-border p-8 rounded-lg text-center py-12">
+                    <Shield size={48} className="mx-auto text-accent mb-4 opacity-50" />
+                    <h3 className="font-bold text-xl mb-2">Admin Dashboard</h3>
+                    <p className="text-text-secondary max-w-md mx-auto">Select "Live Events" or other modules from the menu to manage content.</p>
+                  </div>
+                )}
               </div>
             </Route>
             <Route path="/admin/categories" component={CategoriesManager} />
             <Route path="/admin/channels" component={ChannelsManager} />
             <Route path="/admin/events" component={LiveEventsManager} />
+            <Route path="/admin/health" component={StreamHealthManager} />
+            <Route path="/admin/settings" component={SettingsManager} />
           </Switch>
         </main>
       </div>
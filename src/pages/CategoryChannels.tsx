@@ -1,28 +1,38 @@
 // src/pages/CategoryChannels.tsx - NO API KEY IN FRONTEND
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useLocation } from 'wouter';
-import { collection, query, where, getDocs } from 'firebase/firestore';
+import { collection, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { PublicChannel, Category } from '@/types';
+import { loadCategoryChannels } from '@/lib/playlist';
+import { fetchOfflineChannelIds } from '@/lib/streamHealth';
+import { useFavorites } from '@/contexts/FavoritesContext';
 import ChannelCard from '@/components/ChannelCard';
 import ErrorBoundary from '@/components/ErrorBoundary';
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
-import { AlertCircle, Tv, Search, ArrowLeft } from 'lucide-react';
+import { AlertCircle, Tv, Search, ArrowLeft, EyeOff } from 'lucide-react';
 
 interface CategoryChannelsProps {
   slug: string;
 }
 
+const UNGROUPED = '';
+const getGroupLabel = (group: string) => group || 'Other';
+
 const CategoryChannels = ({ slug }: CategoryChannelsProps) => {
   const [, setLocation] = useLocation();
+  const { migrateLegacyFavorites } = useFavorites();
   const [channels, setChannels] = useState<PublicChannel[]>([]);
   const [category, setCategory] = useState<Category | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [filteredChannels, setFilteredChannels] = useState<PublicChannel[]>([]);
+  const [activeGroup, setActiveGroup] = useState<string | null>(null);
+  const [offlineIds, setOfflineIds] = useState<Set<string>>(new Set());
+  const [hideOffline, setHideOffline] = useState(false);
 
   useEffect(() => {
     if (slug) {
@@ -35,94 +45,75 @@ const CategoryChannels = ({ slug }: CategoryChannelsProps) => {
 
   useEffect(() => {
     const filtered = channels.filter(channel =>
-      channel.name.toLowerCase().includes(searchQuery.toLowerCase())
+      channel.name.toLowerCase().includes(searchQuery.toLowerCase()) &&
+      (activeGroup === null || (channel.groupTitle || UNGROUPED) === activeGroup) &&
+      !(hideOffline && offlineIds.has(channel.id))
     );
     setFilteredChannels(filtered);
-  }, [searchQuery, channels]);
+  }, [searchQuery, channels, activeGroup, hideOffline, offlineIds]);
 
-  const fetchM3UPlaylistServerSide = async (
-    categoryId: string, 
-    categoryName: string, 
-    m3uUrl: string
-  ): Promise<PublicChannel[]> => {
-    try {
-      const response = await fetch('/api/parse-m3u', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          categoryId,
-          categoryName,
-          m3uUrl,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to fetch M3U playlist');
-      }
+  const offlineCount = useMemo(
+    () => channels.filter(channel => offlineIds.has(channel.id)).length,
+    [channels, offlineIds]
+  );
 
-      const data = await response.json();
-      return data.channels || [];
-    } catch (error) {
-      // SECURITY: Don't log error
-      throw error;
-    }
-  };
+  // Playlist groups in playlist order, with channels lacking a group collected last
+  const groups = useMemo(() => {
+    const counts = new Map<string, number>();
+    channels.forEach(channel => {
+      const group = channel.groupTitle || UNGROUPED;
+      counts.set(group, (counts.get(group) || 0) + 1);
+    });
+    const ungroupedCount = counts.get(UNGROUPED);
+    counts.delete(UNGROUPED);
+    const list = Array.from(counts, ([name, count]) => ({ name, count }));
+    if (ungroupedCount) list.push({ name: UNGROUPED, count: ungroupedCount });
+    return list;
+  }, [channels]);
+
+  const groupedChannels = useMemo(() => {
+    return groups
+      .map(group => ({
+        ...group,
+        channels: filteredChannels.filter(channel => (channel.groupTitle || UNGROUPED) === group.name),
+      }))
+      .filter(group => group.channels.length > 0);
+  }, [groups, filteredChannels]);
+
+  const showGroups = groups.length > 1;
 
   const fetchCategoryAndChannels = async () => {
     try {
       setLoading(true);
       setError(null);
+      setActiveGroup(null);
 
-      const categoriesRef = collection(db, 'categories');
-      const categoryQuery = query(categoriesRef, where('slug', '==', slug));
-      const categorySnapshot = await getDocs(categoryQuery);
+      // All categories are needed to resolve playlist groups mapped between them
+      const categoriesSnapshot = await getDocs(collection(db, 'categories'));
+      const categories = categoriesSnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as Category[];
 
-      if (categorySnapshot.empty) {
+      const categoryData = categories.find(cat => cat.slug === slug);
+      if (!categoryData) {
         setLoading(false);
         setLocation('/404');
         return;
       }
-
-      const categoryDoc = categorySnapshot.docs[0];
-      const categoryData = { id: categoryDoc.id, ...categoryDoc.data() } as Category;
       setCategory(categoryData);
 
-      let allChannels: PublicChannel[] = [];
-
-      // Fetch M3U channels via server-side API
-      if (categoryData.m3uUrl) {
-        try {
-          const m3uChannels = await fetchM3UPlaylistServerSide(
-            categoryData.id,
-            categoryData.name,
-            categoryData.m3uUrl
-          );
-          allChannels = [...allChannels, ...m3uChannels];
-        } catch (m3uError) {
-          setError('Failed to load M3U playlist channels. Showing manual channels only.');
-        }
-      }
-
-      // Fetch manual channels
-      try {
-        const channelsRef = collection(db, 'channels');
-        const channelsQuery = query(channelsRef, where('categoryId', '==', categoryData.id));
-        const channelsSnapshot = await getDocs(channelsQuery);
-        
-        const manualChannels = channelsSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as PublicChannel[];
-
-        allChannels = [...allChannels, ...manualChannels];
-      } catch (firestoreError) {
-        console.error('Error fetching manual channels');
+      const [{ channels: allChannels, playlistError }, offline] = await Promise.all([
+        loadCategoryChannels(categoryData, categories),
+        fetchOfflineChannelIds(),
+      ]);
+      setOfflineIds(offline);
+      if (playlistError) {
+        setError('Failed to load M3U playlist channels. Showing manual channels only.');
       }
 
       setChannels(allChannels);
+      migrateLegacyFavorites(allChannels);
     } catch (generalError) {
       setError('Failed to load channels. Please try again.');
     } finally {
@@ -185,17 +176,54 @@ const CategoryChannels = ({ slug }: CategoryChannelsProps) => {
           </p>
         </div>
 
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-text-secondary w-5 h-5" />
-          <input
-            type="text"
-            placeholder="Search channels..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="form-input pl-10"
-          />
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-text-secondary w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search channels..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="form-input pl-10"
+            />
+          </div>
+          {offlineCount > 0 && (
+            <Button
+              variant={hideOffline ? 'default' : 'outline'}
+              onClick={() => setHideOffline(!hideOffline)}
+              className="shrink-0 h-auto"
+              aria-pressed={hideOffline}
+            >
+              <EyeOff size={16} />
+              <span className="hidden sm:inline">Hide offline</span> ({offlineCount})
+            </Button>
+          )}
         </div>
 
+        {showGroups && (
+          <div className="flex gap-2 overflow-x-auto pb-2 -mx-1 px-1">
+            <button
+              onClick={() => setActiveGroup(null)}
+              className={`px-3 py-1.5 rounded-full text-sm whitespace-nowrap border transition-colors ${
+                activeGroup === null ? 'bg-accent text-white border-accent' : 'border-border text-text-secondary hover:text-text-primary'
+              }`}
+            >
+              All ({channels.length})
+            </button>
+            {groups.map(group => (
+              <button
+                key={group.name || 'ungrouped'}
+                onClick={() => setActiveGroup(group.name)}
+                className={`px-3 py-1.5 rounded-full text-sm whitespace-nowrap border transition-colors ${
+                  activeGroup === group.name ? 'bg-accent text-white border-accent' : 'border-border text-text-secondary hover:text-text-primary'
+                }`}
+              >
+                {getGroupLabel(group.name)} ({group.count})
+              </button>
+            ))}
+          </div>
+        )}
+
         {filteredChannels.length === 0 && searchQuery ? (
           <div className="text-center py-12">
             <Search size={48} className="text-text-secondary mx-auto mb-4" />
@@ -212,10 +240,31 @@ const CategoryChannels = ({ slug }: CategoryChannelsProps) => {
               No channels have been added to this category yet.
             </p>
           </div>
+        ) : showGroups && activeGroup === null ? (
+          <div className="space-y-8">
+            {groupedChannels.map(group => (
+              <section key={group.name || 'ungrouped'} className="space-y-3">
+                <div className="flex items-center justify-between border-b border-border pb-2">
+                  <h2 className="text-lg font-semibold">{getGroupLabel(group.name)}</h2>
+                  <button
+                    onClick={() => setActiveGroup(group.name)}
+                    className="text-sm text-accent hover:underline"
+                  >
+                    View all ({group.count})
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 sm:gap-4">
+                  {group.channels.map(channel => (
+                    <ChannelCard key={channel.id} channel={channel} offline={offlineIds.has(channel.id)} />
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
         ) : (
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 sm:gap-4">
             {filteredChannels.map(channel => (
-              <ChannelCard key={channel.id} channel={channel} />
+              <ChannelCard key={channel.id} channel={channel} offline={offlineIds.has(channel.id)} />
             ))}
           </div>
         )}
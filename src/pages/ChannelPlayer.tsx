@@ -1,20 +1,36 @@
 // src/pages/ChannelPlayer.tsx - FIXED: Ensure all streams are proxied
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useLocation } from 'wouter';
-import { collection, query, where, getDocs } from 'firebase/firestore';
+import { collection, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { PublicChannel, Category } from '@/types';
+import { PublicChannel, Category, ChannelSource } from '@/types';
 import VideoPlayer from '@/components/VideoPlayer';
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { ArrowLeft, Star, Share2, AlertCircle, Search, Play } from 'lucide-react';
+import { ArrowLeft, Star, Share2, AlertCircle, Search, Play, Signal, Check } from 'lucide-react';
 import { useFavorites } from '@/contexts/FavoritesContext';
 import { useRecents } from '@/contexts/RecentsContext';
 import { toast } from "@/components/ui/sonner";
 import ErrorBoundary from '@/components/ErrorBoundary';
 import { getProxiedUrl } from '@/lib/urlEncryption';
+import { useEpg } from '@/hooks/useEpg';
+import { formatProgrammeTime } from '@/lib/epg';
+import { Progress } from '@/components/ui/progress';
+import CatchupPanel, { CatchupSelection } from '@/components/CatchupPanel';
+import { fetchCatchupUrl, supportsCatchup } from '@/lib/catchup';
+import { usePlaybackPosition } from '@/hooks/usePlaybackPosition';
+import ResumePrompt from '@/components/ResumePrompt';
+import { findMatchingSources, getChannelSources } from '@/lib/channelSources';
+import { fetchCategoryPlaylist, hasPlaylistSource, applyGroupMappings, loadCategoryChannels, fetchManualChannels, fetchManualChannel, isLegacyChannelId, resolveLegacyChannel } from '@/lib/playlist';
+
+// Player types by the manifestType a source declares ('mp4' for progressive files)
+const PLAYER_STREAM_TYPES: Record<string, 'hls' | 'dash' | 'native'> = {
+  hls: 'hls',
+  mpd: 'dash',
+  mp4: 'native',
+};
 
 interface ChannelPlayerProps {
   channelId: string;
@@ -23,16 +39,39 @@ interface ChannelPlayerProps {
 const ChannelPlayer = ({ channelId }: ChannelPlayerProps) => {
   const [, setLocation] = useLocation();
   const [channel, setChannel] = useState<PublicChannel | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [allChannels, setAllChannels] = useState<PublicChannel[]>([]);
   const [filteredChannels, setFilteredChannels] = useState<PublicChannel[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [playerStreamUrl, setPlayerStreamUrl] = useState<string | null>(null);
+  const [catchup, setCatchup] = useState<CatchupSelection | null>(null);
+  const [matchedSources, setMatchedSources] = useState<ChannelSource[]>([]);
+  const [sourceIndex, setSourceIndex] = useState(0);
+  const [autoFailover, setAutoFailover] = useState(true);
 
   const topRef = useRef<HTMLDivElement>(null);
+  // Sources that failed since the viewer last picked one, so failover stops after a full round
+  const failedSourcesRef = useRef<Set<number>>(new Set());
+  // The channel whose playlists were searched for backups; that search loads every playlist, so it runs once
+  const matchSearchRef = useRef<string | null>(null);
+
+  // The channel's own sources keep their identity when playlist matches arrive later
+  const channelSources = useMemo(() => (channel ? getChannelSources(channel) : []), [channel]);
+  const sources = useMemo(() => [...channelSources, ...matchedSources], [channelSources, matchedSources]);
+  const activeSource = sources[sourceIndex] || sources[0] || null;
 
-  const { isFavorite, addFavorite, removeFavorite } = useFavorites();
+  const { favorites, isFavorite, addFavorite, removeFavorite, migrateLegacyFavorites } = useFavorites();
   const { addRecent } = useRecents();
+  const { current: currentProgramme, next: nextProgramme, progress: programmeProgress } = useEpg(channel);
+  // Catch-up programmes play like recordings, so pick up where they were left
+  const catchupPlayback = usePlaybackPosition(channel && catchup && {
+    id: `${channel.id}@${catchup.start}`,
+    kind: 'catchup',
+    name: catchup.title || channel.name,
+    posterUrl: channel.logoUrl,
+  });
 
   useEffect(() => {
     if (channel && topRef.current) {
@@ -57,6 +96,44 @@ const ChannelPlayer = ({ channelId }: ChannelPlayerProps) => {
     }
   }, [channelId]);
 
+  // A different channel always starts at the live edge, on its main source
+  useEffect(() => {
+    setCatchup(null);
+    setMatchedSources([]);
+    setSourceIndex(0);
+    setAutoFailover(true);
+    failedSourcesRef.current.clear();
+    matchSearchRef.current = null;
+  }, [channel?.id]);
+
+  // ✅ CRITICAL FIX: Always proxy ALL streams (manual + M3U)
+  useEffect(() => {
+    if (!channel || !activeSource) {
+      setPlayerStreamUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    setPlayerStreamUrl(null);
+    getProxiedUrl(activeSource.streamUrl)
+      .then(async liveUrl => {
+        if (!catchup) return liveUrl;
+        try {
+          return (await fetchCatchupUrl(liveUrl, catchup)) || liveUrl;
+        } catch (catchupError) {
+          console.error('Error loading catch-up stream:', catchupError);
+          return liveUrl;
+        }
+      })
+      .then(proxiedUrl => {
+        if (!cancelled) setPlayerStreamUrl(proxiedUrl);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [channel, catchup, activeSource]);
+
   useEffect(() => {
     if (channel && channel.categoryId) {
       fetchAllChannels();
@@ -76,80 +153,21 @@ const ChannelPlayer = ({ channelId }: ChannelPlayerProps) => {
     }
   }, [searchQuery, allChannels, channel]);
 
-  const fetchM3UPlaylist = async (m3uUrl: string, categoryId: string, categoryName: string): Promise<PublicChannel[]> => {
-    try {
-      const response = await fetch('/api/parse-m3u', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          categoryId,
-          categoryName,
-          m3uUrl,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to fetch M3U playlist');
-      }
-
-      const data = await response.json();
-      return data.channels || [];
-    } catch (error) {
-      return [];
-    }
-  };
-
   const fetchAllChannels = async () => {
     try {
       if (!channel || !channel.categoryId) return;
 
-      let categoryChannelsList: PublicChannel[] = [];
-
-      // Fetch manual channels from Firestore
-      try {
-        const channelsRef = collection(db, 'channels');
-        const channelsQuery = query(channelsRef, where('categoryId', '==', channel.categoryId));
-        const channelsSnapshot = await getDocs(channelsQuery);
-        const manualChannels = channelsSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as PublicChannel[];
-        categoryChannelsList = [...categoryChannelsList, ...manualChannels];
-      } catch (manualChannelsError) {
-        console.error('Error fetching manual channels');
-      }
-
-      // Fetch M3U playlist channels
-      try {
-        const categoriesRef = collection(db, 'categories');
-        const categoryDoc = await getDocs(query(categoriesRef, where('__name__', '==', channel.categoryId)));
-        
-        if (!categoryDoc.empty) {
-          const categoryData = { id: categoryDoc.docs[0].id, ...categoryDoc.docs[0].data() } as Category;
-
-          if (categoryData.m3uUrl) {
-            const m3uChannels = await fetchM3UPlaylist(
-              categoryData.m3uUrl,
-              categoryData.id,
-              categoryData.name
-            );
-            if (m3uChannels.length > 0) {
-              categoryChannelsList = [...categoryChannelsList, ...m3uChannels];
-            }
-          }
-        }
-      } catch (m3uError) {
-        console.error('Error loading M3U playlist');
-      }
+      const category = categories.find(cat => cat.id === channel.categoryId);
+      const categoryChannelsList = category
+        ? (await loadCategoryChannels(category, categories)).channels
+        : await fetchManualChannels(channel.categoryId);
 
       const uniqueChannels = categoryChannelsList.filter((ch, index, self) =>
         index === self.findIndex((t) => t.id === ch.id)
       );
 
       setAllChannels(uniqueChannels);
+      migrateLegacyFavorites(uniqueChannels);
     } catch (error) {
       console.error('Error in fetchAllChannels');
     }
@@ -171,80 +189,81 @@ const ChannelPlayer = ({ channelId }: ChannelPlayerProps) => {
 
       // STEP 1: Try to find in manual channels first
       try {
-        const channelsRef = collection(db, 'channels');
-        const channelsSnapshot = await getDocs(channelsRef);
-
-        for (const doc of channelsSnapshot.docs) {
-          if (doc.id === decodedChannelId) {
-            const channelData = doc.data();
-            
-            // 🔧 FIX: Validate that streamUrl exists before creating channel
-            if (!channelData.streamUrl || channelData.streamUrl.trim() === '') {
-              console.error('❌ Manual channel missing stream URL:', {
-                id: doc.id,
-                name: channelData.name
-              });
-              setError(`Channel "${channelData.name || 'Unknown'}" is missing a stream URL. Please add one in the admin panel.`);
-              setLoading(false);
-              return;
-            }
-            
-            foundChannel = {
-              id: doc.id,
-              name: channelData.name || 'Unknown Channel',
-              logoUrl: channelData.logoUrl || '/channel-placeholder.svg',
-              streamUrl: channelData.streamUrl,
-              categoryId: channelData.categoryId || '',
-              categoryName: channelData.categoryName || 'Unknown Category'
-            };
-            
-            console.log('✅ Found MANUAL channel:', {
-              id: foundChannel.id,
-              name: foundChannel.name,
-              streamUrl: foundChannel.streamUrl.substring(0, 50) + '...',
-              willBeProxied: foundChannel.streamUrl.includes('http')
+        const manualChannel = await fetchManualChannel(decodedChannelId);
+        if (manualChannel) {
+          // 🔧 FIX: Validate that streamUrl exists before showing the channel
+          if (!manualChannel.streamUrl) {
+            console.error('❌ Manual channel missing stream URL:', {
+              id: manualChannel.id,
+              name: manualChannel.name
             });
-            break;
+            setError(`Channel "${manualChannel.name}" is missing a stream URL. Please add one in the admin panel.`);
+            setLoading(false);
+            return;
           }
+
+          foundChannel = manualChannel;
+
+          console.log('✅ Found MANUAL channel:', {
+            id: foundChannel.id,
+            name: foundChannel.name
+          });
         }
       } catch (manualChannelsError) {
         console.error('Error fetching manual channels');
       }
 
-      // STEP 2: If not found, search in M3U playlists
+      const categoriesSnapshot = await getDocs(collection(db, 'categories'));
+      const categoriesData = categoriesSnapshot.docs.map(categoryDoc => ({
+        id: categoryDoc.id,
+        ...categoryDoc.data()
+      })) as Category[];
+      setCategories(categoriesData);
+
+      // STEP 2: If not found, search in playlist sources. Playlist channel IDs start
+      // with their playlist's category ID, so that playlist is tried first.
+      const checkedChannels: PublicChannel[] = [];
       if (!foundChannel) {
-        const categoriesRef = collection(db, 'categories');
-        const categoriesSnapshot = await getDocs(categoriesRef);
-
-        for (const categoryDoc of categoriesSnapshot.docs) {
-          const categoryData = { id: categoryDoc.id, ...categoryDoc.data() } as Category;
-
-          if (categoryData.m3uUrl) {
-            try {
-              const m3uChannels = await fetchM3UPlaylist(
-                categoryData.m3uUrl,
-                categoryData.id,
-                categoryData.name
-              );
-
-              const m3uChannel = m3uChannels.find(ch => ch.id === decodedChannelId);
-
-              if (m3uChannel) {
-                foundChannel = m3uChannel;
-                console.log('✅ Found M3U channel:', {
-                  id: foundChannel.id,
-                  name: foundChannel.name,
-                  streamUrl: foundChannel.streamUrl.substring(0, 50) + '...'
-                });
-                break;
-              }
-            } catch (m3uError) {
-              console.error('Error checking M3U playlist for channel');
+        const playlistCategories = categoriesData
+          .filter(hasPlaylistSource)
+          .sort((a, b) =>
+            Number(decodedChannelId.startsWith(`${b.id}_`)) - Number(decodedChannelId.startsWith(`${a.id}_`))
+          );
+
+        for (const categoryData of playlistCategories) {
+          try {
+            const { channels: playlistChannels } = await fetchCategoryPlaylist(categoryData);
+            const m3uChannels = applyGroupMappings(playlistChannels, categoryData, categoriesData);
+
+            checkedChannels.push(...m3uChannels);
+            const m3uChannel = m3uChannels.find(ch => ch.id === decodedChannelId);
+
+            if (m3uChannel) {
+              foundChannel = m3uChannel;
+              console.log('✅ Found M3U channel:', {
+                id: foundChannel.id,
+                name: foundChannel.name,
+                streamUrl: foundChannel.streamUrl.substring(0, 50) + '...'
+              });
+              break;
             }
+          } catch (m3uError) {
+            console.error('Error checking M3U playlist for channel');
           }
         }
       }
 
+      // Old links and favorites use position-based playlist IDs; send them to the stable ID
+      if (!foundChannel && isLegacyChannelId(decodedChannelId)) {
+        const favorite = favorites.find(fav => fav.id === decodedChannelId);
+        const current = resolveLegacyChannel(decodedChannelId, favorite || {}, checkedChannels);
+        if (current) {
+          migrateLegacyFavorites(checkedChannels);
+          setLocation(`/channel/${encodeURIComponent(current.id)}`, { replace: true });
+          return;
+        }
+      }
+
       if (!foundChannel) {
         setLoading(false);
         setLocation('/404');
@@ -309,12 +328,69 @@ const ChannelPlayer = ({ channelId }: ChannelPlayerProps) => {
     }
   };
 
+  // Once every known source has failed, the same tvg-id in other playlists makes further backups
+  const searchMatchingSources = () => {
+    if (!channel) return;
+    const searchedId = channel.id;
+    matchSearchRef.current = searchedId;
+    toast.info(`${activeSource?.label || 'Source'} failed`, { description: 'Looking for the channel in other playlists' });
+
+    findMatchingSources(channel, categories, sources).then(found => {
+      if (matchSearchRef.current !== searchedId) return;
+      if (found.length === 0) {
+        setAutoFailover(false);
+        if (sources.length > 1) toast.error("All sources failed", { description: "Pick a source to try again." });
+        return;
+      }
+      setMatchedSources(found);
+      setSourceIndex(sources.length);
+      toast.info(`Switching to ${found[0].label}`);
+    });
+  };
+
+  // Fail over to the next source that has not failed yet, like event links do
+  const handleStreamError = () => {
+    if (!autoFailover) return;
+
+    failedSourcesRef.current.add(sourceIndex);
+    if (failedSourcesRef.current.size >= sources.length) {
+      if (channel?.tvgId && matchSearchRef.current !== channel.id) {
+        searchMatchingSources();
+        return;
+      }
+      setAutoFailover(false);
+      if (sources.length > 1) toast.error("All sources failed", { description: "Pick a source to try again." });
+      return;
+    }
+
+    let next = (sourceIndex + 1) % sources.length;
+    while (failedSourcesRef.current.has(next)) next = (next + 1) % sources.length;
+    toast.info(`${activeSource?.label || 'Source'} failed`, { description: `Switching to ${sources[next].label}` });
+    setSourceIndex(next);
+  };
+
+  const handleSourceSelect = (index: number) => {
+    failedSourcesRef.current.clear();
+    setAutoFailover(true);
+    setSourceIndex(index);
+  };
+
   const handleChannelSelect = (selectedChannel: PublicChannel) => {
     if (selectedChannel && selectedChannel.id) {
       setLocation(`/channel/${encodeURIComponent(selectedChannel.id)}`);
     }
   };
 
+  // Channel up/down on the keyboard or remote, through the category's channels in list order
+  const handleChannelStep = (direction: -1 | 1) => {
+    if (!channel || allChannels.length < 2) return;
+    const index = allChannels.findIndex(ch => ch.id === channel.id);
+    const next = index === -1
+      ? (direction === 1 ? 0 : allChannels.length - 1)
+      : (index + direction + allChannels.length) % allChannels.length;
+    handleChannelSelect(allChannels[next]);
+  };
+
   if (loading) {
     return (
       <div className="space-y-6 p-4 sm:p-6">
@@ -356,17 +432,9 @@ const ChannelPlayer = ({ channelId }: ChannelPlayerProps) => {
 
   const isChannelFavorite = isFavorite(channel.id);
   
-  // ✅ CRITICAL FIX: Always proxy ALL streams (manual + M3U)
-  const playerStreamUrl = getProxiedUrl(channel.streamUrl);
-  
-  console.log('🎬 Player URL Debug:', {
-    channelName: channel.name,
-    originalUrl: channel.streamUrl.substring(0, 60) + '...',
-    proxiedUrl: playerStreamUrl.substring(0, 60) + '...',
-    isProxied: playerStreamUrl.includes('/api/m3u8-proxy'),
-    urlType: channel.streamUrl.includes('.m3u8') ? 'HLS' : 
-             channel.streamUrl.includes('.mp4') ? 'MP4' : 'Unknown'
-  });
+  // Proxied URLs hide their extension, so go by what the source said it serves
+  const manifestType = activeSource?.manifestType;
+  const playerStreamType = manifestType ? PLAYER_STREAM_TYPES[manifestType] : undefined;
 
   return (
     <ErrorBoundary>
@@ -413,25 +481,137 @@ const ChannelPlayer = ({ channelId }: ChannelPlayerProps) => {
           />
           <div>
             <h1 className="text-2xl font-bold">{channel.name}</h1>
-            <div className="flex items-center gap-2 mt-1">
+            <div className="flex flex-wrap items-center gap-2 mt-1">
+              {channel.tvgChno && <Badge variant="outline">CH {channel.tvgChno}</Badge>}
               <Badge variant="secondary">{channel.categoryName}</Badge>
-              <Badge variant="destructive" className="animate-pulse">LIVE</Badge>
+              {channel.tvgLanguage && <Badge variant="outline">{channel.tvgLanguage}</Badge>}
+              {channel.catchup && (
+                <Badge variant="outline">
+                  Catch-up{channel.catchupDays ? ` ${channel.catchupDays}d` : ''}
+                </Badge>
+              )}
+              {catchup ? (
+                <Badge variant="secondary">CATCH-UP</Badge>
+              ) : (
+                <Badge variant="destructive" className="animate-pulse">LIVE</Badge>
+              )}
             </div>
           </div>
         </div>
 
+        {catchup && (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-accent/40 bg-accent/10 px-4 py-2 text-sm">
+            <span className="min-w-0 truncate">
+              Watching {catchup.title ? `"${catchup.title}"` : 'catch-up'} from {new Date(catchup.start).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+            </span>
+            <Button size="sm" variant="outline" onClick={() => setCatchup(null)}>
+              Back to live
+            </Button>
+          </div>
+        )}
+
         {/* Video Player - Full Width */}
-        <div className="w-full aspect-video bg-black overflow-hidden shadow-2xl">
-          <VideoPlayer
-            key={channel.id} 
-            streamUrl={playerStreamUrl}
-            channelName={channel.name}
-            autoPlay={true}
-            muted={false}
-            className="w-full h-full"
-          />
+        <div className="relative w-full aspect-video bg-black overflow-hidden shadow-2xl">
+          {playerStreamUrl ? (
+            <VideoPlayer
+              key={`${channel.id}-${sourceIndex}-${catchup?.start ?? 'live'}`}
+              streamUrl={playerStreamUrl}
+              channelName={channel.name}
+              drm={activeSource?.drm}
+              lowLatency={catchup ? undefined : channel.lowLatency}
+              streamType={playerStreamType}
+              autoPlay={true}
+              muted={false}
+              onError={handleStreamError}
+              onPreviousChannel={() => handleChannelStep(-1)}
+              onNextChannel={() => handleChannelStep(1)}
+              startPosition={catchupPlayback.startPosition}
+              onTimeUpdate={catchup ? catchupPlayback.handleTimeUpdate : undefined}
+              className="w-full h-full"
+            />
+          ) : (
+            <Skeleton className="w-full h-full" />
+          )}
+          {playerStreamUrl && catchupPlayback.resumeFrom !== null && (
+            <ResumePrompt
+              position={catchupPlayback.resumeFrom}
+              onResume={catchupPlayback.resume}
+              onStartOver={catchupPlayback.startOver}
+            />
+          )}
         </div>
 
+        {sources.length > 1 && (
+          <div className="rounded-lg border bg-card p-4 space-y-3">
+            <div className="flex items-center gap-2 text-sm font-semibold">
+              <Signal size={16} className="text-accent" />
+              Sources
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {sources.map((source, index) => (
+                <Button
+                  key={index}
+                  size="sm"
+                  variant={index === sourceIndex ? 'default' : 'outline'}
+                  onClick={() => handleSourceSelect(index)}
+                  className="max-w-full"
+                >
+                  {index === sourceIndex && <Check size={14} />}
+                  <span className="truncate">{source.label}</span>
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {autoFailover
+                ? 'If a source fails, the player switches to the next one automatically.'
+                : 'Every source failed. Pick one to try again.'}
+            </p>
+          </div>
+        )}
+
+        {/* Now / Next */}
+        {currentProgramme && (
+          <div className="rounded-lg border bg-card p-4 space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="text-xs font-medium uppercase text-accent">Now</div>
+                <div className="font-semibold truncate">{currentProgramme.title}</div>
+                {currentProgramme.subTitle && (
+                  <div className="text-sm text-muted-foreground truncate">{currentProgramme.subTitle}</div>
+                )}
+              </div>
+              <div className="text-sm text-muted-foreground whitespace-nowrap">
+                {formatProgrammeTime(currentProgramme.start)} – {formatProgrammeTime(currentProgramme.stop)}
+              </div>
+            </div>
+            <Progress value={programmeProgress} className="h-1.5" aria-label="Programme progress" />
+            {currentProgramme.desc && (
+              <p className="text-sm text-muted-foreground line-clamp-2">{currentProgramme.desc}</p>
+            )}
+            {nextProgramme && (
+              <div className="flex items-center justify-between gap-4 border-t pt-3 text-sm">
+                <div className="min-w-0 truncate">
+                  <span className="text-muted-foreground mr-2">Next</span>
+                  {nextProgramme.title}
+                </div>
+                <span className="text-muted-foreground whitespace-nowrap">{formatProgrammeTime(nextProgramme.start)}</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {supportsCatchup(channel) && (
+          <CatchupPanel
+            channel={channel}
+            currentProgramme={currentProgramme}
+            activeStart={catchup?.start ?? null}
+            onPlay={(selection) => {
+              setCatchup(selection);
+              topRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+            }}
+          />
+        )}
+
         {/* Related Channels Section */}
         <div className="related-channels-section pt-4">
           <h2 className="text-xl font-semibold mb-4 border-b pb-2">
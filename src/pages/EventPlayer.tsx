@@ -3,7 +3,9 @@ import { useEffect, useState, useRef } from 'react'; // Add useRef
 import { useParams, useLocation } from 'wouter';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { LiveEvent } from '@/types';
+import { resolveStreamDrm } from '@/lib/drm';
+import { normalizeLowLatency } from '@/lib/liveLatency';
+import { LiveEvent, LiveEventLink } from '@/types';
 import VideoPlayer from '@/components/VideoPlayer';
 import { Loader2, AlertCircle, Check, Signal } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
@@ -29,7 +31,13 @@ const EventPlayer = () => {
         const docRef = doc(db, 'live_events', eventId);
         const docSnap = await getDoc(docRef);
         if (docSnap.exists()) {
-          setEvent({ id: docSnap.id, ...docSnap.data() } as LiveEvent);
+          const data = docSnap.data();
+          // Links saved before DRM settings existed may carry them in a "?|drmScheme=" URL suffix
+          const links = (data.links || []).map((link: LiveEventLink): LiveEventLink => ({
+            label: link.label,
+            ...resolveStreamDrm(link.url, link.drm),
+          }));
+          setEvent({ id: docSnap.id, ...data, links, lowLatency: normalizeLowLatency(data.lowLatency) } as LiveEvent);
         }
       } catch (err) {
         console.error(err);
@@ -109,6 +117,8 @@ const EventPlayer = () => {
             <VideoPlayer 
                 key={currentLink.url} 
                 streamUrl={currentLink.url}
+                drm={currentLink.drm}
+                lowLatency={event.lowLatency}
                 channelName={event.title}
                 onError={handleVideoError}
                 onBack={() => setLocation('/live')} 
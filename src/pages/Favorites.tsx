@@ -65,6 +65,7 @@ const Favorites = () => {
               key={channel.id} 
               channel={{
                 ...channel,
+                streamUrl: '', // The player loads the channel afresh
                 categoryId: ''
               }} 
             />
@@ -0,0 +1,347 @@
+// /src/pages/Guide.tsx - TV guide grid: channels down the side, time across the top
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation } from 'wouter';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { Category, PublicChannel, Programme } from '@/types';
+import { loadCategoryChannels, sortCategories } from '@/lib/playlist';
+import { fetchGuideWindow, formatProgrammeTime, hasGuide } from '@/lib/epg';
+import { useNow } from '@/hooks/useEpg';
+import ErrorBoundary from '@/components/ErrorBoundary';
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Clock, LayoutGrid } from 'lucide-react';
+
+const ALL_CATEGORIES = 'all';
+
+const ROW_HEIGHT = 64;
+const HEADER_HEIGHT = 40;
+const CHANNEL_COLUMN_WIDTH = 176;
+const PX_PER_MINUTE = 4;
+const SLOT_MINUTES = 30;
+const HOURS_BEFORE_NOW = 2;
+const HOURS_AFTER_NOW = 24;
+// Rows rendered above and below the viewport so fast scrolling does not show gaps
+const OVERSCAN_ROWS = 6;
+// Wait for scrolling to settle before asking for the programmes of newly visible rows
+const FETCH_DELAY_MS = 150;
+
+const MINUTE_MS = 60 * 1000;
+const SLOT_MS = SLOT_MINUTES * MINUTE_MS;
+
+const toX = (time: number, gridStart: number) => ((time - gridStart) / MINUTE_MS) * PX_PER_MINUTE;
+
+const Guide = () => {
+  const [, setLocation] = useLocation();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [selectedCategory, setSelectedCategory] = useState(ALL_CATEGORIES);
+  const [channels, setChannels] = useState<PublicChannel[]>([]);
+  const [programmes, setProgrammes] = useState<Record<string, Programme[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const requestedRef = useRef(new Set<string>());
+  const scrollFrameRef = useRef<number | null>(null);
+
+  const now = useNow();
+
+  // The grid is anchored once per visit so programme positions do not shift while scrolling
+  const [gridStart] = useState(() => Math.floor((Date.now() - HOURS_BEFORE_NOW * 60 * MINUTE_MS) / SLOT_MS) * SLOT_MS);
+  const gridEnd = gridStart + (HOURS_BEFORE_NOW + HOURS_AFTER_NOW) * 60 * MINUTE_MS;
+  const timelineWidth = toX(gridEnd, gridStart);
+  const totalWidth = CHANNEL_COLUMN_WIDTH + timelineWidth;
+  const totalHeight = HEADER_HEIGHT + channels.length * ROW_HEIGHT;
+
+  const slots = useMemo(() => {
+    const list: number[] = [];
+    for (let time = gridStart; time < gridEnd; time += SLOT_MS) list.push(time);
+    return list;
+  }, [gridStart, gridEnd]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  useEffect(() => {
+    if (categories.length === 0) return;
+
+    let cancelled = false;
+    const fetchChannels = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setProgrammes({});
+        requestedRef.current = new Set();
+
+        const selected = selectedCategory === ALL_CATEGORIES
+          ? categories
+          : categories.filter(cat => cat.id === selectedCategory);
+
+        // Same channel lists (and order) as each category page, in category order
+        const results = await Promise.all(selected.map(category => loadCategoryChannels(category, categories)));
+        const seen = new Set<string>();
+        const guideChannels = results
+          .flatMap(result => result.channels)
+          .filter(channel => {
+            if (!hasGuide(channel) || seen.has(channel.id)) return false;
+            seen.add(channel.id);
+            return true;
+          });
+
+        if (!cancelled) setChannels(guideChannels);
+      } catch (fetchError) {
+        if (!cancelled) setError('Failed to load channels. Please try again.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchChannels();
+    return () => {
+      cancelled = true;
+    };
+  }, [categories, selectedCategory]);
+
+  // Track the viewport so only visible rows and programmes are rendered
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [loading]);
+
+  // Start with the current time in view
+  useEffect(() => {
+    if (loading || !scrollRef.current) return;
+    scrollRef.current.scrollLeft = Math.max(0, toX(Date.now() - SLOT_MS, gridStart));
+    scrollRef.current.scrollTop = 0;
+  }, [loading, selectedCategory, gridStart]);
+
+  const firstRow = Math.max(0, Math.floor(scroll.top / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(channels.length, Math.ceil((scroll.top + viewport.height) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const visibleChannels = channels.slice(firstRow, lastRow);
+
+  // Fetch programmes for rows as they scroll into view
+  useEffect(() => {
+    const missing = channels.slice(firstRow, lastRow).filter(channel => !requestedRef.current.has(channel.id));
+    if (missing.length === 0) return;
+
+    const timer = setTimeout(async () => {
+      missing.forEach(channel => requestedRef.current.add(channel.id));
+      const result = await fetchGuideWindow(missing, gridStart, gridEnd);
+      setProgrammes(prev => {
+        const next = { ...prev };
+        missing.forEach(channel => {
+          next[channel.id] = result[channel.id] || [];
+        });
+        return next;
+      });
+    }, FETCH_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [firstRow, lastRow, channels, gridStart, gridEnd]);
+
+  const fetchCategories = async () => {
+    try {
+      const snapshot = await getDocs(collection(db, 'categories'));
+      const categoriesData = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as Category[];
+      setCategories(sortCategories(categoriesData));
+    } catch (fetchError) {
+      console.error('Error fetching categories:', fetchError);
+      setError('Failed to load categories. Please try again.');
+      setLoading(false);
+    }
+  };
+
+  // At most one re-render per frame, with the position as of that frame
+  const handleScroll = () => {
+    if (scrollFrameRef.current !== null) return;
+    scrollFrameRef.current = requestAnimationFrame(() => {
+      scrollFrameRef.current = null;
+      const element = scrollRef.current;
+      if (element) setScroll({ top: element.scrollTop, left: element.scrollLeft });
+    });
+  };
+
+  const jumpToNow = () => {
+    scrollRef.current?.scrollTo({ left: Math.max(0, toX(Date.now() - SLOT_MS, gridStart)), behavior: 'smooth' });
+  };
+
+  const openChannel = (channel: PublicChannel) => {
+    setLocation(`/channel/${encodeURIComponent(channel.id)}`);
+  };
+
+  // Only programmes overlapping the visible stretch of time are rendered
+  const visibleFrom = gridStart + ((scroll.left - CHANNEL_COLUMN_WIDTH) / PX_PER_MINUTE) * MINUTE_MS;
+  const visibleTo = gridStart + ((scroll.left + viewport.width) / PX_PER_MINUTE) * MINUTE_MS;
+  const nowX = toX(now, gridStart);
+
+  return (
+    <ErrorBoundary>
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <LayoutGrid className="text-accent" size={24} />
+            <h1 className="text-2xl font-bold">TV Guide</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="All categories" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {categories.map(category => (
+                  <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={jumpToNow} disabled={loading}>
+              <Clock size={16} className="mr-1" />
+              Now
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 8 }).map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : channels.length === 0 ? (
+          !error && (
+            <div className="text-center py-12 text-muted-foreground">
+              No channels with programme information{selectedCategory !== ALL_CATEGORIES && ' in this category'}.
+            </div>
+          )
+        ) : (
+          <div
+            ref={scrollRef}
+            onScroll={handleScroll}
+            className="relative overflow-auto rounded-lg border bg-card h-[calc(100vh-12rem)]"
+          >
+            <div className="relative" style={{ width: totalWidth, height: totalHeight }}>
+              {/* Time header */}
+              <div className="sticky top-0 z-30 flex bg-card border-b" style={{ width: totalWidth, height: HEADER_HEIGHT }}>
+                <div className="sticky left-0 z-10 shrink-0 bg-card border-r" style={{ width: CHANNEL_COLUMN_WIDTH }} />
+                <div className="relative flex-1">
+                  {slots.map(slot => (
+                    <div
+                      key={slot}
+                      className="absolute top-0 h-full border-l px-2 text-xs leading-10 text-muted-foreground"
+                      style={{ left: toX(slot, gridStart), width: SLOT_MINUTES * PX_PER_MINUTE }}
+                    >
+                      {formatProgrammeTime(slot)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Channel rows */}
+              {visibleChannels.map((channel, offset) => {
+                const channelProgrammes = programmes[channel.id];
+                const shown = (channelProgrammes || []).filter(
+                  programme => programme.stop > visibleFrom && programme.start < visibleTo
+                );
+
+                return (
+                  <div
+                    key={channel.id}
+                    className="absolute left-0 flex border-b"
+                    style={{ top: HEADER_HEIGHT + (firstRow + offset) * ROW_HEIGHT, width: totalWidth, height: ROW_HEIGHT }}
+                  >
+                    <button
+                      onClick={() => openChannel(channel)}
+                      className="sticky left-0 z-20 flex shrink-0 items-center gap-2 border-r bg-card px-2 text-left hover:bg-accent/10"
+                      style={{ width: CHANNEL_COLUMN_WIDTH }}
+                    >
+                      <img
+                        src={channel.logoUrl}
+                        alt=""
+                        className="h-8 w-8 shrink-0 object-contain"
+                        onError={(e) => { e.currentTarget.src = '/channel-placeholder.svg'; }}
+                      />
+                      <span className="truncate text-sm font-medium">{channel.name}</span>
+                    </button>
+
+                    <div className="relative flex-1">
+                      {channelProgrammes === undefined && (
+                        <Skeleton className="absolute inset-y-2 rounded" style={{ left: Math.max(0, scroll.left), width: Math.min(viewport.width, 480) }} />
+                      )}
+                      {channelProgrammes?.length === 0 && (
+                        <div
+                          className="absolute inset-y-0 flex items-center px-3 text-xs text-muted-foreground"
+                          style={{ left: Math.max(0, scroll.left) }}
+                        >
+                          No programme information
+                        </div>
+                      )}
+                      {shown.map(programme => {
+                        const isLive = programme.start <= now && programme.stop > now;
+                        const isPast = programme.stop <= now;
+                        const left = Math.max(0, toX(programme.start, gridStart));
+                        const width = Math.min(timelineWidth, toX(programme.stop, gridStart)) - left;
+
+                        return (
+                          <button
+                            key={programme.start}
+                            onClick={isLive ? () => openChannel(channel) : undefined}
+                            disabled={!isLive}
+                            title={`${programme.title} (${formatProgrammeTime(programme.start)} – ${formatProgrammeTime(programme.stop)})`}
+                            className={`absolute inset-y-1 overflow-hidden rounded border px-2 py-1 text-left transition-colors ${
+                              isLive
+                                ? 'border-accent bg-accent/15 hover:bg-accent/25 cursor-pointer'
+                                : isPast
+                                  ? 'bg-muted/40 text-muted-foreground cursor-default'
+                                  : 'bg-background cursor-default'
+                            }`}
+                            style={{ left: left + 1, width: Math.max(0, width - 2) }}
+                          >
+                            <div className="truncate text-sm font-medium">{programme.title}</div>
+                            <div className="truncate text-xs text-muted-foreground">
+                              {formatProgrammeTime(programme.start)} – {formatProgrammeTime(programme.stop)}
+                            </div>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {/* Now line */}
+              {nowX >= 0 && nowX <= timelineWidth && (
+                <div
+                  className="pointer-events-none absolute top-0 z-10 w-0.5 bg-red-500"
+                  style={{ left: CHANNEL_COLUMN_WIDTH + nowX, height: totalHeight }}
+                />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </ErrorBoundary>
+  );
+};
+
+export default Guide;
@@ -3,6 +3,7 @@ import { useState, useEffect } from 'react';
 import { collection, getDocs, query, orderBy } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { Category } from '@/types';
+import { sortCategories } from '@/lib/playlist';
 import CategoryCard from '@/components/CategoryCard';
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -25,20 +26,13 @@ const Home = () => {
       const categoriesCol = collection(db, 'categories');
       const snapshot = await getDocs(categoriesCol);
       
-      let categoriesData = snapshot.docs.map(doc => ({
+      const categoriesData = snapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data()
       })) as Category[];
       
       // Sort by order field (with fallback to name if order is missing)
-      categoriesData.sort((a, b) => {
-        if (a.order !== undefined && b.order !== undefined) {
-          return a.order - b.order;
-        }
-        return a.name.localeCompare(b.name);
-      });
-      
-      setCategories(categoriesData);
+      setCategories(sortCategories(categoriesData));
     } catch (error) {
       console.error('Error fetching categories:', error);
       setError('Failed to load categories. Please try again.');
@@ -0,0 +1,220 @@
+// /src/pages/Library.tsx - Movies and series from every category source
+import { useEffect, useMemo, useState } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { Category, Movie, Series } from '@/types';
+import { sortCategories } from '@/lib/playlist';
+import { hasLibrary, loadLibrary } from '@/lib/library';
+import { getContinueWatching, WatchProgress } from '@/lib/watchProgress';
+import PosterCard from '@/components/PosterCard';
+import ErrorBoundary from '@/components/ErrorBoundary';
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Film, Search } from 'lucide-react';
+
+type LibraryTab = 'movies' | 'series';
+
+const ALL_CATEGORIES = 'all';
+// Libraries run to thousands of titles; render them a page at a time
+const PAGE_SIZE = 60;
+
+const getSubtitle = (item: Movie | Series) =>
+  [item.year, item.groupTitle].filter(Boolean).join(' · ') || item.categoryName;
+
+const getProgressLink = (progress: WatchProgress) =>
+  progress.kind === 'episode' && progress.seriesId
+    ? `/series/${encodeURIComponent(progress.seriesId)}?episode=${encodeURIComponent(progress.id)}`
+    : `/movie/${encodeURIComponent(progress.id)}`;
+
+const Library = () => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [movies, setMovies] = useState<Movie[]>([]);
+  const [series, setSeries] = useState<Series[]>([]);
+  const [tab, setTab] = useState<LibraryTab>('movies');
+  const [selectedCategory, setSelectedCategory] = useState(ALL_CATEGORIES);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [continueWatching] = useState(() => getContinueWatching());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchLibrary = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const snapshot = await getDocs(collection(db, 'categories'));
+        const categoriesData = sortCategories(snapshot.docs.map(doc => ({
+          id: doc.id,
+          ...doc.data()
+        })) as Category[]).filter(hasLibrary);
+
+        const library = await loadLibrary(categoriesData);
+        if (cancelled) return;
+
+        setCategories(categoriesData);
+        setMovies(library.movies);
+        setSeries(library.series);
+        if (library.failed > 0) {
+          setError(`Failed to load ${library.failed} of ${categoriesData.length} sources. Showing the rest.`);
+        }
+      } catch (fetchError) {
+        if (!cancelled) setError('Failed to load the library. Please try again.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchLibrary();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Start from the top of the list whenever what is shown changes
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [tab, selectedCategory, searchQuery]);
+
+  const filtered = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const items: (Movie | Series)[] = tab === 'movies' ? movies : series;
+    return items.filter(item =>
+      (selectedCategory === ALL_CATEGORIES || item.categoryId === selectedCategory) &&
+      (!query || item.name.toLowerCase().includes(query))
+    );
+  }, [tab, movies, series, selectedCategory, searchQuery]);
+
+  const tabs: { id: LibraryTab; label: string; count: number }[] = [
+    { id: 'movies', label: 'Movies', count: movies.length },
+    { id: 'series', label: 'Series', count: series.length },
+  ];
+
+  return (
+    <ErrorBoundary>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Film className="text-accent" size={24} />
+            <h1 className="text-2xl font-bold">Movies & Series</h1>
+          </div>
+          {categories.length > 1 && (
+            <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="All sources" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All sources</SelectItem>
+                {categories.map(category => (
+                  <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {continueWatching.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-lg font-semibold">Continue watching</h2>
+            <div className="flex gap-3 overflow-x-auto pb-2">
+              {continueWatching.map(progress => (
+                <div key={progress.id} className="w-28 shrink-0 sm:w-32">
+                  <PosterCard
+                    to={getProgressLink(progress)}
+                    title={progress.name}
+                    posterUrl={progress.posterUrl}
+                    progress={(progress.position / progress.duration) * 100}
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <div className="flex gap-2">
+          {tabs.map(item => (
+            <button
+              key={item.id}
+              onClick={() => setTab(item.id)}
+              className={`px-3 py-1.5 rounded-full text-sm whitespace-nowrap border transition-colors ${
+                tab === item.id ? 'bg-accent text-white border-accent' : 'border-border text-text-secondary hover:text-text-primary'
+              }`}
+            >
+              {item.label}{!loading && ` (${item.count})`}
+            </button>
+          ))}
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-text-secondary w-5 h-5" />
+          <input
+            type="text"
+            placeholder={tab === 'movies' ? 'Search movies...' : 'Search series...'}
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="form-input pl-10"
+          />
+        </div>
+
+        {loading ? (
+          <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-6 xl:grid-cols-8 gap-3 sm:gap-4">
+            {Array.from({ length: 16 }).map((_, i) => (
+              <div key={i} className="space-y-2">
+                <Skeleton className="aspect-[2/3] w-full" />
+                <Skeleton className="h-4 w-3/4" />
+              </div>
+            ))}
+          </div>
+        ) : filtered.length === 0 ? (
+          <div className="text-center py-12">
+            <Film size={48} className="text-text-secondary mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">
+              {searchQuery ? `No ${tab} found` : `No ${tab} available`}
+            </h3>
+            <p className="text-text-secondary">
+              {searchQuery
+                ? `Nothing matches "${searchQuery}". Try a different search term.`
+                : 'Playlists with movies or series will show them here.'}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-6 xl:grid-cols-8 gap-3 sm:gap-4">
+              {filtered.slice(0, visibleCount).map(item => (
+                <PosterCard
+                  key={item.id}
+                  to={`/${tab === 'movies' ? 'movie' : 'series'}/${encodeURIComponent(item.id)}`}
+                  title={item.name}
+                  posterUrl={item.posterUrl}
+                  subtitle={getSubtitle(item)}
+                  rating={item.rating}
+                />
+              ))}
+            </div>
+            {visibleCount < filtered.length && (
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={() => setVisibleCount(count => count + PAGE_SIZE)}>
+                  Show more ({filtered.length - visibleCount} left)
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </ErrorBoundary>
+  );
+};
+
+export default Library;
@@ -0,0 +1,180 @@
+// /src/pages/MoviePlayer.tsx - Plays a library movie, resuming where it was left
+import { useEffect, useState } from 'react';
+import { useLocation } from 'wouter';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { Category, Movie } from '@/types';
+import VideoPlayer from '@/components/VideoPlayer';
+import ErrorBoundary from '@/components/ErrorBoundary';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, ArrowLeft, CheckCircle, Star } from 'lucide-react';
+import { getProxiedUrl } from '@/lib/urlEncryption';
+import { fetchCategoryLibrary, findItemCategory, getVodStreamType } from '@/lib/library';
+import { usePlaybackPosition } from '@/hooks/usePlaybackPosition';
+import ResumePrompt from '@/components/ResumePrompt';
+
+interface MoviePlayerProps {
+  movieId: string;
+}
+
+const MoviePlayer = ({ movieId }: MoviePlayerProps) => {
+  const [, setLocation] = useLocation();
+  const [movie, setMovie] = useState<Movie | null>(null);
+  const [playerStreamUrl, setPlayerStreamUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const playback = usePlaybackPosition(movie && {
+    id: movie.id,
+    kind: 'movie',
+    name: movie.name,
+    posterUrl: movie.posterUrl,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchMovie = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setMovie(null);
+
+        const decodedId = decodeURIComponent(movieId);
+        const snapshot = await getDocs(collection(db, 'categories'));
+        const categories = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Category[];
+
+        // Movie IDs start with the ID of the category they came from
+        const category = findItemCategory(decodedId, categories);
+        const found = category
+          ? (await fetchCategoryLibrary(category)).movies.find(item => item.id === decodedId)
+          : undefined;
+        if (cancelled) return;
+
+        if (!found) {
+          setLoading(false);
+          setLocation('/404');
+          return;
+        }
+
+        setMovie(found);
+      } catch (fetchError) {
+        if (!cancelled) setError('Failed to load movie');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchMovie();
+    return () => {
+      cancelled = true;
+    };
+  }, [movieId, setLocation]);
+
+  useEffect(() => {
+    if (!movie) {
+      setPlayerStreamUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    getProxiedUrl(movie.streamUrl).then(proxiedUrl => {
+      if (!cancelled) setPlayerStreamUrl(proxiedUrl);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [movie]);
+
+  if (loading) {
+    return (
+      <div className="space-y-6 p-4 sm:p-6">
+        <Skeleton className="aspect-video w-full" />
+        <Skeleton className="h-6 w-64" />
+        <Skeleton className="h-4 w-48" />
+      </div>
+    );
+  }
+
+  if (error || !movie) {
+    return (
+      <div className="space-y-6 p-4 sm:p-6">
+        <Button variant="ghost" onClick={() => setLocation('/library')} className="flex items-center gap-2 pl-0">
+          <ArrowLeft size={18} />
+          Back
+        </Button>
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error || 'Movie not found.'}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <ErrorBoundary>
+      <div className="space-y-6 p-4 sm:p-6">
+        <Button variant="ghost" onClick={() => window.history.back()} className="flex items-center gap-2 pl-0 -mt-2">
+          <ArrowLeft size={18} />
+          Back
+        </Button>
+
+        <div className="relative w-full aspect-video bg-black overflow-hidden shadow-2xl">
+          {playerStreamUrl ? (
+            <VideoPlayer
+              key={movie.id}
+              streamUrl={playerStreamUrl}
+              channelName={movie.name}
+              streamType={getVodStreamType(movie)}
+              autoPlay={true}
+              muted={false}
+              startPosition={playback.startPosition}
+              onTimeUpdate={playback.handleTimeUpdate}
+              className="w-full h-full"
+            />
+          ) : (
+            <Skeleton className="w-full h-full" />
+          )}
+          {playerStreamUrl && playback.resumeFrom !== null && (
+            <ResumePrompt position={playback.resumeFrom} onResume={playback.resume} onStartOver={playback.startOver} />
+          )}
+        </div>
+
+        <div className="flex gap-4">
+          <img
+            src={movie.posterUrl || '/channel-placeholder.svg'}
+            alt={movie.name}
+            className="hidden sm:block w-28 aspect-[2/3] object-cover rounded-lg shadow"
+            onError={(e) => { e.currentTarget.src = '/channel-placeholder.svg'; }}
+          />
+          <div className="min-w-0 space-y-2">
+            <h1 className="text-2xl font-bold">{movie.name}</h1>
+            <div className="flex flex-wrap items-center gap-2">
+              {playback.watched && (
+                <Badge variant="outline" className="flex items-center gap-1 text-green-500 border-green-500/50">
+                  <CheckCircle size={12} /> Watched
+                </Badge>
+              )}
+              {movie.year && <Badge variant="outline">{movie.year}</Badge>}
+              {movie.rating !== undefined && (
+                <Badge variant="outline" className="flex items-center gap-1">
+                  <Star size={12} fill="currentColor" className="text-yellow-500" />
+                  {movie.rating.toFixed(1)}
+                </Badge>
+              )}
+              {movie.groupTitle && <Badge variant="secondary">{movie.groupTitle}</Badge>}
+              <Badge variant="secondary">{movie.categoryName}</Badge>
+            </div>
+            {movie.genre && <p className="text-sm text-text-secondary">{movie.genre}</p>}
+            {movie.plot && <p className="text-sm">{movie.plot}</p>}
+          </div>
+        </div>
+      </div>
+    </ErrorBoundary>
+  );
+};
+
+export default MoviePlayer;
@@ -0,0 +1,283 @@
+// /src/pages/SeriesDetail.tsx - A series' seasons and episodes, with the chosen episode playing
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation, useSearch } from 'wouter';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { Category, Episode, Series } from '@/types';
+import VideoPlayer from '@/components/VideoPlayer';
+import ErrorBoundary from '@/components/ErrorBoundary';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, ArrowLeft, CheckCircle, Play, Star } from 'lucide-react';
+import { getProxiedUrl } from '@/lib/urlEncryption';
+import { fetchCategoryLibrary, fetchSeriesEpisodes, findItemCategory, getVodStreamType } from '@/lib/library';
+import { getWatchProgress, isResumable } from '@/lib/watchProgress';
+import { usePlaybackPosition } from '@/hooks/usePlaybackPosition';
+import ResumePrompt from '@/components/ResumePrompt';
+
+interface SeriesDetailProps {
+  seriesId: string;
+}
+
+const formatDuration = (secs: number) => `${Math.round(secs / 60)} min`;
+
+const SeriesDetail = ({ seriesId }: SeriesDetailProps) => {
+  const [location, setLocation] = useLocation();
+  const search = useSearch();
+  const [series, setSeries] = useState<Series | null>(null);
+  const [episodes, setEpisodes] = useState<Episode[]>([]);
+  const [season, setSeason] = useState<number | null>(null);
+  const [playerStreamUrl, setPlayerStreamUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const playerRef = useRef<HTMLDivElement>(null);
+
+  const episodeId = new URLSearchParams(search).get('episode');
+  const episode = episodes.find(item => item.id === episodeId) || null;
+
+  const playback = usePlaybackPosition(series && episode && {
+    id: episode.id,
+    kind: 'episode',
+    name: `${series.name} · S${episode.season}E${episode.episode}`,
+    posterUrl: series.posterUrl,
+    seriesId: series.id,
+  });
+
+  const seasons = useMemo(
+    () => Array.from(new Set(episodes.map(item => item.season))).sort((a, b) => a - b),
+    [episodes]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchSeries = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setSeries(null);
+        setEpisodes([]);
+
+        const decodedId = decodeURIComponent(seriesId);
+        const snapshot = await getDocs(collection(db, 'categories'));
+        const categories = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Category[];
+
+        // Series IDs start with the ID of the category they came from
+        const category = findItemCategory(decodedId, categories);
+        const found = category
+          ? (await fetchCategoryLibrary(category)).series.find(item => item.id === decodedId)
+          : undefined;
+        if (cancelled) return;
+
+        if (!category || !found) {
+          setLoading(false);
+          setLocation('/404');
+          return;
+        }
+        setSeries(found);
+
+        const list = await fetchSeriesEpisodes(category, found);
+        if (!cancelled) setEpisodes(list);
+      } catch (fetchError) {
+        if (!cancelled) setError('Failed to load series');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchSeries();
+    return () => {
+      cancelled = true;
+    };
+  }, [seriesId, setLocation]);
+
+  // Open on the playing episode's season, or the first one
+  useEffect(() => {
+    if (episode) {
+      setSeason(episode.season);
+    } else if (seasons.length > 0) {
+      setSeason(current => (current !== null && seasons.includes(current) ? current : seasons[0]));
+    }
+  }, [episode, seasons]);
+
+  useEffect(() => {
+    if (!episode) {
+      setPlayerStreamUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    setPlayerStreamUrl(null);
+    getProxiedUrl(episode.streamUrl).then(proxiedUrl => {
+      if (!cancelled) setPlayerStreamUrl(proxiedUrl);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [episode]);
+
+  const playEpisode = (item: Episode) => {
+    setLocation(`${location}?episode=${encodeURIComponent(item.id)}`, { replace: true });
+    playerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  if (loading && !series) {
+    return (
+      <div className="space-y-6 p-4 sm:p-6">
+        <div className="flex gap-4">
+          <Skeleton className="w-28 aspect-[2/3]" />
+          <div className="space-y-2 flex-1">
+            <Skeleton className="h-6 w-64" />
+            <Skeleton className="h-4 w-48" />
+          </div>
+        </div>
+        {Array.from({ length: 6 }).map((_, i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error || !series) {
+    return (
+      <div className="space-y-6 p-4 sm:p-6">
+        <Button variant="ghost" onClick={() => setLocation('/library')} className="flex items-center gap-2 pl-0">
+          <ArrowLeft size={18} />
+          Back
+        </Button>
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error || 'Series not found.'}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const seasonEpisodes = episodes.filter(item => item.season === season);
+
+  return (
+    <ErrorBoundary>
+      <div className="space-y-6 p-4 sm:p-6">
+        <Button variant="ghost" onClick={() => setLocation('/library')} className="flex items-center gap-2 pl-0 -mt-2">
+          <ArrowLeft size={18} />
+          Back
+        </Button>
+
+        {episode && (
+          <div ref={playerRef} className="space-y-2">
+            <div className="relative w-full aspect-video bg-black overflow-hidden shadow-2xl">
+              {playerStreamUrl ? (
+                <VideoPlayer
+                  key={episode.id}
+                  streamUrl={playerStreamUrl}
+                  channelName={`${series.name} - ${episode.name}`}
+                  streamType={getVodStreamType(episode)}
+                  autoPlay={true}
+                  muted={false}
+                  startPosition={playback.startPosition}
+                  onTimeUpdate={playback.handleTimeUpdate}
+                  className="w-full h-full"
+                />
+              ) : (
+                <Skeleton className="w-full h-full" />
+              )}
+              {playerStreamUrl && playback.resumeFrom !== null && (
+                <ResumePrompt position={playback.resumeFrom} onResume={playback.resume} onStartOver={playback.startOver} />
+              )}
+            </div>
+            <div className="font-semibold">
+              S{episode.season} E{episode.episode} · {episode.name}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-4">
+          <img
+            src={series.posterUrl || '/channel-placeholder.svg'}
+            alt={series.name}
+            className="w-24 sm:w-28 aspect-[2/3] object-cover rounded-lg shadow"
+            onError={(e) => { e.currentTarget.src = '/channel-placeholder.svg'; }}
+          />
+          <div className="min-w-0 space-y-2">
+            <h1 className="text-2xl font-bold">{series.name}</h1>
+            <div className="flex flex-wrap items-center gap-2">
+              {series.year && <Badge variant="outline">{series.year}</Badge>}
+              {series.rating !== undefined && (
+                <Badge variant="outline" className="flex items-center gap-1">
+                  <Star size={12} fill="currentColor" className="text-yellow-500" />
+                  {series.rating.toFixed(1)}
+                </Badge>
+              )}
+              {series.groupTitle && <Badge variant="secondary">{series.groupTitle}</Badge>}
+              <Badge variant="secondary">{series.categoryName}</Badge>
+            </div>
+            {series.genre && <p className="text-sm text-text-secondary">{series.genre}</p>}
+            {series.plot && <p className="text-sm">{series.plot}</p>}
+          </div>
+        </div>
+
+        <section className="space-y-3">
+          <div className="flex items-center justify-between gap-3 border-b border-border pb-2">
+            <h2 className="text-lg font-semibold">Episodes</h2>
+            {seasons.length > 1 && season !== null && (
+              <Select value={String(season)} onValueChange={value => setSeason(Number(value))}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {seasons.map(item => (
+                    <SelectItem key={item} value={String(item)}>Season {item}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {loading ? (
+            Array.from({ length: 6 }).map((_, i) => <Skeleton key={i} className="h-16 w-full" />)
+          ) : seasonEpisodes.length === 0 ? (
+            <p className="text-center py-8 text-text-secondary">No episodes available.</p>
+          ) : (
+            <div className="space-y-2">
+              {seasonEpisodes.map(item => {
+                const progress = getWatchProgress(item.id);
+                const isPlaying = item.id === episode?.id;
+                return (
+                  <button
+                    key={item.id}
+                    onClick={() => playEpisode(item)}
+                    className={`w-full flex items-center gap-3 rounded-lg border p-3 text-left transition-colors ${
+                      isPlaying ? 'border-accent bg-accent/10' : 'hover:bg-accent/5'
+                    }`}
+                  >
+                    <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-muted">
+                      {isPlaying ? <Play size={16} className="text-accent" fill="currentColor" /> : item.episode}
+                    </div>
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <div className="truncate font-medium">{item.name}</div>
+                      {item.plot && <div className="truncate text-xs text-text-secondary">{item.plot}</div>}
+                      {isResumable(progress) && (
+                        <Progress value={(progress.position / progress.duration) * 100} className="h-1" />
+                      )}
+                    </div>
+                    {progress?.watched && <CheckCircle size={16} className="shrink-0 text-green-500" aria-label="Watched" />}
+                    {item.durationSecs && (
+                      <span className="shrink-0 text-xs text-text-secondary">{formatDuration(item.durationSecs)}</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </section>
+      </div>
+    </ErrorBoundary>
+  );
+};
+
+export default SeriesDetail;
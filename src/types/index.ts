@@ -10,7 +10,40 @@ export interface Category {
   slug: string;
   iconUrl?: string;
   m3uUrl?: string;
+  sourceType?: CategorySourceType; // Missing on older categories, which are M3U
+  xtream?: XtreamSource;
+  stalker?: StalkerSource;
   order?: number;
+  groupMappings?: CategoryGroupMapping[];
+}
+
+export type CategorySourceType = 'm3u' | 'xtream' | 'stalker';
+
+// An Xtream Codes login. The credentials are sealed by the server and can only be
+// opened there, so `source` is safe to keep in the public category document.
+export interface XtreamSource {
+  server: string;
+  source: string;
+  categoryIds?: string[]; // Live categories to include; all when empty
+  includeVod?: boolean; // List the server's movies and series in the library
+}
+
+// A Ministra/Stalker portal login (portal URL and MAC address), sealed like XtreamSource
+export interface StalkerSource {
+  portal: string;
+  source: string;
+  categoryIds?: string[]; // Genres to include; all when empty
+}
+
+// Moves every channel of a playlist group into another category
+export interface CategoryGroupMapping {
+  group: string;
+  categoryId: string;
+}
+
+export interface PlaylistGroup {
+  name: string;
+  count: number;
 }
 
 export interface PublicChannel {
@@ -18,8 +51,108 @@ export interface PublicChannel {
   name: string;
   logoUrl: string;
   streamUrl: string;
+  streamKey?: string; // Same for every URL minted for one upstream stream
+  categoryId: string;
+  categoryName: string;
+  legacyId?: string; // Position-based ID playlist channels had before stable IDs
+  // #EXTINF attributes (only present on playlist channels)
+  tvgId?: string;
+  tvgName?: string;
+  tvgChno?: string;
+  groupTitle?: string;
+  tvgLanguage?: string;
+  tvgCountry?: string;
+  tvgShift?: string;
+  // Catch-up mode and days as the server resolved them; only set when it can build catch-up URLs
+  catchup?: string;
+  catchupDays?: number;
+  attributes?: Record<string, string>;
+  // Player options from #KODIPROP; request headers stay sealed in the proxy URL
+  drm?: DrmConfig;
+  manifestType?: string;
+  lowLatency?: LowLatencyConfig;
+  // XMLTV guides of the playlist (url-tvg / x-tvg-url), as sealed references for /api/epg
+  epgUrls?: string[];
+  // Backup streams, tried in order when the channel's own stream fails
+  sources?: ChannelSource[];
+}
+
+// One way to play a channel: its own stream, or one of its backups
+export interface ChannelSource {
+  label: string;
+  streamUrl: string;
+  streamKey?: string;
+  drm?: DrmConfig;
+  manifestType?: string;
+}
+
+// On-demand titles from playlist VOD entries and Xtream VOD/series listings
+export interface Movie {
+  id: string;
+  name: string;
+  posterUrl: string;
+  streamUrl: string;
+  categoryId: string;
+  categoryName: string;
+  groupTitle?: string;
+  year?: number;
+  rating?: number;
+  plot?: string;
+  genre?: string;
+  containerExtension?: string;
+}
+
+export interface Series {
+  id: string;
+  name: string;
+  posterUrl: string;
   categoryId: string;
   categoryName: string;
+  groupTitle?: string;
+  year?: number;
+  rating?: number;
+  plot?: string;
+  genre?: string;
+  episodes?: Episode[]; // Only M3U series arrive with their episodes
+}
+
+export interface Episode {
+  id: string;
+  seriesId: string;
+  name: string;
+  season: number;
+  episode: number;
+  streamUrl: string;
+  posterUrl?: string;
+  plot?: string;
+  durationSecs?: number;
+  containerExtension?: string;
+}
+
+export interface Programme {
+  start: number; // ms
+  stop: number; // ms
+  title: string;
+  subTitle?: string;
+  desc?: string;
+  category?: string;
+  icon?: string;
+}
+
+export type DrmKeySystem = 'org.w3.clearkey' | 'com.widevine.alpha' | 'com.microsoft.playready';
+
+// How the player obtains keys for an encrypted stream
+export interface DrmConfig {
+  keySystem: DrmKeySystem;
+  licenseUrl?: string; // Required for Widevine and PlayReady; optional for ClearKey
+  licenseHeaders?: Record<string, string>; // Sent with every license request (tokens, API keys)
+  serverCertificateUrl?: string; // Widevine service certificate
+  clearKeys?: Record<string, string>; // ClearKey key ID -> key, both hex
+}
+
+// Low-latency live playback (LL-HLS / LL-DASH); channels and events without it play normally
+export interface LowLatencyConfig {
+  targetLatency: number; // Seconds behind the live edge to aim for
 }
 
 export interface AdminChannel {
@@ -30,14 +163,40 @@ export interface AdminChannel {
   categoryId: string;
   categoryName: string;
   authCookie?: string;
+  referer?: string;
+  userAgent?: string;
+  drm?: DrmConfig;
+  lowLatency?: LowLatencyConfig;
+  sources?: AdminChannelSource[];
+}
+
+// A manual channel's backup stream, stored with the same request options as its main one
+export interface AdminChannelSource {
+  label: string;
+  streamUrl: string;
+  authCookie?: string;
+  referer?: string;
+  userAgent?: string;
+  drm?: DrmConfig;
+}
+
+// What a manual channel keeps in the admin-only channelSecrets collection; backups by index
+export interface AdminChannelSecrets {
+  streamUrl: string;
+  authCookie?: string;
+  referer?: string;
+  userAgent?: string;
+  sources?: Omit<AdminChannelSource, 'label' | 'drm'>[];
 }
 
 export interface FavoriteChannel {
   id: string;
   name: string;
   logoUrl: string;
-  streamUrl: string;
   categoryName: string;
+  // Find the channel again if its ID changes. Stream URLs are proxy URLs that expire, so they are not kept.
+  streamKey?: string;
+  tvgId?: string;
   addedAt: number;
 }
 
@@ -54,6 +213,7 @@ export interface RecentChannel {
 export interface LiveEventLink {
   label: string;
   url: string;
+  drm?: DrmConfig;
 }
 
 export interface LiveEvent {
@@ -67,5 +227,58 @@ export interface LiveEvent {
   startTime: string; // ISO string date
   endTime?: string;  // Optional ISO string date for when match ends
   isLive: boolean;   // Force live status
+  lowLatency?: LowLatencyConfig; // Applies to every link
   links: LiveEventLink[];
 }
+
+// Stream proxy settings, stored in settings/proxy and read by the edge functions
+export interface ProxySettings {
+  upstreamAllowlist: string[]; // Hosts the proxy may fetch from; empty allows any public host
+}
+
+// Result of a server-side stream check (/api/probe)
+export type StreamHealthStatus = 'ok' | 'degraded' | 'dead';
+
+export interface StreamVariant {
+  bandwidth: number; // bits per second
+  width?: number;
+  height?: number;
+  codecs?: string;
+}
+
+export interface StreamHealth {
+  status: StreamHealthStatus; // degraded: the manifest loads but segments do not
+  kind: 'hls' | 'dash' | 'media' | null;
+  httpStatus?: number;
+  latencyMs?: number;
+  segmentLatencyMs?: number;
+  segmentChecked: boolean;
+  variants: StreamVariant[];
+  error?: string;
+  checkedAt: number;
+}
+
+// A channel's history from the scheduled health check (/api/health)
+export interface ChannelHealthRecord {
+  name: string;
+  categoryName: string;
+  source: 'manual' | CategorySourceType;
+  status: StreamHealthStatus;
+  offline: boolean; // failed its last few checks
+  history: string;  // one character per check, newest last: o ok, d degraded, x dead
+  checkedAt: number;
+  since: number;    // when the status last changed
+  latencyMs?: number;
+  error?: string;
+}
+
+// Totals after one run of the scheduled health check
+export interface HealthRun {
+  at: number;
+  checked: number;
+  total: number;
+  ok: number;
+  degraded: number;
+  dead: number;
+  offline: number;
+}